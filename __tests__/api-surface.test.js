@@ -0,0 +1,97 @@
+const { mkdtempSync, mkdirSync, writeFileSync, rmSync, symlinkSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { ApiSurfaceExtractor, diffApiSurfaces } = require('../dist/versioning/api-surface');
+
+describe('ApiSurfaceExtractor', () => {
+  let dir;
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+  const write = (file, text) => writeFileSync(path.join(dir, file), text);
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-api-'));
+    mkdirSync(path.join(dir, 'src'));
+    mkdirSync(path.join(dir, 'node_modules'));
+    symlinkSync(path.dirname(require.resolve('typescript/package.json')), path.join(dir, 'node_modules', 'typescript'));
+    git('init -q');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    write('.gitignore', 'node_modules\n');
+    write('package.json', JSON.stringify({ name: 'api', version: '1.0.0', main: 'dist/index.js', exports: { '.': './dist/index.js', './utils': './dist/utils.js' } }));
+    write('src/utils.ts', 'export function slug(text: string): string { return text; }\n');
+    write('src/index.ts', [
+      "export { slug } from './utils.js';",
+      'export function greet(name: string, loud?: boolean): string { return name; }',
+      'export function parse(input: string | Buffer): number { return 1; }',
+      'export interface Options { retries: number; label?: string; }',
+      "export enum Level { Low = 'low', High = 'high' }",
+      "export type Mode = 'a' | 'b';",
+      'export class Client { constructor(url: string) {} get(path: string): string { return path; } private secret = 1; }',
+      'export const VERSION = 1;',
+      ''
+    ].join('\n'));
+    git('add -A');
+    git('commit -qm "feat: initial"');
+    git('tag v1.0.0');
+
+    write('package.json', JSON.stringify({ name: 'api', version: '1.0.0', main: 'dist/index.js', exports: { '.': './dist/index.js', './extra': './dist/extra.js' } }));
+    write('src/index.ts', [
+      "export { slug } from './utils.js';",
+      'export function greet(name: string, loud?: boolean, prefix?: string): string { return name; }',
+      'export function parse(input: string): number { return 1; }',
+      'export interface Options { retries: number; label?: string; timeout: number; }',
+      "export enum Level { Low = 'low', High = 'HIGH', Max = 'max' }",
+      "export type Mode = 'a' | 'b' | 'c';",
+      'export class Client { constructor(url: string) {} private secret = 2; }',
+      'export function added(): void {}',
+      ''
+    ].join('\n'));
+    git('add -A');
+    git('commit -qm "chore: change things"');
+  }, 30000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads exported symbols from the source behind main', async () => {
+    const snapshot = await new ApiSurfaceExtractor({ cwd: dir }).extract('v1.0.0');
+    expect(snapshot.entryPoints).toEqual(['src/index.ts']);
+    expect(snapshot.exports).toEqual(['.', './utils']);
+    expect(Object.keys(snapshot.symbols).sort()).toEqual(['Client', 'Level', 'Mode', 'Options', 'VERSION', 'greet', 'parse', 'slug']);
+    expect(snapshot.symbols.Client.members).toHaveProperty('get');
+    expect(snapshot.symbols.Client.members).not.toHaveProperty('secret');
+    expect(snapshot.symbols.Level.values).toEqual({ Low: '"low"', High: '"high"' });
+  }, 30000);
+
+  it('sorts changes since a tag into breaking changes and features', async () => {
+    const diff = await new ApiSurfaceExtractor({ cwd: dir }).diff('v1.0.0', 'HEAD');
+    const breaking = diff.breaking.map(change => change.message).join('\n');
+    const features = diff.features.map(change => change.message).join('\n');
+
+    expect(breaking).toMatch('Removed package export `./utils`');
+    expect(breaking).toMatch('Removed variable `VERSION`');
+    expect(breaking).toMatch('Removed member `Client.get`');
+    expect(breaking).toMatch('`parse` signature changed');
+    expect(breaking).toMatch('Added required member `Options.timeout`');
+    expect(breaking).toMatch('`Level.High` changed from "high" to "HIGH"');
+    expect(breaking).not.toMatch('greet');
+
+    expect(features).toMatch('Added package export `./extra`');
+    expect(features).toMatch('Added function `added`');
+    expect(features).toMatch('`greet` signature extended');
+    expect(features).toMatch('Added enum value `Level.Max`');
+    expect(features).toMatch("Type of `Mode` now also allows `\"c\"`");
+  }, 30000);
+});
+
+describe('diffApiSurfaces', () => {
+  it('compares package exports without symbols', () => {
+    const diff = diffApiSurfaces(
+      { ref: 'a', entryPoints: [], symbols: {}, exports: ['.'] },
+      { ref: 'b', entryPoints: [], symbols: {}, exports: ['.'] }
+    );
+    expect(diff).toEqual({ breaking: [], features: [] });
+  });
+});
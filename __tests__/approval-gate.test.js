@@ -0,0 +1,108 @@
+const { mkdtempSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { ApprovalGate, ApprovalStore, isAuthorizedApprover } = require('../dist/approvals/approval-gate');
+
+describe('ApprovalStore', () => {
+  let dir;
+  let now;
+  let store;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-approvals-'));
+    now = new Date('2024-05-01T10:00:00Z');
+    store = new ApprovalStore(path.join(dir, 'approvals.json'), () => now);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const release = { package: 'demo', version: '1.2.0', tag: 'latest' };
+  const alice = { platform: 'slack', id: 'U1', name: 'alice' };
+
+  it('records a decision that another store on the same file can read', () => {
+    const request = store.create(release, 600);
+    expect(request).toEqual(expect.objectContaining({ status: 'pending', expiresAt: '2024-05-01T10:10:00.000Z' }));
+
+    store.decide(request.id, 'approved', alice);
+    const reader = new ApprovalStore(path.join(dir, 'approvals.json'));
+    expect(reader.get(request.id)).toEqual(expect.objectContaining({ status: 'approved', decidedBy: alice }));
+  });
+
+  it('refuses a second decision and a decision after expiry', () => {
+    const first = store.create(release, 600);
+    store.decide(first.id, 'rejected', alice);
+    expect(() => store.decide(first.id, 'approved', alice)).toThrow('already rejected');
+
+    const second = store.create(release, 600);
+    now = new Date('2024-05-01T10:10:00Z');
+    expect(() => store.decide(second.id, 'approved', alice)).toThrow('expired');
+    expect(store.get(second.id).status).toBe('expired');
+
+    expect(() => store.decide('apr_missing', 'approved', alice)).toThrow('No approval request');
+  });
+});
+
+describe('isAuthorizedApprover', () => {
+  it('matches platform-qualified and bare ids', () => {
+    const approvers = ['slack:U1', '42'];
+    expect(isAuthorizedApprover(approvers, { platform: 'slack', id: 'U1' })).toBe(true);
+    expect(isAuthorizedApprover(approvers, { platform: 'discord', id: 'U1' })).toBe(false);
+    expect(isAuthorizedApprover(approvers, { platform: 'discord', id: '42' })).toBe(true);
+    expect(isAuthorizedApprover(approvers, { platform: 'slack', id: 'U2' })).toBe(false);
+  });
+});
+
+describe('ApprovalGate', () => {
+  let dir;
+  let store;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-gate-'));
+    store = new ApprovalStore(path.join(dir, 'approvals.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const release = { package: 'demo', version: '1.2.0', tag: 'latest', requestedBy: 'ci' };
+
+  it('posts buttons to Slack and Discord and resolves once someone decides', async () => {
+    const slack = { sendRichMessage: jest.fn().mockResolvedValue(true) };
+    const discord = { sendInteractiveMessage: jest.fn().mockResolvedValue(true) };
+    const gate = new ApprovalGate({ approvers: ['slack:U1'], store, slack, discord, pollInterval: 10 });
+
+    const request = await gate.request(release);
+    const actions = slack.sendRichMessage.mock.calls[0][0].blocks.find(block => block.type === 'actions');
+    expect(actions.elements.map(button => [button.action_id, button.value])).toEqual([
+      ['npmsafe_approve', request.id],
+      ['npmsafe_reject', request.id]
+    ]);
+    expect(discord.sendInteractiveMessage.mock.calls[0][1].map(button => button.customId)).toEqual([
+      `npmsafe:approve:${request.id}`,
+      `npmsafe:reject:${request.id}`
+    ]);
+
+    const decision = gate.waitForDecision(request.id);
+    setTimeout(() => store.decide(request.id, 'approved', { platform: 'slack', id: 'U1' }), 30);
+    await expect(decision).resolves.toEqual(expect.objectContaining({ status: 'approved', decidedBy: { platform: 'slack', id: 'U1' } }));
+  });
+
+  it('expires a request nobody decides in time', async () => {
+    const slack = { sendRichMessage: jest.fn().mockResolvedValue(true) };
+    const gate = new ApprovalGate({ approvers: ['U1'], store, slack, timeout: 0.05, pollInterval: 10 });
+
+    const request = await gate.request(release);
+    await expect(gate.waitForDecision(request.id)).resolves.toEqual(expect.objectContaining({ status: 'expired' }));
+    expect(store.get(request.id).status).toBe('expired');
+  });
+
+  it('needs approvers and somewhere to post', async () => {
+    const slack = { sendRichMessage: jest.fn().mockResolvedValue(false) };
+    await expect(new ApprovalGate({ approvers: [], store, slack }).request(release)).rejects.toThrow('No approvers');
+    await expect(new ApprovalGate({ approvers: ['U1'], store }).request(release)).rejects.toThrow('Slack or Discord');
+    await expect(new ApprovalGate({ approvers: ['U1'], store, slack }).request(release)).rejects.toThrow('Could not post');
+  });
+});
@@ -0,0 +1,137 @@
+const http = require('http');
+const { createHmac, generateKeyPairSync, sign } = require('crypto');
+const { mkdtempSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { ApprovalStore } = require('../dist/approvals/approval-gate');
+const { ApprovalInteractions, verifySlackSignature, verifyDiscordSignature } = require('../dist/approvals/interactions');
+
+const SIGNING_SECRET = '8f742231b10e8888abcd99yyyzzz85a5';
+
+function slackHeaders(body, timestamp = String(Math.floor(Date.now() / 1000))) {
+  const signature = `v0=${createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+  return { 'x-slack-request-timestamp': timestamp, 'x-slack-signature': signature };
+}
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+// The last 32 bytes of the SPKI encoding are the raw key, which is what Discord shows
+const DISCORD_PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('hex');
+
+function discordHeaders(body, timestamp = '1714557600') {
+  return {
+    'x-signature-timestamp': timestamp,
+    'x-signature-ed25519': sign(null, Buffer.from(timestamp + body), privateKey).toString('hex')
+  };
+}
+
+describe('interaction signatures', () => {
+  it('verifies Slack signatures and refuses stale ones', () => {
+    const body = 'payload=%7B%7D';
+    const headers = slackHeaders(body, '1714557600');
+    const at = new Date(1714557600 * 1000);
+    expect(verifySlackSignature(SIGNING_SECRET, headers['x-slack-request-timestamp'], body, headers['x-slack-signature'], at)).toBe(true);
+    expect(verifySlackSignature(SIGNING_SECRET, headers['x-slack-request-timestamp'], body + 'x', headers['x-slack-signature'], at)).toBe(false);
+    expect(verifySlackSignature(SIGNING_SECRET, headers['x-slack-request-timestamp'], body, headers['x-slack-signature'], new Date(at.getTime() + 301000))).toBe(false);
+  });
+
+  it('verifies Discord ed25519 signatures', () => {
+    const body = '{"type":1}';
+    const headers = discordHeaders(body);
+    expect(verifyDiscordSignature(DISCORD_PUBLIC_KEY, headers['x-signature-timestamp'], body, headers['x-signature-ed25519'])).toBe(true);
+    expect(verifyDiscordSignature(DISCORD_PUBLIC_KEY, headers['x-signature-timestamp'], '{"type":2}', headers['x-signature-ed25519'])).toBe(false);
+    expect(verifyDiscordSignature(DISCORD_PUBLIC_KEY, headers['x-signature-timestamp'], body, 'abc')).toBe(false);
+  });
+});
+
+describe('ApprovalInteractions', () => {
+  let dir;
+  let store;
+  let interactions;
+  let server;
+  let responses;
+  let responseUrl;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        responses.push(JSON.parse(body));
+        res.end('ok');
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    responseUrl = `http://127.0.0.1:${server.address().port}/respond`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-interactions-'));
+    store = new ApprovalStore(path.join(dir, 'approvals.json'));
+    responses = [];
+    interactions = new ApprovalInteractions({
+      store,
+      approvers: ['slack:U1', 'discord:42'],
+      slackSigningSecret: SIGNING_SECRET,
+      discordPublicKey: DISCORD_PUBLIC_KEY
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const release = { package: 'demo', version: '1.2.0', tag: 'latest' };
+
+  function slackClick(requestId, user, actionId = 'npmsafe_approve') {
+    const payload = {
+      type: 'block_actions',
+      user: { id: user, username: 'alice' },
+      actions: [{ action_id: actionId, value: requestId }],
+      response_url: responseUrl
+    };
+    return `payload=${encodeURIComponent(JSON.stringify(payload))}`;
+  }
+
+  it('approves from a signed Slack click and updates the message', async () => {
+    const request = store.create(release, 600);
+    const body = slackClick(request.id, 'U1');
+
+    await expect(interactions.handleSlack(body, slackHeaders(body))).resolves.toEqual({ status: 200, body: {} });
+    expect(store.get(request.id)).toEqual(expect.objectContaining({ status: 'approved', decidedBy: { platform: 'slack', id: 'U1', name: 'alice' } }));
+    expect(responses).toEqual([{ replace_original: true, text: '✅ Publish of demo@1.2.0 approved by alice' }]);
+  });
+
+  it('ignores Slack clicks from users who are not approvers or are unsigned', async () => {
+    const request = store.create(release, 600);
+    const body = slackClick(request.id, 'U2');
+
+    expect((await interactions.handleSlack(body, { ...slackHeaders(body), 'x-slack-signature': 'v0=forged' })).status).toBe(401);
+    await interactions.handleSlack(body, slackHeaders(body));
+    expect(store.get(request.id).status).toBe('pending');
+    expect(responses[0]).toEqual(expect.objectContaining({ response_type: 'ephemeral', text: expect.stringContaining('not allowed') }));
+  });
+
+  it('answers Discord pings and rejects from a component click', async () => {
+    const ping = '{"type":1}';
+    await expect(interactions.handleDiscord(ping, discordHeaders(ping))).resolves.toEqual({ status: 200, body: { type: 1 } });
+
+    const request = store.create(release, 600);
+    const click = JSON.stringify({ type: 3, data: { custom_id: `npmsafe:reject:${request.id}` }, member: { user: { id: '42', username: 'bob' } } });
+    const response = await interactions.handleDiscord(click, discordHeaders(click));
+
+    expect(response).toEqual({ status: 200, body: { type: 7, data: { content: '❌ Publish of demo@1.2.0 rejected by bob', components: [] } } });
+    expect(store.get(request.id).status).toBe('rejected');
+
+    const again = await interactions.handleDiscord(click, discordHeaders(click));
+    expect(again.body).toEqual({ type: 4, data: { content: expect.stringContaining('already rejected'), flags: 64 } });
+  });
+
+  it('refuses Discord requests with a bad signature', async () => {
+    const body = '{"type":1}';
+    expect((await interactions.handleDiscord(body, discordHeaders('{"type":2}'))).status).toBe(401);
+  });
+});
@@ -0,0 +1,79 @@
+const http = require('http');
+const { CIChecker } = require('../dist/safety/ci-checker');
+
+describe('CIChecker', () => {
+  it('detects the provider from environment variables', () => {
+    const detect = (env) => new CIChecker({ env }).detect();
+
+    expect(detect({
+      GITHUB_ACTIONS: 'true', GITHUB_SERVER_URL: 'https://github.com', GITHUB_REPOSITORY: 'acme/lib', GITHUB_RUN_ID: '42', GITHUB_SHA: 'abc'
+    })).toEqual({ provider: 'github-actions', buildUrl: 'https://github.com/acme/lib/actions/runs/42', commit: 'abc', repository: 'acme/lib' });
+    expect(detect({ GITLAB_CI: 'true', CI_JOB_URL: 'https://gitlab.com/job/1', CI_COMMIT_SHA: 'def', CI_PROJECT_PATH: 'acme/lib' }).provider).toBe('gitlab');
+    expect(detect({ CIRCLECI: 'true', CIRCLE_SHA1: 'f00' }).commit).toBe('f00');
+    expect(detect({ JENKINS_URL: 'https://ci.example.com/', BUILD_URL: 'https://ci.example.com/job/1' }).provider).toBe('jenkins');
+    expect(detect({ BUILDKITE: 'true', BUILDKITE_COMMIT: 'b1' }).provider).toBe('buildkite');
+    expect(detect({})).toBeNull();
+  });
+
+  it('fails a local publish when no CI result is available', async () => {
+    const result = await new CIChecker({ env: {} }).check('0123456789');
+    expect(result.passed).toBe(false);
+    expect(result.reasons[0]).toMatch(/^Not running in CI/);
+
+    const inCI = await new CIChecker({ env: { BUILDKITE: 'true' } }).check('0123456789');
+    expect(inCI.passed).toBe(true);
+  });
+
+  describe('with the GitHub API', () => {
+    let server;
+    let apiUrl;
+    const responses = {};
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const match = req.url.match(/^\/repos\/acme\/lib\/commits\/(\w+)\/(check-runs|status)/);
+        const body = match && responses[match[1]] && responses[match[1]][match[2]];
+        res.writeHead(body ? 200 : 404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body || { message: 'Not Found' }));
+      });
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+      apiUrl = `http://127.0.0.1:${server.address().port}`;
+
+      responses.good = {
+        'check-runs': { check_runs: [{ name: 'test', status: 'completed', conclusion: 'success', completed_at: '2024-01-02T00:00:00Z' }] },
+        status: { state: 'success', statuses: [{ context: 'ci/lint', state: 'success', updated_at: '2024-01-01T00:00:00Z' }] }
+      };
+      responses.bad = {
+        'check-runs': {
+          check_runs: [
+            { name: 'test', status: 'completed', conclusion: 'failure' },
+            { name: 'publish', status: 'in_progress', conclusion: null, details_url: 'https://github.com/acme/lib/actions/runs/7/job/1' }
+          ]
+        },
+        status: { state: 'pending', statuses: [{ context: 'ci/e2e', state: 'pending' }] }
+      };
+    });
+
+    afterAll(() => new Promise(resolve => server.close(resolve)));
+
+    const checker = (env = {}) => new CIChecker({ env, githubToken: 't', githubRepo: 'acme/lib', githubApiUrl: apiUrl });
+
+    it('passes when every check succeeded', async () => {
+      const result = await checker().check('good');
+      expect(result.passed).toBe(true);
+      expect(result.status).toMatchObject({ status: 'passing', provider: 'github', commit: 'good', lastRun: '2024-01-02T00:00:00Z' });
+    });
+
+    it('names failing and pending checks, ignoring the publishing run', async () => {
+      const result = await checker({ GITHUB_ACTIONS: 'true', GITHUB_RUN_ID: '7', GITHUB_REPOSITORY: 'acme/lib' }).check('bad');
+      expect(result.passed).toBe(false);
+      expect(result.status.failedChecks).toEqual(['test']);
+      expect(result.status.pendingChecks).toEqual(['ci/e2e']);
+      expect(result.reasons).toEqual(['CI failed for commit bad (test); fix the build before publishing']);
+    });
+
+    it('reports API errors', async () => {
+      await expect(checker().check('missing')).rejects.toThrow(/Could not read CI status of missing from GitHub: 404/);
+    });
+  });
+});
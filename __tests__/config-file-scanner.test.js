@@ -0,0 +1,46 @@
+const { ConfigFileScanner } = require('../dist/scanners/config-file-scanner');
+const { SecretScanner } = require('../dist/scanners/secret-scanner');
+
+describe('ConfigFileScanner', () => {
+  const scanner = new ConfigFileScanner();
+  const found = (content, file) => scanner.scan(content, file).map(result => `${result.context}=${result.value}@${result.line}:${result.column}`);
+
+  it('reports the key path of sensitive YAML and JSON values', () => {
+    const yaml = [
+      'database:',
+      '  prod:',
+      '    host: db.internal',
+      '    password: hunter2',
+      '  tokenUrl: https://auth.example.com',
+      'servers:',
+      '  - name: a',
+      '    token: "abc123"'
+    ].join('\n');
+    expect(found(yaml, 'config/app.yml')).toEqual([
+      'database.prod.password=hunter2@4:15',
+      'servers[0].token=abc123@8:13'
+    ]);
+
+    const json = '{\n  "stripe": {\n    "apiKey": "sk-plain-value"\n  }\n}';
+    expect(found(json, 'settings.json')).toEqual(['stripe.apiKey=sk-plain-value@3:16']);
+  });
+
+  it('reads .env, .npmrc, TOML and INI files', () => {
+    expect(found('export DB_PASS=letmein\nDB_HOST=localhost\nAPI_TOKEN=${CI_TOKEN}', '.env.production'))
+      .toEqual(['DB_PASS=letmein@1:16']);
+    expect(found('//registry.npmjs.org/:_authToken=npm_abc\nregistry=https://registry.npmjs.org/', '.npmrc'))
+      .toEqual(['//registry.npmjs.org/:_authToken=npm_abc@1:34']);
+    expect(found('[database.prod]\npassword = "s3cret" # prod\nbypass = "yes"', 'app.toml'))
+      .toEqual(['database.prod.password=s3cret@2:13']);
+    expect(found('[smtp]\nuser=me\npass=mailpw', 'mail.ini'))
+      .toEqual(['smtp.pass=mailpw@3:6']);
+  });
+
+  it('feeds findings into the secret scanner', async () => {
+    const results = await new SecretScanner().scan({
+      entropy: 0,
+      files: [{ file: 'config.yaml', content: 'auth:\n  secret: hunter2 # npmsafe-ignore sensitive-config-value\n  password: hunter3' }]
+    });
+    expect(results.map(result => result.context)).toEqual(['auth.password']);
+  });
+});
@@ -0,0 +1,92 @@
+const { mkdtempSync, writeFileSync, readFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { ConfigLoader, ConfigValidationError } = require('../dist/config/config-loader');
+
+describe('ConfigLoader', () => {
+  let cwd;
+  let userDir;
+  const write = (dir, file, content) =>
+    writeFileSync(path.join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+  const load = (env = {}) => new ConfigLoader({ cwd, userDir, env }).load();
+
+  beforeEach(() => {
+    cwd = mkdtempSync(path.join(tmpdir(), 'npmsafe-config-'));
+    userDir = mkdtempSync(path.join(tmpdir(), 'npmsafe-home-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+    rmSync(userDir, { recursive: true, force: true });
+  });
+
+  it('returns the defaults when nothing is configured', async () => {
+    const { config, sources } = await load();
+    expect(config).toEqual(ConfigLoader.defaults());
+    expect(sources.map(source => source.kind)).toEqual(['defaults']);
+  });
+
+  it('merges user, package.json, project and env layers in order', async () => {
+    write(userDir, '.npmsaferc.yaml', 'tag: next\nrequireCI: false\nallowedSecrets: [from-user]\n');
+    write(cwd, 'package.json', { name: 'fixture', npmsafe: { tag: 'beta', changelog: false, encryption: { enabled: true } } });
+    write(cwd, '.npmsaferc.yml', 'dryRun: true\n');
+    write(cwd, '.npmsafe.json', { version: '2.0.0', config: { tag: 'project', allowedSecrets: ['from-project'] } });
+
+    const { config, sources } = await load({
+      NPMSAFE_DRY_RUN: 'false',
+      NPMSAFE_ALLOWED_SECRETS: 'a, b',
+      NPMSAFE_ENCRYPTION__KEY_PATH: '/keys/npmsafe',
+      NPMSAFE_REGISTRY: 'https://npm.example.com/',
+      NPMSAFE_UNKNOWN: 'ignored'
+    });
+
+    expect(sources.map(source => source.kind)).toEqual(['defaults', 'user', 'package.json', 'project', 'project', 'env']);
+    expect(config.version).toBe('2.0.0');
+    expect(config.config).toMatchObject({
+      requireCI: false,
+      tag: 'project',
+      changelog: false,
+      dryRun: false,
+      allowedSecrets: ['a', 'b'],
+      registry: 'https://npm.example.com/',
+      encryption: { enabled: true, algorithm: 'aes-256-gcm', keyPath: '/keys/npmsafe' }
+    });
+  });
+
+  it('reports every schema problem with its source', async () => {
+    write(cwd, '.npmsafe.json', { config: { requireCI: 'yes', registry: 'not a url', webhooks: 'https://example.com' } });
+
+    const error = await load().catch(err => err);
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.source).toBe(path.join(cwd, '.npmsafe.json'));
+    expect(error.issues).toEqual(expect.arrayContaining([
+      'requireCI: Expected boolean, received string',
+      'registry: Invalid url',
+      'webhooks: Expected array, received string'
+    ]));
+  });
+
+  it('compiles string regexes into secret patterns', async () => {
+    write(cwd, '.npmsaferc.json', {
+      secretPatterns: [
+        { name: 'Internal Token', regex: 'itk_[a-z0-9]{24}', flags: 'i', severity: 'high' },
+        { name: 'Legacy Key', pattern: 'legacy_[0-9]{8}', description: 'Legacy key', severity: 'low' }
+      ]
+    });
+
+    const { config } = await load();
+    const [internal, legacy] = config.config.secretPatterns;
+    expect(internal.pattern).toEqual(/itk_[a-z0-9]{24}/i);
+    expect(internal.description).toBe('Internal Token');
+    expect(legacy.pattern).toEqual(/legacy_[0-9]{8}/);
+  });
+
+  it('writes a config file that loads back', async () => {
+    const config = ConfigLoader.defaults();
+    config.config.requireCI = false;
+    ConfigLoader.write(config, path.join(cwd, '.npmsafe.json'));
+
+    expect(JSON.parse(readFileSync(path.join(cwd, '.npmsafe.json'), 'utf-8')).config.requireCI).toBe(false);
+    expect((await load()).config.config.requireCI).toBe(false);
+  });
+});
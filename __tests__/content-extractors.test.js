@@ -0,0 +1,120 @@
+const { deflateRawSync, gzipSync } = require('zlib');
+const { ContentExtraction } = require('../dist/scanners/content-extractors');
+const { SecretScanner } = require('../dist/scanners/secret-scanner');
+const { readTarball } = require('../dist/utils/tarball');
+const { readZip } = require('../dist/utils/zip');
+
+const SECRET = 'AKIA1234567890ABCD12';
+
+// Minimal zip writer: deflated entries, CRCs left at zero (the reader does not check them)
+function makeZip(entries) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBuffer = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('ContentExtraction', () => {
+  it('unpacks nested archives into virtual paths', () => {
+    const inner = makeZip({ 'secrets.txt': `key=${SECRET}` });
+    const outer = makeZip({ 'config/.env': `AWS_KEY=${SECRET}\n`, 'nested/inner.zip': inner });
+
+    const files = new ContentExtraction().extract('fixtures.zip', outer).map(entry => entry.file);
+    expect(files).toEqual(expect.arrayContaining([
+      'fixtures.zip!/config/.env',
+      'fixtures.zip!/nested/inner.zip!/secrets.txt'
+    ]));
+
+    // At the depth limit the inner archive is only scanned for printable strings
+    const shallow = new ContentExtraction({ maxDepth: 1 }).extract('fixtures.zip', outer).map(entry => entry.file);
+    expect(shallow).not.toContain('fixtures.zip!/nested/inner.zip!/secrets.txt');
+  });
+
+  it('reports findings inside archives, notebooks and source maps', async () => {
+    const notebook = JSON.stringify({
+      cells: [
+        { cell_type: 'markdown', source: ['# Analysis'] },
+        { cell_type: 'code', source: ['import boto3\n', `client = boto3.client(key="${SECRET}")\n`], outputs: [] }
+      ]
+    });
+    const sourceMap = JSON.stringify({
+      version: 3,
+      sources: ['webpack:///src/config.ts'],
+      sourcesContent: [`export const key = "${SECRET}";`],
+      mappings: ''
+    });
+
+    const results = await new SecretScanner().scan({
+      extract: true,
+      entropy: 0,
+      files: [
+        { file: 'analysis.ipynb', content: notebook },
+        { file: 'dist/app.js.map', content: sourceMap }
+      ]
+    });
+
+    const locations = results.filter(result => result.pattern.name === 'AWS Access Key').map(result => `${result.file}:${result.line}`);
+    expect(locations).toEqual(expect.arrayContaining([
+      'analysis.ipynb!/cell-2:2',
+      'dist/app.js.map!/src/config.ts:1'
+    ]));
+  });
+
+  it('gunzips plain .gz files', () => {
+    const entries = new ContentExtraction().extract('dump.sql.gz', gzipSync(`password '${SECRET}'`));
+    expect(entries).toEqual([{ file: 'dump.sql.gz!/dump.sql', content: `password '${SECRET}'` }]);
+  });
+
+  it('stops unpacking a tarball past the archive size limit', () => {
+    // 8 MB of zeros gzips to a few KB
+    const bomb = gzipSync(Buffer.alloc(8 * 1024 * 1024));
+    expect(() => readTarball(bomb, 1024 * 1024)).toThrow('unpacks to more than 1048576 bytes');
+
+    const entries = new ContentExtraction({ maxArchiveSize: 1024 * 1024 }).extract('bomb.tgz', bomb);
+    expect(entries.filter(entry => entry.file.startsWith('bomb.tgz!/'))).toEqual([]);
+  });
+
+  it('stops unpacking a zip whose entries together pass the archive size limit', () => {
+    // Each 1 MB entry is under the entry limit, but 20 of them are not under the archive limit
+    const entries = {};
+    for (let i = 0; i < 20; i++) entries[`part${i}.txt`] = 'a'.repeat(1024 * 1024);
+    const bomb = makeZip(entries);
+    expect(() => readZip(bomb, 2 * 1024 * 1024, 4 * 1024 * 1024)).toThrow('unpacks to more than 4194304 bytes');
+
+    const extracted = new ContentExtraction({ maxEntrySize: 2 * 1024 * 1024, maxArchiveSize: 4 * 1024 * 1024 }).extract('bomb.zip', bomb);
+    expect(extracted.filter(entry => entry.file.startsWith('bomb.zip!/'))).toEqual([]);
+  });
+});
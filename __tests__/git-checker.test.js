@@ -0,0 +1,70 @@
+const { mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { GitChecker } = require('../dist/safety/git-checker');
+
+describe('GitChecker', () => {
+  let root;
+  let dir;
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'npmsafe-git-check-'));
+    execSync('git init -q --bare remote.git', { cwd: root });
+    execSync('git clone -q remote.git work', { cwd: root, stdio: 'pipe' });
+    dir = path.join(root, 'work');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    git('checkout -q -b main');
+    writeFileSync(path.join(dir, 'README.md'), '# fixture\n');
+    git('add -A');
+    git('commit -qm "chore: initial commit"');
+    git('push -q -u origin main');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('passes a clean, pushed release branch', async () => {
+    const result = await new GitChecker({ cwd: dir }).check();
+    expect(result.passed).toBe(true);
+    expect(result.status).toMatchObject({ isClean: true, currentBranch: 'main', upstream: 'origin/main', ahead: 0, behind: 0, tags: [] });
+    expect(result.status.lastCommit).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('explains each problem with the working copy', async () => {
+    git('checkout -q -b feature/x');
+    writeFileSync(path.join(dir, 'notes.txt'), 'draft\n');
+    try {
+      const result = await new GitChecker({ cwd: dir, requireTag: true }).check();
+      expect(result.passed).toBe(false);
+      expect(result.status.uncommittedFiles).toEqual(['notes.txt']);
+      expect(result.reasons).toEqual([
+        '1 uncommitted change(s) (notes.txt); commit or stash them so the package matches a commit',
+        'Releases are published from main, master, not feature/x; switch branches or add it to releaseBranches',
+        'feature/x has no upstream branch; push it with `git push -u origin feature/x`',
+        'HEAD is not tagged; tag the release commit, e.g. with `npmsafe version`, before publishing'
+      ]);
+
+      const allowed = await new GitChecker({ cwd: dir, releaseBranches: ['feature/*'] }).check();
+      expect(allowed.reasons.some(reason => reason.startsWith('Releases are published'))).toBe(false);
+    } finally {
+      rmSync(path.join(dir, 'notes.txt'));
+      git('checkout -q main');
+    }
+  });
+
+  it('counts unpushed commits and reads tags on HEAD', async () => {
+    git('commit -q --allow-empty -m "feat: unpushed"');
+    git('tag v1.0.0');
+
+    const result = await new GitChecker({ cwd: dir, requireTag: true }).check();
+    expect(result.status.ahead).toBe(1);
+    expect(result.status.tags).toEqual(['v1.0.0']);
+    expect(result.reasons).toEqual([
+      'main has 1 commit(s) not pushed to origin/main; push them so CI can check what you publish'
+    ]);
+  });
+});
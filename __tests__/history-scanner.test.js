@@ -0,0 +1,70 @@
+const { mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { HistoryScanner } = require('../dist/scanners/history-scanner');
+
+describe('HistoryScanner', () => {
+  let dir;
+  let firstCommit;
+
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8' }).trim();
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-history-'));
+    git('init -q');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    writeFileSync(path.join(dir, 'README.md'), '# fixture\n');
+    git('add -A');
+    git('commit -qm "chore: initial commit"');
+    firstCommit = git('rev-parse HEAD');
+
+    writeFileSync(path.join(dir, 'config.js'), 'module.exports = {\n  key: "AKIA1234567890ABCD12"\n};\n');
+    git('add -A');
+    git('commit -qm "feat: add config"');
+
+    rmSync(path.join(dir, 'config.js'));
+    git('add -A');
+    git('commit -qm "fix: remove leaked key"');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds secrets that were committed and later deleted', async () => {
+    const results = await new HistoryScanner().scan({ cwd: dir, entropy: 0 });
+    const finding = results.find(r => r.pattern.name === 'AWS Access Key');
+    expect(finding).toBeDefined();
+    expect(finding.file).toBe('config.js');
+    expect(finding.line).toBe(2);
+    expect(finding.commit.author).toBe('Dev Example');
+    expect(finding.commit.type).toBe('feat');
+  });
+
+  it('limits the scan to a ref range', async () => {
+    const results = await new HistoryScanner().scan({ cwd: dir, since: 'HEAD~1', entropy: 0 });
+    expect(results).toHaveLength(0);
+    const fromStart = await new HistoryScanner().scan({ cwd: dir, since: firstCommit, entropy: 0 });
+    expect(fromStart.length).toBeGreaterThan(0);
+  });
+
+  it('keeps added lines that start with "++ " in their file', async () => {
+    const other = mkdtempSync(path.join(tmpdir(), 'npmsafe-history-'));
+    const run = (command) => execSync(`git ${command}`, { cwd: other, encoding: 'utf-8' });
+    try {
+      run('init -q');
+      run('config user.email dev@example.com');
+      run('config user.name "Dev Example"');
+      writeFileSync(path.join(other, 'notes.txt'), '++ counter\nkey AKIA1234567890ABCD12\n');
+      run('add -A');
+      run('commit -qm "docs: add notes"');
+
+      const [finding] = await new HistoryScanner().scan({ cwd: other, entropy: 0 });
+      expect(finding).toEqual(expect.objectContaining({ file: 'notes.txt', line: 2 }));
+    } finally {
+      rmSync(other, { recursive: true, force: true });
+    }
+  });
+});
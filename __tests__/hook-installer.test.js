@@ -0,0 +1,76 @@
+const { mkdtempSync, writeFileSync, readFileSync, existsSync, statSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { HookInstaller } = require('../dist/hooks/hook-installer');
+
+describe('HookInstaller', () => {
+  let dir;
+  let hooksDir;
+
+  // A core.hooksPath passed through the environment would override the test repositories
+  beforeAll(() => {
+    for (const key of Object.keys(process.env).filter(name => name.startsWith('GIT_CONFIG_'))) {
+      delete process.env[key];
+    }
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-hooks-'));
+    execSync('git init -q', { cwd: dir });
+    hooksDir = path.join(dir, '.git', 'hooks');
+    rmSync(hooksDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates executable hooks and updates them in place', async () => {
+    const installer = new HookInstaller({ cwd: dir });
+    expect((await installer.install()).map(result => result.action)).toEqual(['created', 'created']);
+
+    const preCommit = readFileSync(path.join(hooksDir, 'pre-commit'), 'utf-8');
+    expect(preCommit).toMatch(/^#!\/bin\/sh\n/);
+    expect(preCommit).toContain('npx --no-install npmsafe scan --staged || exit $?');
+    expect(statSync(path.join(hooksDir, 'pre-commit')).mode & 0o111).toBeTruthy();
+
+    const reinstalled = await new HookInstaller({ cwd: dir, commands: { 'pre-commit': 'npmsafe scan --staged --verify' } }).install(['pre-commit']);
+    expect(reinstalled[0].action).toBe('updated');
+    const updated = readFileSync(path.join(hooksDir, 'pre-commit'), 'utf-8');
+    expect(updated.match(/>>> npmsafe >>>/g)).toHaveLength(1);
+    expect(updated).toContain('npmsafe scan --staged --verify');
+
+    expect(await installer.uninstall()).toEqual(['pre-commit', 'pre-push']);
+    expect(existsSync(path.join(hooksDir, 'pre-commit'))).toBe(false);
+  });
+
+  it('chains with existing shell and non-shell hooks', async () => {
+    execSync(`mkdir -p ${hooksDir}`);
+    const shellHook = '#!/bin/bash\nnpm run lint\nexit 0\n';
+    const nodeHook = '#!/usr/bin/env node\nconsole.log("push");\n';
+    writeFileSync(path.join(hooksDir, 'pre-commit'), shellHook);
+    writeFileSync(path.join(hooksDir, 'pre-push'), nodeHook);
+
+    const installer = new HookInstaller({ cwd: dir });
+    expect((await installer.install()).map(result => result.action)).toEqual(['chained', 'chained']);
+
+    // npmsafe runs before the existing hook's `exit 0`
+    const preCommit = readFileSync(path.join(hooksDir, 'pre-commit'), 'utf-8');
+    expect(preCommit.indexOf('npmsafe scan --staged')).toBeLessThan(preCommit.indexOf('npm run lint'));
+
+    const prePush = readFileSync(path.join(hooksDir, 'pre-push'), 'utf-8');
+    expect(prePush).toContain('exec "$(dirname "$0")/pre-push.pre-npmsafe" "$@"');
+    expect((await installer.status()).every(status => status.installed && status.chained)).toBe(true);
+
+    await installer.uninstall();
+    expect(readFileSync(path.join(hooksDir, 'pre-commit'), 'utf-8')).toBe(shellHook);
+    expect(readFileSync(path.join(hooksDir, 'pre-push'), 'utf-8')).toBe(nodeHook);
+  });
+
+  it('installs into core.hooksPath', async () => {
+    execSync('git config core.hooksPath .githooks', { cwd: dir });
+    const [result] = await new HookInstaller({ cwd: dir }).install(['pre-commit']);
+    expect(result.path).toBe(path.join(dir, '.githooks', 'pre-commit'));
+  });
+});
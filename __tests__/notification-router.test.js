@@ -0,0 +1,200 @@
+const { NotificationRouter, ChatChannel, WebhookChannel, chatSettings } = require('../dist/notifications/notification-router');
+
+function channel(name, result = true) {
+  return { name, send: jest.fn().mockResolvedValue(result) };
+}
+
+const event = {
+  type: 'security-alert',
+  severity: 'high',
+  package: 'demo',
+  version: '1.0.0',
+  branch: 'main',
+  title: 'Secret found',
+  message: 'A token was found in src/config.js'
+};
+
+describe('NotificationRouter', () => {
+  it('sends every event to every channel when there are no routes', async () => {
+    const slack = channel('slack');
+    const discord = channel('discord');
+    const router = new NotificationRouter({}, { channels: [slack, discord] });
+
+    const results = await router.publish(event);
+    expect(results).toEqual([{ channel: 'slack', status: 'sent' }, { channel: 'discord', status: 'sent' }]);
+    expect(slack.send).toHaveBeenCalledWith(expect.objectContaining({ package: 'demo' }), undefined);
+  });
+
+  it('routes by event type, minimum severity, package and branch', () => {
+    const router = new NotificationRouter({
+      routes: [
+        { events: ['publish'], channels: ['releases'] },
+        { events: ['security-alert'], severity: 'high', branches: ['main', 'release/*'], channels: ['security'] },
+        { packages: ['@scope/*'], channels: ['scoped'] }
+      ]
+    }, { channels: [channel('releases'), channel('security'), channel('scoped')] });
+
+    expect(router.route(event)).toEqual(['security']);
+    expect(router.route({ ...event, severity: 'medium' })).toEqual([]);
+    expect(router.route({ ...event, branch: 'release/2.x' })).toEqual(['security']);
+    expect(router.route({ ...event, branch: 'feature/x' })).toEqual([]);
+    expect(router.route({ ...event, type: 'publish', package: '@scope/lib' })).toEqual(['releases', 'scoped']);
+  });
+
+  it('renders the channel template for the event type', async () => {
+    const slack = channel('slack');
+    const router = new NotificationRouter({
+      templates: { slack: { 'security-alert': '[{{ severity }}] {{ package }}@{{ version }}: {{ title }}' } }
+    }, { channels: [slack] });
+
+    await router.publish(event);
+    expect(slack.send.mock.calls[0][1]).toBe('[high] demo@1.0.0: Secret found');
+  });
+
+  it('sends an identical event to a channel once per dedupe window', async () => {
+    let now = 0;
+    const slack = channel('slack');
+    const router = new NotificationRouter({ dedupeWindow: 60 }, { channels: [slack], now: () => now });
+
+    expect((await router.publish(event))[0].status).toBe('sent');
+    now = 30000;
+    expect((await router.publish(event))[0].status).toBe('duplicate');
+    expect((await router.publish({ ...event, message: 'Another token' }))[0].status).toBe('sent');
+    now = 61000;
+    expect((await router.publish(event))[0].status).toBe('sent');
+    expect(slack.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not remember failed sends as duplicates', async () => {
+    const slack = channel('slack', false);
+    const router = new NotificationRouter({}, { channels: [slack] });
+
+    expect((await router.publish(event))[0].status).toBe('failed');
+    expect((await router.publish(event))[0].status).toBe('failed');
+    expect(slack.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('rate-limits each channel', async () => {
+    let now = 0;
+    const slack = channel('slack');
+    const router = new NotificationRouter({ rateLimit: { max: 2, window: 10 } }, { channels: [slack], now: () => now });
+
+    const statuses = [];
+    for (let index = 0; index < 3; index++) {
+      statuses.push((await router.publish({ ...event, title: `Alert ${index}` }))[0].status);
+    }
+    expect(statuses).toEqual(['sent', 'sent', 'rate-limited']);
+
+    now = 11000;
+    expect((await router.publish({ ...event, title: 'Later' }))[0].status).toBe('sent');
+  });
+
+  it('holds back events below the allowed severity during quiet hours', async () => {
+    const slack = channel('slack');
+    const quietHours = { start: '22:00', end: '07:00', timezone: 'UTC', allow: 'critical' };
+    const at = time => () => Date.parse(`2024-05-01T${time}:00Z`);
+
+    const night = new NotificationRouter({ quietHours }, { channels: [slack], now: at('23:30') });
+    expect((await night.publish(event))[0].status).toBe('quiet-hours');
+    expect((await night.publish({ ...event, severity: 'critical' }))[0].status).toBe('sent');
+
+    const morning = new NotificationRouter({ quietHours }, { channels: [slack], now: at('07:00') });
+    expect((await morning.publish(event))[0].status).toBe('sent');
+  });
+
+  it('fills in the package it runs for', async () => {
+    const slack = channel('slack');
+    const router = new NotificationRouter({}, { channels: [slack], defaults: { package: 'demo', version: '2.0.0' } });
+
+    await router.publish({ type: 'test', severity: 'info', title: 'Tests', message: '3/3 passed' });
+    expect(slack.send.mock.calls[0][0]).toEqual(expect.objectContaining({ package: 'demo', version: '2.0.0' }));
+  });
+
+  it('reads chat settings from the config before the environment', () => {
+    const env = { SLACK_BOT_TOKEN: 'xoxb-env', SLACK_CHANNEL: '#env', DISCORD_WEBHOOK_URL: 'http://localhost/env' };
+    expect(chatSettings({ slackBotToken: 'xoxb-config', discordWebhookUrl: 'http://localhost/config' }, env)).toEqual({
+      slack: { webhookUrl: undefined, botToken: 'xoxb-config', channel: '#env', apiUrl: undefined },
+      discordWebhookUrl: 'http://localhost/config'
+    });
+  });
+
+  it('builds slack and discord channels from the legacy config keys', () => {
+    const router = NotificationRouter.fromConfig({ slackWebhookUrl: 'http://localhost/slack' }, { env: { DISCORD_WEBHOOK_URL: 'http://localhost/discord' } });
+    expect(router.getChannels()).toEqual(['slack', 'discord']);
+  });
+});
+
+describe('ChatChannel', () => {
+  it('renders security alerts and deployments with the integration methods', async () => {
+    const integration = {
+      sendMessage: jest.fn().mockResolvedValue(true),
+      sendPublishNotification: jest.fn().mockResolvedValue(true),
+      sendSecurityAlert: jest.fn().mockResolvedValue(true),
+      sendDeploymentStatus: jest.fn().mockResolvedValue(true)
+    };
+    const chat = new ChatChannel('slack', integration);
+
+    await chat.send({ ...event, data: { alertType: 'secret', details: { File: 'src/config.js' } } });
+    expect(integration.sendSecurityAlert).toHaveBeenCalledWith({
+      type: 'secret',
+      severity: 'high',
+      title: 'Secret found',
+      description: 'A token was found in src/config.js',
+      package: 'demo',
+      details: { File: 'src/config.js' }
+    }, undefined);
+
+    await chat.send({ ...event, type: 'deployment', data: { environment: 'production', status: 'success' } });
+    expect(integration.sendDeploymentStatus).toHaveBeenCalledWith(expect.objectContaining({ environment: 'production', status: 'success', package: 'demo' }), undefined);
+
+    await chat.send({ ...event, type: 'test' });
+    expect(integration.sendMessage).toHaveBeenCalledWith('*Secret found*\nA token was found in src/config.js', undefined);
+  });
+});
+
+describe('ChatChannel threads', () => {
+  it('posts events that share a thread as replies to one parent message', async () => {
+    const integration = {
+      sendMessage: jest.fn().mockResolvedValue(true),
+      sendPublishNotification: jest.fn().mockResolvedValue(true),
+      sendSecurityAlert: jest.fn().mockResolvedValue(true),
+      sendDeploymentStatus: jest.fn().mockResolvedValue(true),
+      startThread: jest.fn().mockResolvedValue('1700000000.000100')
+    };
+    const router = new NotificationRouter({}, { channels: [new ChatChannel('slack', integration)] });
+    const thread = '📦 Publishing demo@1.0.0';
+
+    await router.publish({ ...event, type: 'scan', severity: 'info', title: 'Secret scan passed', thread });
+    await router.publish({ ...event, type: 'publish', severity: 'info', title: 'Published', thread });
+    await router.publish({ ...event, type: 'publish', severity: 'high', title: 'Publish failed', thread: 'other' });
+
+    expect(integration.startThread.mock.calls).toEqual([[thread], ['other']]);
+    expect(integration.sendMessage.mock.calls[0][1]).toEqual({ threadTs: '1700000000.000100' });
+    expect(integration.sendPublishNotification).toHaveBeenCalledWith(expect.objectContaining({ name: 'demo' }), { threadTs: '1700000000.000100' });
+    // A failed publish is text, not the "Package Published" card
+    expect(integration.sendMessage.mock.calls[1][0]).toBe('*Publish failed*\nA token was found in src/config.js');
+  });
+});
+
+describe('WebhookChannel', () => {
+  it('sends each notification type as its own webhook event', async () => {
+    const manager = { sendEvent: jest.fn().mockResolvedValue([{ status: 'delivered' }]) };
+    const webhook = new WebhookChannel('webhook', manager);
+
+    for (const type of ['security-alert', 'test', 'monitor-alert', 'deployment', 'publish']) {
+      await webhook.send({ ...event, type });
+    }
+    expect(manager.sendEvent.mock.calls.map(([payload]) => payload.event))
+      .toEqual(['security-alert', 'test', 'monitor-alert', 'deployment', 'publish']);
+  });
+
+  it('tells callers when an event already reaches their webhook manager', () => {
+    const manager = { sendEvent: jest.fn() };
+    const config = { notifications: { channels: { hooks: { type: 'webhook' } }, routes: [{ events: ['publish'], channels: ['hooks'] }] } };
+    const router = NotificationRouter.fromConfig(config, { webhookManager: manager, env: {} });
+
+    expect(router.routesTo(manager, { ...event, type: 'publish' })).toBe(true);
+    expect(router.routesTo(manager, event)).toBe(false);
+    expect(NotificationRouter.fromConfig({}, { webhookManager: manager, env: {} }).routesTo(manager, { ...event, type: 'publish' })).toBe(false);
+  });
+});
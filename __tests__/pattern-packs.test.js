@@ -0,0 +1,69 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { PatternPackLoader, PatternPackStore } = require('../dist/scanners/pattern-packs');
+const { BUILTIN_PACKS } = require('../dist/scanners/packs/index');
+const { SecretScanner } = require('../dist/scanners/secret-scanner');
+const { ParallelSecretScanner } = require('../dist/scanners/parallel-scanner');
+
+const PACK = `
+version: 1
+name: internal
+patterns:
+  - name: Internal Service Token
+    regex: "itk_[a-z0-9]{24}"
+    severity: high
+    keywords: [itk_]
+    allow: ["^itk_0+$"]
+    examples:
+      match: ["token = itk_a1b2c3d4e5f6a1b2c3d4e5f6"]
+      noMatch: ["token = itk_000000000000000000000000"]
+`;
+
+describe('PatternPackLoader', () => {
+  it('ships built-in packs whose examples all pass', () => {
+    expect(Object.keys(BUILTIN_PACKS)).toEqual(['cloud', 'saas', 'ci']);
+    for (const pack of Object.values(BUILTIN_PACKS)) {
+      expect(PatternPackLoader.test(pack)).toEqual([]);
+    }
+  });
+
+  it('rejects invalid packs and reports failing examples', () => {
+    expect(() => PatternPackLoader.parse('version: 2\nname: x\npatterns: []')).toThrow(/version/);
+    expect(() => PatternPackLoader.parse('version: 1\nname: x\npatterns:\n  - {name: a, regex: "(", severity: high}'))
+      .toThrow(/invalid regex/);
+
+    const pack = PatternPackLoader.parse(PACK);
+    pack.patterns[0].examples.noMatch.push('itk_a1b2c3d4e5f6a1b2c3d4e5f6');
+    expect(PatternPackLoader.test(pack)).toEqual([
+      { pattern: 'Internal Service Token', example: 'itk_a1b2c3d4e5f6a1b2c3d4e5f6', expected: 'noMatch' }
+    ]);
+  });
+
+  it('round-trips packs through YAML and JSON', () => {
+    const pack = PatternPackLoader.parse(PACK);
+    expect(PatternPackLoader.parse(PatternPackLoader.serialize(pack, 'json'))).toEqual(pack);
+
+    const [compiled] = PatternPackLoader.compile(pack);
+    expect(PatternPackLoader.toDefinition(compiled)).toMatchObject({ regex: 'itk_[a-z0-9]{24}', allow: ['^itk_0+$'] });
+  });
+
+  it('applies keywords and allow-regexes in both scan engines', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'npmsafe-packs-'));
+    const store = new PatternPackStore(dir);
+    store.add(PatternPackLoader.parse(PACK));
+    expect(store.list().map(pack => pack.name)).toEqual(['internal']);
+
+    const scanner = new SecretScanner({ patterns: PatternPackLoader.resolve({ patternPacks: ['ci'] }, store) });
+    const content = 'a = itk_a1b2c3d4e5f6a1b2c3d4e5f6\nb = itk_000000000000000000000000\nglpat-AWTN3lg8zV5yPU8d0FZf';
+    const options = { entropy: 0, files: [{ file: 'app.env', content }] };
+
+    const names = results => results.map(result => `${result.pattern.name}@${result.line}`).sort();
+    const sequential = names(await scanner.scan(options));
+    expect(sequential).toEqual(['GitLab Personal Access Token@3', 'Internal Service Token@1']);
+    expect(names(await new ParallelSecretScanner(scanner, { workers: 1 }).collect(options))).toEqual(sequential);
+
+    expect(store.remove('internal')).toBe(true);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,68 @@
+const { formatPayload, renderTemplate, validateTemplate } = require('../dist/webhooks/payload-formats');
+const { WebhookManager } = require('../dist/webhooks/webhook');
+
+describe('webhook payload formats', () => {
+  const payload = {
+    event: 'publish',
+    package: '@acme/widget',
+    version: '2.1.0',
+    timestamp: '2024-05-01T10:00:00.000Z',
+    data: { tag: 'latest', size: 1200 }
+  };
+  const context = { deliveryId: 'whd_1', webhookId: 'wh_1' };
+
+  it('sends the native payload by default', () => {
+    const { body, headers } = formatPayload(payload, context);
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(headers['Content-Type']).toBe('application/json');
+  });
+
+  it('builds structured CloudEvents', () => {
+    const { body, headers } = formatPayload(payload, { ...context, format: 'cloudevents' });
+    expect(headers['Content-Type']).toMatch(/^application\/cloudevents\+json/);
+    expect(JSON.parse(body)).toEqual({
+      specversion: '1.0',
+      id: 'whd_1',
+      source: '/npmsafe/@acme/widget',
+      type: 'com.npmsafe.publish',
+      subject: '@acme/widget@2.1.0',
+      time: '2024-05-01T10:00:00.000Z',
+      npmpackage: '@acme/widget',
+      npmversion: '2.1.0',
+      datacontenttype: 'application/json',
+      data: { tag: 'latest', size: 1200 }
+    });
+  });
+
+  it('puts CloudEvents attributes in headers in binary mode', () => {
+    const { body, headers } = formatPayload(payload, { ...context, format: 'cloudevents-binary' });
+    expect(JSON.parse(body)).toEqual(payload.data);
+    expect(headers).toMatchObject({ 'ce-specversion': '1.0', 'ce-id': 'whd_1', 'ce-type': 'com.npmsafe.publish', 'Content-Type': 'application/json' });
+  });
+
+  it('renders templates, keeping the type of whole-value placeholders', () => {
+    const template = { text: '{{ package }}@{{ version }} is out on {{data.tag}}', bytes: '{{ data.size }}', missing: '{{ data.nope }}', ids: ['{{ deliveryId }}'] };
+    expect(renderTemplate(template, { ...payload, ...context })).toEqual({
+      text: '@acme/widget@2.1.0 is out on latest',
+      bytes: 1200,
+      missing: null,
+      ids: ['whd_1']
+    });
+  });
+
+  it('validates templates when a webhook is registered', () => {
+    expect(validateTemplate({ a: '{{ package }}', b: ['{{ data.x }}'] })).toEqual([]);
+    expect(validateTemplate('{{ package }}')).toEqual(['Template must be a JSON object or array']);
+    expect(validateTemplate({ a: '{{ user }}', b: ['{{ 1x }}'], c: '{{ package' })).toEqual([
+      expect.stringMatching(/^a: .*unknown field/),
+      expect.stringMatching(/^b\[0\]: .*not a field path/),
+      expect.stringMatching(/^c: unbalanced/)
+    ]);
+
+    const manager = new WebhookManager();
+    expect(() => manager.addWebhook({ url: 'https://example.com', format: 'template', template: { a: '{{ nope }}' } })).toThrow(/Invalid payload template/);
+    expect(() => manager.addWebhook({ url: 'https://example.com', format: 'template' })).toThrow(/needs a template/);
+    expect(() => manager.addWebhook({ url: 'https://example.com', format: 'xml' })).toThrow(/Unknown format/);
+    expect(manager.addWebhook({ url: 'https://example.com', format: 'cloudevents' }).format).toBe('cloudevents');
+  });
+});
@@ -0,0 +1,76 @@
+const { PolicyEngine } = require('../dist/policy/policy-engine');
+
+const check = (name, outcome, severity = 'high') => ({
+  name,
+  description: `${name} check`,
+  severity,
+  run: typeof outcome === 'function' ? outcome : async () => outcome
+});
+
+const context = (tag = 'latest', branch = 'main') => ({
+  cwd: process.cwd(),
+  config: { version: '1.0.0', config: {} },
+  packageJson: { name: 'policy-pkg', version: '1.2.3' },
+  tag,
+  branch,
+  registry: 'http://127.0.0.1:9/'
+});
+
+describe('PolicyEngine', () => {
+  const checks = () => [
+    check('git', { passed: true, reasons: [] }),
+    check('size-budget', { passed: false, reasons: ['too big'] }, 'medium'),
+    check('ci', { passed: false, reasons: ['CI failed'], severity: 'high' }, 'low'),
+    check('secrets', { passed: false, reasons: ['a secret'], severity: 'low' }),
+    check('licenses', async () => { throw new Error('offline'); })
+  ];
+
+  it('blocks at the severity threshold and warns below it', async () => {
+    const verdict = await new PolicyEngine({ checks: checks() }).evaluate(context());
+    const byName = Object.fromEntries(verdict.checks.map(entry => [entry.name, entry]));
+
+    expect(verdict.decision).toBe('block');
+    expect(byName.git.status).toBe('passed');
+    expect(byName['size-budget']).toMatchObject({ status: 'failed', severity: 'medium', blocking: false });
+    expect(byName.ci).toMatchObject({ status: 'failed', severity: 'high', blocking: true });
+    // Secrets block whatever their severity, licenses are off by default
+    expect(byName.secrets).toMatchObject({ action: 'block', blocking: true });
+    expect(byName.licenses.status).toBe('skipped');
+    expect(verdict.summary).toEqual({ passed: 1, warnings: 1, blocking: 2, skipped: 1 });
+    expect(verdict).toMatchObject({ schemaVersion: 1, package: 'policy-pkg', version: '1.2.3', tag: 'latest', branch: 'main' });
+  });
+
+  it('applies branch and tag overrides in order', async () => {
+    const engine = new PolicyEngine({
+      checks: checks(),
+      policy: {
+        checks: { secrets: 'warn', licenses: 'auto' },
+        overrides: [
+          { tag: 'next', blockAt: 'critical' },
+          { tag: 'latest', blockAt: 'medium' },
+          { branch: 'release/*', checks: { ci: { action: 'warn' } } }
+        ]
+      }
+    });
+
+    const next = await engine.evaluate(context('next'));
+    expect(next.decision).toBe('warn');
+    expect(next.checks.find(entry => entry.name === 'licenses')).toMatchObject({
+      status: 'error',
+      blocking: false,
+      reasons: ['licenses check could not run: offline']
+    });
+
+    const latest = await engine.evaluate(context('latest', 'release/1.x'));
+    expect(latest.blockAt).toBe('medium');
+    expect(latest.checks.filter(entry => entry.blocking).map(entry => entry.name)).toEqual(['size-budget', 'licenses']);
+    expect(engine.resolve({ tag: 'latest', branch: 'release/1.x' }).checks.ci.action).toBe('warn');
+  });
+
+  it('runs only the requested checks, including ones the policy turns off', async () => {
+    const verdict = await new PolicyEngine({ checks: checks() }).evaluate(context(), { only: ['licenses', 'git'] });
+    expect(verdict.checks.filter(entry => entry.status !== 'skipped').map(entry => `${entry.name}:${entry.action}`))
+      .toEqual(['git:auto', 'licenses:warn']);
+    expect(verdict.decision).toBe('warn');
+  });
+});
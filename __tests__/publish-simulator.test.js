@@ -0,0 +1,62 @@
+const { mkdtempSync, mkdirSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { PublishSimulator } = require('../dist/publishing/publish-simulator');
+
+describe('PublishSimulator', () => {
+  let dir;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-simulate-'));
+    mkdirSync(path.join(dir, 'lib'));
+    mkdirSync(path.join(dir, '__tests__'));
+    writeFileSync(path.join(dir, 'package.json'), JSON.stringify({
+      name: 'simulated-pkg',
+      version: '1.1.0',
+      main: 'dist/index.js',
+      exports: { '.': { import: './lib/index.mjs', require: './lib/index.js' } }
+    }));
+    writeFileSync(path.join(dir, 'lib/index.js'), 'module.exports = 1;\n'.repeat(200));
+    writeFileSync(path.join(dir, 'lib/index.js.map'), '{}');
+    writeFileSync(path.join(dir, '__tests__/index.test.js'), 'test("x", () => {});');
+    writeFileSync(path.join(dir, '.env'), 'TOKEN=abc');
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const registryClient = (versions, distTags) => ({
+    getPackument: async () => (versions ? { name: 'simulated-pkg', 'dist-tags': distTags, versions } : null)
+  });
+
+  it('lists the packed files and warns about what should not ship', async () => {
+    const simulation = await new PublishSimulator({ cwd: dir, registryClient: registryClient(null) })
+      .simulate({ skipVersionAnalysis: true });
+
+    expect(simulation.files).toEqual(expect.arrayContaining(['.env', 'lib/index.js', 'lib/index.js.map', 'package.json']));
+    expect(simulation.size).toBeGreaterThan(0);
+    expect(simulation.unpackedSize).toBeGreaterThan(simulation.files.length);
+    expect(simulation.errors).toEqual([]);
+    expect(simulation.warnings).toEqual(expect.arrayContaining([
+      'Test files would be published: __tests__/index.test.js',
+      'Environment files would be published: .env',
+      'Source maps would be published: lib/index.js.map',
+      '"main" points at dist/index.js, which is not in the package',
+      '"exports" points at ./lib/index.mjs, which is not in the package'
+    ]));
+    expect(simulation.warnings.some(warning => warning.includes('./lib/index.js,'))).toBe(false);
+  });
+
+  it('compares with the version behind the dist-tag', async () => {
+    const versions = {
+      '1.0.0': { name: 'simulated-pkg', version: '1.0.0', dist: { unpackedSize: 100 } },
+      '1.1.0': { name: 'simulated-pkg', version: '1.1.0', dist: { unpackedSize: 100 } }
+    };
+    const simulation = await new PublishSimulator({ cwd: dir, registryClient: registryClient(versions, { latest: '1.0.0' }) })
+      .simulate({ skipVersionAnalysis: true });
+
+    expect(simulation.previousVersion).toBe('1.0.0');
+    expect(simulation.previousUnpackedSize).toBe(100);
+    expect(simulation.errors).toEqual(['simulated-pkg@1.1.0 is already published; bump the version first']);
+    expect(simulation.warnings.some(warning => /^Unpacked size grew \d+% since 1\.0\.0/.test(warning))).toBe(true);
+  });
+});
@@ -0,0 +1,216 @@
+const http = require('http');
+const { existsSync, mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { Publisher, PublishError, GitTagPushStep } = require('../dist/publishing/publisher');
+
+// Just enough of the registry API for npm publish, view, dist-tag and deprecate. A package
+// published while `lag.count` is set 404s for that many reads, like a registry still propagating.
+function createRegistry(packages, lag) {
+  return http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const url = decodeURIComponent(req.url.split('?')[0]);
+      const send = (status, data) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      const distTag = url.match(/^\/-\/package\/(.+)\/dist-tags\/?(.*)$/);
+      if (distTag) {
+        const pkg = packages[distTag[1]];
+        if (!pkg) return send(404, { error: 'not found' });
+        if (req.method === 'PUT') pkg['dist-tags'][distTag[2]] = JSON.parse(body);
+        return send(200, pkg['dist-tags']);
+      }
+
+      const name = url.slice(1);
+      if (req.method === 'GET') {
+        if (lag.hidden[name] > 0) {
+          lag.hidden[name]--;
+          return send(404, { error: 'not found' });
+        }
+        return packages[name] ? send(200, packages[name]) : send(404, { error: 'not found' });
+      }
+
+      const doc = JSON.parse(body);
+      if (doc._attachments) {
+        const pkg = packages[name] || { _id: name, name, 'dist-tags': {}, versions: {} };
+        Object.assign(pkg.versions, doc.versions);
+        Object.assign(pkg['dist-tags'], doc['dist-tags']);
+        packages[name] = pkg;
+        lag.hidden[name] = lag.count;
+      } else {
+        packages[name] = { ...packages[name], ...doc };
+      }
+      send(201, { ok: true });
+    });
+  });
+}
+
+describe('Publisher', () => {
+  const packages = {};
+  const lag = { count: 0, hidden: {} };
+  let server;
+  let registry;
+  let dir;
+
+  const writePackage = (name, version, scripts) => {
+    writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name, version, main: 'index.js', scripts }));
+  };
+
+  beforeAll(async () => {
+    server = createRegistry(packages, lag);
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    registry = `http://127.0.0.1:${server.address().port}/`;
+
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-publish-test-'));
+    writeFileSync(path.join(dir, 'index.js'), 'module.exports = 1;\n');
+    writeFileSync(path.join(dir, '.npmrc'), `//127.0.0.1:${server.address().port}/:_authToken=test-token\n`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('publishes the package and records the packed integrity', async () => {
+    writePackage('npmsafe-fixture', '1.0.0');
+    const result = await new Publisher({ cwd: dir }).publish({ registry, tag: 'latest', access: 'public' });
+
+    expect(result).toMatchObject({ name: 'npmsafe-fixture', version: '1.0.0', tag: 'latest', tarball: 'npmsafe-fixture-1.0.0.tgz' });
+    expect(result.integrity).toMatch(/^sha512-/);
+    expect(result.response.id).toBe('npmsafe-fixture@1.0.0');
+    expect(result.registryDist.integrity).toBe(result.integrity);
+    expect(packages['npmsafe-fixture']['dist-tags']).toEqual({ latest: '1.0.0' });
+  }, 60000);
+
+  it('restores the previous dist-tag when a post-publish step fails', async () => {
+    writePackage('npmsafe-fixture', '1.1.0');
+    const webhookManager = { sendEvent: jest.fn().mockResolvedValue(undefined) };
+    const publisher = new Publisher({
+      cwd: dir,
+      webhookManager,
+      steps: [{ name: 'git-tag-push', run: () => Promise.reject(new Error('remote rejected')) }]
+    });
+
+    const error = await publisher.publish({ registry }).catch(err => err);
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error.result.rollback).toEqual({
+      failedStep: 'git-tag-push',
+      error: 'remote rejected',
+      restoredVersion: '1.0.0',
+      succeeded: true
+    });
+    expect(packages['npmsafe-fixture']['dist-tags'].latest).toBe('1.0.0');
+    expect(webhookManager.sendEvent).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'rollback',
+      package: 'npmsafe-fixture',
+      version: '1.1.0',
+      data: expect.objectContaining({ failedStep: 'git-tag-push', restoredVersion: '1.0.0' })
+    }));
+  }, 60000);
+
+  it('deprecates a first release when a plugin hook fails', async () => {
+    writePackage('npmsafe-fresh', '0.1.0');
+    const plugin = { name: 'notify', version: '1.0.0', hooks: { postPublish: () => Promise.reject(new Error('boom')) } };
+
+    const error = await new Publisher({ cwd: dir, plugins: [plugin] }).publish({ registry }).catch(err => err);
+    expect(error.result.rollback.failedStep).toBe('plugin:notify');
+    expect(error.result.rollback.deprecated).toMatch(/Rolled back by npmsafe/);
+    expect(packages['npmsafe-fresh'].versions['0.1.0'].deprecated).toBe(error.result.rollback.deprecated);
+  }, 60000);
+
+  it('waits for a lagging registry instead of rolling back', async () => {
+    writePackage('npmsafe-lagging', '1.0.0');
+    lag.count = 2;
+    try {
+      const result = await new Publisher({ cwd: dir, verifyRetryDelay: 10 }).publish({ registry });
+      expect(result.rollback).toBeUndefined();
+      expect(result.registryDist.integrity).toBe(result.integrity);
+
+      writePackage('npmsafe-lagging', '1.0.1');
+      lag.count = 5;
+      const unverified = await new Publisher({ cwd: dir, verifyAttempts: 2, verifyRetryDelay: 10 }).publish({ registry });
+      expect(unverified.rollback).toBeUndefined();
+      expect(unverified.registryDist).toBeUndefined();
+      expect(packages['npmsafe-lagging'].versions['1.0.1'].deprecated).toBeUndefined();
+    } finally {
+      lag.count = 0;
+    }
+  }, 60000);
+
+  it('runs the publish lifecycle scripts', async () => {
+    // The markers go outside the package, or they would change what gets published
+    const markers = mkdtempSync(path.join(tmpdir(), 'npmsafe-scripts-'));
+    const touch = file => `node -e "require('fs').writeFileSync(process.argv[1], '')" ${path.join(markers, file)}`;
+    writePackage('npmsafe-scripts', '1.0.0', { prepublishOnly: touch('prepublishOnly'), postpublish: touch('postpublish') });
+    try {
+      const result = await new Publisher({ cwd: dir }).publish({ registry });
+      expect(result.registryDist.integrity).toBe(result.integrity);
+      expect(existsSync(path.join(markers, 'prepublishOnly'))).toBe(true);
+      expect(existsSync(path.join(markers, 'postpublish'))).toBe(true);
+    } finally {
+      rmSync(markers, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('rolls back when a publish script changes the package after the pack', async () => {
+    const rewrite = `node -e "require('fs').writeFileSync('index.js', 'module.exports = 2;')"`;
+    writePackage('npmsafe-rewritten', '1.0.0', { prepublishOnly: rewrite });
+    try {
+      const error = await new Publisher({ cwd: dir }).publish({ registry }).catch(err => err);
+      expect(error).toBeInstanceOf(PublishError);
+      expect(error.result.rollback).toEqual(expect.objectContaining({ failedStep: 'verify-integrity', succeeded: true }));
+      expect(error.result.rollback.error).toMatch(/^npm published sha512-.+, expected the packed sha512-/);
+    } finally {
+      writeFileSync(path.join(dir, 'index.js'), 'module.exports = 1;\n');
+    }
+  }, 60000);
+
+  it('stops before publishing when a plugin blocks it', async () => {
+    const plugin = { name: 'gate', version: '1.0.0', hooks: { prePublish: async () => false } };
+    await expect(new Publisher({ cwd: dir, plugins: [plugin] }).publish({ registry })).rejects.toThrow('Plugin gate blocked the publish');
+  });
+});
+
+describe('GitTagPushStep', () => {
+  let dir;
+  let remote;
+
+  const git = (cwd, ...args) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-tag-push-'));
+    remote = mkdtempSync(path.join(tmpdir(), 'npmsafe-tag-remote-'));
+    git(remote, 'init', '-q', '--bare');
+    git(dir, 'init', '-q');
+    git(dir, 'config', 'user.email', 'dev@example.com');
+    git(dir, 'config', 'user.name', 'Dev Example');
+    writeFileSync(path.join(dir, 'index.js'), 'module.exports = 1;\n');
+    git(dir, 'add', '-A');
+    git(dir, 'commit', '-qm', 'feat: initial');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('pushes an annotated tag named by the tag template', async () => {
+    const step = new GitTagPushStep(remote, { cwd: dir, tagName: '{name}@{version}', tagMessage: 'Release {version}' });
+    await step.run({ name: 'demo', version: '1.2.0' });
+
+    expect(git(remote, 'cat-file', '-t', 'refs/tags/demo@1.2.0')).toBe('tag');
+    expect(git(remote, 'tag', '-l', '--format=%(contents:subject)', 'demo@1.2.0')).toBe('Release 1.2.0');
+  });
+
+  it('pushes the tag version --tag already made', async () => {
+    git(dir, 'tag', '-a', 'v1.2.0', '-m', 'from version --tag');
+    await new GitTagPushStep(remote, { cwd: dir }).run({ name: 'demo', version: '1.2.0' });
+
+    expect(git(remote, 'tag', '-l', '--format=%(contents:subject)', 'v1.2.0')).toBe('from version --tag');
+  });
+});
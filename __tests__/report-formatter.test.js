@@ -0,0 +1,32 @@
+const { ScanReportFormatter } = require('../dist/scanners/report-formatter');
+
+describe('ScanReportFormatter', () => {
+  const pattern = { name: 'AWS Access Key', pattern: /AKIA[0-9A-Z]{12}/, description: 'AWS Access Key ID', severity: 'critical' };
+  const results = [
+    { file: 'src/config.js', line: 3, column: 14, pattern, value: 'AKIA1234567890AB', entropy: 3.7, context: '' }
+  ];
+
+  it('produces SARIF 2.1.0 with rules and regions', () => {
+    const sarif = JSON.parse(new ScanReportFormatter([pattern]).format(results, 'sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.rules[0].id).toBe('npmsafe/aws-access-key');
+    expect(run.results[0].level).toBe('error');
+    expect(run.results[0].locations[0].physicalLocation.region).toEqual({ startLine: 3, startColumn: 14, endColumn: 30 });
+  });
+
+  it('produces JSON and JUnit without the raw secret', () => {
+    const formatter = new ScanReportFormatter();
+    const json = formatter.format(results, 'json');
+    expect(JSON.parse(json).summary.critical).toBe(1);
+    expect(json).not.toContain('AKIA1234567890AB');
+
+    const junit = formatter.format(results, 'junit');
+    expect(junit).toContain('failures="1"');
+    expect(junit).not.toContain('AKIA1234567890AB');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => new ScanReportFormatter().format(results, 'xml')).toThrow('Unknown report format');
+  });
+});
@@ -0,0 +1,49 @@
+const { mkdtempSync, readFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { SecretBaseline } = require('../dist/scanners/secret-baseline');
+const { SecretScanner } = require('../dist/scanners/secret-scanner');
+
+describe('SecretBaseline', () => {
+  let dir;
+  const pattern = { name: 'API Key', pattern: /AKIA[0-9A-Z]{16}/, severity: 'high' };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-baseline-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes fingerprints without plaintext secrets', () => {
+    const file = path.join(dir, '.npmsafe-baseline.json');
+    const baseline = new SecretBaseline(file);
+    baseline.write([{ file: 'a.js', line: 1, column: 1, pattern, value: 'AKIA1234567890ABCD12', context: '' }]);
+    const written = readFileSync(file, 'utf-8');
+    expect(written).not.toContain('AKIA1234567890ABCD12');
+    expect(JSON.parse(written).findings).toHaveLength(1);
+  });
+
+  it('only reports findings that are not in the baseline', async () => {
+    const file = path.join(dir, '.npmsafe-baseline.json');
+    const scanner = new SecretScanner({ patterns: [pattern] });
+    const known = { file: 'a.js', content: 'const a = "AKIA1234567890ABCD12";' };
+    new SecretBaseline(file).write(await scanner.scan({ entropy: 0, files: [known] }));
+
+    const results = await scanner.scan({
+      entropy: 0,
+      baseline: file,
+      files: [
+        { file: 'a.js', content: '\n\nconst a = "AKIA1234567890ABCD12";' },
+        { file: 'b.js', content: 'const b = "AKIA1234567890ABCD34";' }
+      ]
+    });
+    expect([...new Set(results.map(r => r.file))]).toEqual(['b.js']);
+  });
+
+  it('matches tarball paths against working tree paths', () => {
+    const result = { file: 'lib/a.js', line: 1, column: 1, pattern, value: 'x', context: '' };
+    expect(SecretBaseline.fingerprint({ ...result, file: 'package/lib/a.js' })).toBe(SecretBaseline.fingerprint(result));
+  });
+});
@@ -37,4 +37,27 @@ describe('SecretScanner', () => {
     // Should not find any matches for the allowed secret
     expect(results.filter(r => r.value === 'AKIA1234567890ABCD12').length).toBe(0);
   });
-}); 
\ No newline at end of file
+
+  it('honors inline suppression comments', async () => {
+    const scanner = new SecretScanner({
+      patterns: [
+        { name: 'API Key', pattern: /AKIA[0-9A-Z]{16}/, severity: 'high' }
+      ]
+    });
+    const results = await scanner.scan({
+      entropy: 0,
+      files: [{
+        file: 'test.js',
+        content: [
+          '// npmsafe-ignore-next-line api-key',
+          'const a = "AKIA1234567890ABCD12";',
+          '// npmsafe-ignore-next-line github-token',
+          'const b = "AKIA1234567890ABCD34";',
+          'const c = "AKIA1234567890ABCD56"; // npmsafe-ignore'
+        ].join('\n')
+      }]
+    });
+    const apiKeys = results.filter(r => r.pattern.name === 'API Key');
+    expect(apiKeys.map(r => r.line)).toEqual([4]);
+  });
+});
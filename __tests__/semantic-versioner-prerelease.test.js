@@ -0,0 +1,38 @@
+const { SemanticVersioner } = require('../dist/versioning/semantic-versioner');
+
+describe('SemanticVersioner prereleases', () => {
+  const versioner = new SemanticVersioner();
+
+  it('starts and continues a prerelease channel', () => {
+    expect(versioner.calculateNewVersion('1.2.3', 'minor', { preid: 'beta' })).toBe('1.3.0-beta.0');
+    expect(versioner.calculateNewVersion('1.3.0-beta.0', 'patch', { preid: 'beta' })).toBe('1.3.0-beta.1');
+    expect(versioner.calculateNewVersion('1.3.0-beta.1', 'minor', { preid: 'rc' })).toBe('1.3.0-rc.0');
+    expect(versioner.calculateNewVersion('1.2.4-beta.2', 'minor', { preid: 'beta' })).toBe('1.3.0-beta.0');
+    expect(versioner.calculateNewVersion('1.2.3', 'none', { preid: 'beta' })).toBe('1.2.4-beta.0');
+  });
+
+  it('graduates a prerelease to its stable version', () => {
+    expect(versioner.calculateNewVersion('2.0.0-rc.3', 'patch', { graduate: true })).toBe('2.0.0');
+    expect(() => versioner.calculateNewVersion('2.0.0', 'patch', { graduate: true })).toThrow(/not a prerelease/);
+  });
+
+  it('keeps breaking changes to a minor bump before 1.0.0', () => {
+    expect(versioner.calculateNewVersion('0.4.2', 'major')).toBe('0.5.0');
+    expect(versioner.calculateNewVersion('1.4.2', 'major')).toBe('2.0.0');
+    expect(versioner.calculateNewVersion('1.4.2+build.5', 'patch')).toBe('1.4.3');
+  });
+
+  it('compares versions by semver precedence', () => {
+    expect(versioner.compareVersions('1.0.0-rc.1', '1.0.0')).toBeLessThan(0);
+    expect(versioner.compareVersions('1.0.0-beta.2', '1.0.0-beta.10')).toBeLessThan(0);
+    expect(versioner.validateVersion('1.0.0-rc.1+build')).toBe(true);
+    expect(versioner.validateVersion('1.0')).toBe(false);
+  });
+
+  it('maps channels to dist-tags', () => {
+    expect(SemanticVersioner.distTag('1.0.0')).toBeUndefined();
+    expect(SemanticVersioner.distTag('1.0.0-beta.1')).toBe('next');
+    expect(SemanticVersioner.distTag('1.0.0-canary.4')).toBe('canary');
+    expect(SemanticVersioner.distTag('1.0.0-rc.1', { rc: 'rc' })).toBe('rc');
+  });
+});
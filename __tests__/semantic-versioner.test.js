@@ -1,3 +1,7 @@
+const { mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
 const { SemanticVersioner } = require('../dist/versioning/semantic-versioner');
 
 describe('SemanticVersioner', () => {
@@ -16,4 +20,60 @@ describe('SemanticVersioner', () => {
     const changelog = await versioner.generateChangelog('1.2.3', '1.2.0');
     expect(typeof changelog).toBe('string');
   });
-}); 
\ No newline at end of file
+});
+
+describe('SemanticVersioner commit range', () => {
+  let dir;
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+  const commit = (message, date) => {
+    writeFileSync(path.join(dir, 'log.txt'), `${message}\n`, { flag: 'a' });
+    git('add -A');
+    execSync(`git commit -qm "${message}"`, {
+      cwd: dir,
+      stdio: 'pipe',
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+    });
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-range-'));
+    git('init -q');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'ranged', version: '1.1.0' }));
+    commit('feat: first feature', '2024-01-01T12:00:00Z');
+    git('tag ranged@1.0.0');
+    commit('feat: second feature', '2024-02-01T12:00:00Z');
+    git('tag v9.9.9');
+    git('tag ranged@1.1.0');
+    commit('fix: a fix', '2024-03-01T12:00:00Z');
+    commit('docs: notes', '2024-04-01T12:00:00Z');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds the last release tag in the configured format', () => {
+    expect(new SemanticVersioner({ cwd: dir }).getLastReleaseTag()).toBe('v9.9.9');
+    expect(new SemanticVersioner({ cwd: dir, tagFormat: '{name}@{version}' }).getLastReleaseTag()).toBe('ranged@1.1.0');
+  });
+
+  it('only analyzes commits after the last release', async () => {
+    const versioner = new SemanticVersioner({ cwd: dir, tagFormat: '{name}@{version}' });
+    const analysis = await versioner.analyzeVersion('1.1.0');
+    expect(analysis.recommendedBump).toBe('patch');
+    expect(analysis.newVersion).toBe('1.1.1');
+
+    const entry = await versioner.buildChangelogEntry('1.1.1');
+    expect(entry.commits.map(commit => commit.message)).toEqual(['docs: notes', 'fix: a fix']);
+  });
+
+  it('takes --since as a ref or a date', async () => {
+    const versioner = new SemanticVersioner({ cwd: dir, tagFormat: '{name}@{version}' });
+    expect((await versioner.buildChangelogEntry('x', 'ranged@1.0.0')).commits).toHaveLength(3);
+    expect((await versioner.buildChangelogEntry('x', '2024-02-15')).commits).toHaveLength(2);
+    expect((await versioner.buildChangelogEntry('x', '2023-01-01')).commits).toHaveLength(4);
+    expect(() => versioner.resolveRange('not a ref or date')).toThrow(/neither a git ref nor a date/);
+  });
+});
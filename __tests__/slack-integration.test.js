@@ -1,3 +1,4 @@
+const http = require('http');
 const { SlackIntegration } = require('../dist/integrations/slack');
 
 describe('SlackIntegration', () => {
@@ -9,4 +10,114 @@ describe('SlackIntegration', () => {
     expect(result).toBe(true);
     expect(slack.sendMessage).toHaveBeenCalledWith({ text: 'Hello' });
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('SlackIntegration Web API mode', () => {
+  let server;
+  let apiUrl;
+  let calls;
+  let replies;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const method = req.url.replace('/api/', '');
+        const params = req.headers['content-type'].startsWith('application/json')
+          ? JSON.parse(body)
+          : Object.fromEntries(new URLSearchParams(body));
+        calls.push({ method, params, authorization: req.headers.authorization });
+        const reply = (replies[method] || []).shift() || { ok: true, ts: `1700000000.00000${calls.length}` };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(reply));
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${server.address().port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    calls = [];
+    replies = {};
+  });
+
+  const createSlack = () => new SlackIntegration({ botToken: 'xoxb-test', apiUrl, channel: 'C123' });
+
+  it('creates real threads from the parent message ts', async () => {
+    const slack = createSlack();
+    const threadTs = await slack.createThread('Publishing demo@1.0.0', 'Secret scan passed');
+
+    expect(threadTs).toBe('1700000000.000001');
+    expect(calls.map(call => call.method)).toEqual(['chat.postMessage', 'chat.postMessage']);
+    expect(calls[0].authorization).toBe('Bearer xoxb-test');
+    expect(calls[0].params).toEqual(expect.objectContaining({ channel: 'C123', text: 'Publishing demo@1.0.0' }));
+    expect(calls[0].params.thread_ts).toBeUndefined();
+    expect(calls[1].params.thread_ts).toBe(threadTs);
+  });
+
+  it('schedules messages with chat.scheduleMessage', async () => {
+    replies['chat.scheduleMessage'] = [{ ok: true, scheduled_message_id: 'Q123' }];
+    const slack = createSlack();
+    const at = new Date(Date.now() + 3600 * 1000);
+
+    await expect(slack.scheduleMessage('Release window opens', at)).resolves.toBe('Q123');
+    expect(calls[0]).toEqual(expect.objectContaining({ method: 'chat.scheduleMessage' }));
+    expect(calls[0].params.post_at).toBe(Math.floor(at.getTime() / 1000));
+  });
+
+  it('lists people across users.list pages', async () => {
+    replies['users.list'] = [
+      {
+        ok: true,
+        members: [
+          { id: 'U1', name: 'ada', real_name: 'Ada', is_admin: true, profile: { email: 'ada@example.com' } },
+          { id: 'B1', name: 'bot', is_bot: true }
+        ],
+        response_metadata: { next_cursor: 'page2' }
+      },
+      {
+        ok: true,
+        members: [
+          { id: 'U2', name: 'grace', profile: { real_name: 'Grace' } },
+          { id: 'U3', name: 'guest', is_restricted: true },
+          { id: 'U4', name: 'gone', deleted: true }
+        ]
+      }
+    ];
+
+    const members = await createSlack().getTeamMembers();
+    expect(members).toEqual([
+      { id: 'U1', name: 'Ada', email: 'ada@example.com', role: 'admin' },
+      { id: 'U2', name: 'Grace', email: '', role: 'member' },
+      { id: 'U3', name: 'guest', email: '', role: 'guest' }
+    ]);
+    expect(calls[1].params).toEqual({ limit: '200', cursor: 'page2' });
+  });
+
+  it('sends direct messages through conversations.open', async () => {
+    replies['conversations.open'] = [{ ok: true, channel: { id: 'D1' } }, { ok: true, channel: { id: 'D2' } }];
+    const sent = await createSlack().sendToMembers(['U1', 'U2'], 'Review needed');
+
+    expect(sent).toBe(true);
+    expect(calls.map(call => `${call.method}:${call.params.users || call.params.channel}`)).toEqual([
+      'conversations.open:U1', 'chat.postMessage:D1', 'conversations.open:U2', 'chat.postMessage:D2'
+    ]);
+  });
+
+  it('reports Web API errors', async () => {
+    replies['chat.postMessage'] = [{ ok: false, error: 'channel_not_found' }];
+    await expect(createSlack().postMessage({ text: 'hi' })).rejects.toThrow('Slack chat.postMessage failed: channel_not_found');
+  });
+
+  it('needs a bot token for threads, scheduling and members', async () => {
+    const slack = new SlackIntegration({ webhookUrl: 'http://127.0.0.1:9/hook' });
+    expect(slack.supportsThreads()).toBe(false);
+    await expect(slack.getTeamMembers()).rejects.toThrow('needs a Slack bot token');
+    await expect(slack.scheduleMessage('later', new Date(Date.now() + 60000))).resolves.toBeNull();
+  });
+});
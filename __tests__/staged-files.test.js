@@ -0,0 +1,52 @@
+const { mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { StagedFiles } = require('../dist/scanners/staged-files');
+const { SecretScanner } = require('../dist/scanners/secret-scanner');
+
+describe('StagedFiles', () => {
+  let dir;
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8' });
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-staged-'));
+    git('init -q');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    writeFileSync(path.join(dir, 'README.md'), '# fixture\n');
+    git('add -A');
+    git('commit -qm "chore: initial commit"');
+
+    // The staged copy has the key, the working tree copy has already been cleaned up
+    writeFileSync(path.join(dir, 'config.js'), 'module.exports = {\n  key: "AKIA1234567890ABCD12"\n};\n');
+    git('add config.js');
+    writeFileSync(path.join(dir, 'config.js'), 'module.exports = {\n  key: process.env.KEY\n};\n');
+
+    writeFileSync(path.join(dir, 'notes.txt'), 'AKIA1234567890ABCD12\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads staged blobs instead of the working tree', async () => {
+    const files = await new StagedFiles({ cwd: dir }).read();
+    expect(files.map(file => file.file)).toEqual(['config.js']);
+    expect(files[0].content).toContain('AKIA1234567890ABCD12');
+
+    const results = await new SecretScanner().scan({ files, entropy: 0 });
+    expect(results.map(result => `${result.file}:${result.line}`)).toEqual(['config.js:2']);
+  });
+
+  it('scans nothing, not the working tree, when nothing is staged', async () => {
+    const results = await new SecretScanner().scan({ files: [], entropy: 0 });
+    expect(results).toHaveLength(0);
+  });
+
+  it('respects the allow list', async () => {
+    const files = await new StagedFiles({ cwd: dir }).read();
+    const results = await new SecretScanner({ allowedSecrets: ['AKIA1234567890AB'] }).scan({ files, entropy: 0 });
+    expect(results).toHaveLength(0);
+  });
+});
@@ -0,0 +1,103 @@
+const http = require('http');
+const { RegistryClient } = require('../dist/registry/registry-client');
+const { UnpublishAnalyzer } = require('../dist/registry/unpublish-analyzer');
+
+const NOW = new Date('2024-06-10T12:00:00Z');
+
+const packages = {
+  'fixture-pkg': {
+    name: 'fixture-pkg',
+    'dist-tags': { latest: '1.2.0', next: '2.0.0-beta.1' },
+    versions: {
+      '1.0.0': { name: 'fixture-pkg', version: '1.0.0', dist: {} },
+      '1.1.0': { name: 'fixture-pkg', version: '1.1.0', dist: {}, deprecated: 'broken' },
+      '1.2.0': { name: 'fixture-pkg', version: '1.2.0', dist: {} },
+      '2.0.0-beta.1': { name: 'fixture-pkg', version: '2.0.0-beta.1', dist: {} }
+    },
+    time: {
+      created: '2024-01-01T00:00:00Z',
+      '1.2.0': '2024-06-01T00:00:00Z',
+      '2.0.0-beta.1': '2024-06-10T00:00:00Z'
+    },
+    maintainers: [{ name: 'one' }, { name: 'two' }]
+  }
+};
+
+// Registry document and download count endpoints on one server
+function createServer() {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const send = (status, data) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (url.pathname === '/downloads/point/last-week/fixture-pkg') {
+      return send(200, { downloads: 4200, package: 'fixture-pkg' });
+    }
+    if (url.pathname === '/versions/fixture-pkg/last-week') {
+      return send(200, { downloads: { '1.2.0': 250, '2.0.0-beta.1': 12 } });
+    }
+    const pkg = packages[decodeURIComponent(url.pathname.slice(1))];
+    return pkg ? send(200, pkg) : send(404, { error: 'not found' });
+  });
+}
+
+describe('UnpublishAnalyzer', () => {
+  let server;
+  let analyzer;
+
+  beforeAll(async () => {
+    server = createServer();
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${server.address().port}/`;
+    analyzer = new UnpublishAnalyzer({ client: new RegistryClient({ registry: base, downloadsUrl: base }), now: NOW });
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  it('allows a fresh version without dependents', async () => {
+    const impact = await analyzer.analyze('fixture-pkg', '2.0.0-beta.1');
+
+    expect(impact.downloads).toBe(12);
+    expect(impact.allowed).toBe(true);
+    expect(impact.riskLevel).toBe('low');
+    expect(impact.distTags).toEqual(['next']);
+    expect(impact.alternatives.map(alternative => alternative.command)).toEqual([
+      "npm deprecate 'fixture-pkg@2.0.0-beta.1' '<reason>'",
+      "npm dist-tag add 'fixture-pkg@1.2.0' 'next'"
+    ]);
+  });
+
+  it('applies the package download and maintainer limits after 72 hours', async () => {
+    const impact = await analyzer.analyze('fixture-pkg', '1.2.0');
+
+    expect(impact.downloads).toBe(250);
+    expect(impact.allowed).toBe(false);
+    expect(impact.policyViolations).toEqual([
+      'Published over 72 hours ago and fixture-pkg had 4200 downloads last week (limit 299)',
+      'Published over 72 hours ago and has 2 maintainers'
+    ]);
+    expect(impact.riskLevel).toBe('medium');
+    expect(impact.alternatives[1].command).toBe("npm dist-tag add 'fixture-pkg@1.0.0' 'latest'");
+  });
+
+  it('analyzes the whole package and warns about dependents it cannot count', async () => {
+    const impact = await analyzer.analyze('fixture-pkg');
+
+    expect(impact.downloads).toBe(4200);
+    expect(impact.distTags).toEqual(['latest', 'next']);
+    expect(impact.policyViolations).toEqual([
+      'Published over 72 hours ago and fixture-pkg had 4200 downloads last week (limit 299)',
+      'Published over 72 hours ago and has 2 maintainers'
+    ]);
+    expect(impact.riskLevel).toBe('high');
+    expect(impact.warnings[0]).toMatch(/removes every version/);
+    expect(impact.warnings[1]).toBe('The registry may refuse the unpublish if other packages depend on fixture-pkg');
+  });
+
+  it('rejects versions that were never published', async () => {
+    await expect(analyzer.analyze('fixture-pkg', '9.9.9')).rejects.toThrow('fixture-pkg@9.9.9 is not published');
+    await expect(analyzer.analyze('missing-pkg')).rejects.toThrow('missing-pkg is not published');
+  });
+});
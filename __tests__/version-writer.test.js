@@ -0,0 +1,74 @@
+const { mkdtempSync, writeFileSync, readFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const path = require('path');
+const { execSync } = require('child_process');
+const { VersionWriter } = require('../dist/versioning/version-writer');
+const { setJsonString } = require('../dist/utils/json-edit');
+
+describe('setJsonString', () => {
+  it('replaces only the value at the key path', () => {
+    const text = '{\n    "name": "x",\n    "dependencies": { "version": "1.0.0" },\n    "version": "1.0.0"\r\n}\n';
+    expect(setJsonString(text, ['version'], '2.0.0'))
+      .toBe('{\n    "name": "x",\n    "dependencies": { "version": "1.0.0" },\n    "version": "2.0.0"\r\n}\n');
+    expect(setJsonString('{"packages":{"":{"version":"1"}},"a":[{"b":"\\"q"}]}', ['packages', '', 'version'], '2'))
+      .toBe('{"packages":{"":{"version":"2"}},"a":[{"b":"\\"q"}]}');
+    expect(setJsonString('{"version": 1}', ['version'], '2')).toBeNull();
+  });
+});
+
+describe('VersionWriter', () => {
+  let dir;
+  const git = (command) => execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+  const read = (file) => readFileSync(path.join(dir, file), 'utf-8');
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-version-'));
+    git('init -q');
+    git('config user.email dev@example.com');
+    git('config user.name "Dev Example"');
+    writeFileSync(path.join(dir, 'package.json'), '{\n\t"name": "bump-me",\n\t"version": "1.0.0",\n\t"scripts": {}\n}\n');
+    writeFileSync(path.join(dir, 'package-lock.json'), JSON.stringify({
+      name: 'bump-me', version: '1.0.0', lockfileVersion: 3, packages: { '': { name: 'bump-me', version: '1.0.0' } }
+    }, null, 2));
+    writeFileSync(path.join(dir, 'version.ts'), "export const VERSION = '1.0.0';\n");
+    git('add -A');
+    git('commit -qm "chore: initial commit"');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the version, commits and creates an annotated tag', async () => {
+    const writer = new VersionWriter({ cwd: dir, versionFile: 'version.ts', tagMessage: '{name} {version}' });
+    const result = await writer.apply('1.1.0', { tag: true });
+
+    expect(result.files).toEqual(['package.json', 'package-lock.json', 'version.ts']);
+    expect(read('package.json')).toBe('{\n\t"name": "bump-me",\n\t"version": "1.1.0",\n\t"scripts": {}\n}\n');
+    const lock = JSON.parse(read('package-lock.json'));
+    expect([lock.version, lock.packages[''].version]).toEqual(['1.1.0', '1.1.0']);
+    expect(read('version.ts')).toBe("export const VERSION = '1.1.0';\n");
+
+    expect(git('log -1 --format=%s').trim()).toBe('chore(release): 1.1.0');
+    expect(git('cat-file -t v1.1.0').trim()).toBe('tag');
+    expect(git("tag -l '--format=%(contents:subject)' v1.1.0").trim()).toBe('bump-me 1.1.0');
+    expect(git('status --porcelain')).toBe('');
+  });
+
+  it('refuses to commit from a dirty tree or reuse a tag', async () => {
+    writeFileSync(path.join(dir, 'version.ts'), "export const VERSION = 'edited';\n");
+    await expect(new VersionWriter({ cwd: dir }).apply('1.1.0', { commit: true }))
+      .rejects.toThrow('Working tree has uncommitted changes (version.ts)');
+    expect(read('package.json')).toContain('"version": "1.0.0"');
+
+    git('checkout -- version.ts');
+    git('tag v2.0.0');
+    await expect(new VersionWriter({ cwd: dir }).apply('2.0.0', { tag: true })).rejects.toThrow('Tag v2.0.0 already exists');
+  });
+
+  it('reports without writing on a dry run', async () => {
+    const result = await new VersionWriter({ cwd: dir }).apply('1.0.1', { commit: true, dryRun: true });
+    expect(result).toMatchObject({ previousVersion: '1.0.0', version: '1.0.1', commit: 'chore(release): 1.0.1', dryRun: true });
+    expect(read('package.json')).toContain('"version": "1.0.0"');
+  });
+});
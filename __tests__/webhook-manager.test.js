@@ -1,8 +1,12 @@
-const { WebhookManager } = require('../dist/webhooks/webhook');
+const http = require('http');
+const { existsSync, mkdirSync, mkdtempSync, rmSync, readFileSync, writeFileSync } = require('fs');
+const { homedir, tmpdir } = require('os');
+const path = require('path');
+const { WebhookManager, verifySignature, defaultWebhookStore } = require('../dist/webhooks/webhook');
 
 describe('WebhookManager', () => {
   it('sends webhook events', async () => {
-    const manager = new WebhookManager(['http://example.com']);
+    const manager = new WebhookManager(['http://example.com'], { inlineRetryWindow: 0 });
     await expect(manager.sendEvent({
       event: 'scan',
       package: 'test-package',
@@ -11,4 +15,186 @@ describe('WebhookManager', () => {
       data: { test: 'data' }
     })).resolves.not.toThrow();
   });
-}); 
\ No newline at end of file
+});
+
+describe('WebhookManager subscriptions', () => {
+  let server;
+  let url;
+  let requests;
+  let statuses;
+  let dir;
+  let clock;
+
+  const event = (name = 'publish') => ({ event: name, package: 'pkg', version: '1.0.0', timestamp: '2024-01-01T00:00:00.000Z', data: {} });
+  const createManager = (options = {}) => new WebhookManager([], {
+    storePath: path.join(dir, 'webhooks.json'),
+    retryDelay: 1000,
+    maxAttempts: 3,
+    now: () => new Date(clock),
+    ...options
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body });
+        res.statusCode = statuses.length > 0 ? statuses.shift() : 200;
+        res.end();
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    statuses = [];
+    clock = Date.now();
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-webhooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('signs deliveries and only sends subscribed events', async () => {
+    const manager = createManager();
+    const webhook = manager.addWebhook({ url, events: ['publish'] });
+
+    await manager.sendEvent(event('scan'));
+    const [delivery] = await manager.sendEvent(event('publish'));
+
+    expect(requests).toHaveLength(1);
+    const { headers, body } = requests[0];
+    expect(JSON.parse(body).event).toBe('publish');
+    expect(headers['x-npmsafe-event']).toBe('publish');
+    expect(headers['x-npmsafe-delivery']).toBe(delivery.id);
+    expect(verifySignature(webhook.secret, headers['x-npmsafe-signature'], headers['x-npmsafe-timestamp'], body, 300, clock)).toBe(true);
+    expect(verifySignature('wrong', headers['x-npmsafe-signature'], headers['x-npmsafe-timestamp'], body, 300, clock)).toBe(false);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+  });
+
+  it('rejects unknown events and bad URLs', () => {
+    const manager = createManager();
+    expect(() => manager.addWebhook({ url, events: ['deploy'] })).toThrow(/Unknown event/);
+    expect(() => manager.addWebhook({ url: 'ftp://example.com' })).toThrow(/http or https/);
+  });
+
+  it('retries failures with exponential backoff', async () => {
+    const manager = createManager({ inlineRetryWindow: 0 });
+    manager.addWebhook({ url });
+    statuses = [500, 503, 500];
+
+    const [delivery] = await manager.sendEvent(event());
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, error: 'HTTP 500' });
+    expect(Date.parse(delivery.nextAttemptAt) - clock).toBe(1000);
+
+    expect(await manager.processRetries()).toHaveLength(0);
+    clock += 1000;
+    await manager.processRetries();
+    expect(Date.parse(manager.getDelivery(delivery.id).nextAttemptAt) - clock).toBe(2000);
+
+    clock += 2000;
+    await manager.processRetries();
+    expect(manager.getDelivery(delivery.id)).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('retries within sendEvent while the backoff is short', async () => {
+    const manager = createManager({ now: () => new Date(), retryDelay: 20, inlineRetryWindow: 100 });
+    manager.addWebhook({ url });
+    statuses = [500, 503];
+
+    const [delivery] = await manager.sendEvent(event());
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('shares webhooks and pending deliveries with other processes using the same file', async () => {
+    // Like the dashboard: created first, running the whole time
+    const dashboard = createManager();
+    const cli = createManager({ inlineRetryWindow: 0 });
+
+    const added = cli.addWebhook({ url });
+    expect(dashboard.getWebhook(added.id)).toMatchObject({ secret: added.secret });
+
+    // A save by the dashboard keeps what the CLI added
+    const other = dashboard.addWebhook({ url, events: ['scan'] });
+    expect(cli.getWebhooks().map(webhook => webhook.id)).toEqual([added.id, other.id]);
+
+    statuses = [500];
+    const [pending] = await cli.sendEvent(event());
+    expect(pending.status).toBe('pending');
+
+    clock += 1000;
+    await dashboard.processRetries();
+    expect(cli.getDelivery(pending.id)).toMatchObject({ status: 'delivered', attempts: 2 });
+    // Already delivered, so the CLI does not send it again
+    expect(await cli.processRetries()).toHaveLength(0);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const manager = createManager();
+    manager.addWebhook({ url });
+    statuses = [404];
+    const [delivery] = await manager.sendEvent(event());
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 404 });
+  });
+
+  it('persists webhooks and the delivery log, and redelivers', async () => {
+    const webhook = createManager().addWebhook({ url, description: 'release bot' });
+    statuses = [400];
+    const [failed] = await createManager().sendEvent(event());
+
+    const manager = createManager();
+    expect(manager.getWebhook(webhook.id)).toMatchObject({ url, description: 'release bot' });
+    expect(manager.getDeliveries({ webhookId: webhook.id })).toHaveLength(1);
+
+    const redelivered = await manager.redeliver(failed.id);
+    expect(redelivered).toMatchObject({ status: 'delivered', redeliveryOf: failed.id });
+    expect(requests[1].body).toBe(requests[0].body);
+    expect(JSON.parse(readFileSync(path.join(dir, 'webhooks.json'), 'utf-8')).deliveries).toHaveLength(2);
+
+    expect(manager.removeWebhook(webhook.id)).toBe(true);
+    expect(createManager().getWebhooks()).toHaveLength(0);
+  });
+});
+
+describe('defaultWebhookStore', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'npmsafe-webhook-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the store in the git directory, away from what npm packs', () => {
+    mkdirSync(path.join(dir, '.git'));
+    mkdirSync(path.join(dir, 'packages', 'app'), { recursive: true });
+    writeFileSync(path.join(dir, '.npmsafe-webhooks.json'), '{"webhooks":[],"deliveries":[]}');
+
+    const store = defaultWebhookStore(dir);
+    expect(store).toBe(path.join(dir, '.git', 'npmsafe-webhooks.json'));
+    expect(readFileSync(store, 'utf-8')).toBe('{"webhooks":[],"deliveries":[]}');
+    expect(existsSync(path.join(dir, '.npmsafe-webhooks.json'))).toBe(false);
+    expect(defaultWebhookStore(path.join(dir, 'packages', 'app'))).toBe(store);
+  });
+
+  it('follows the .git file of a worktree and falls back to the home directory', () => {
+    writeFileSync(path.join(dir, '.git'), 'gitdir: ../main/.git/worktrees/feature\n');
+    expect(defaultWebhookStore(dir)).toBe(path.join(path.dirname(dir), 'main', '.git', 'worktrees', 'feature', 'npmsafe-webhooks.json'));
+
+    rmSync(path.join(dir, '.git'));
+    expect(defaultWebhookStore(dir).startsWith(path.join(homedir(), '.npmsafe', 'webhooks'))).toBe(true);
+  });
+});
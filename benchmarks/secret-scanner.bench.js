@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+// Compare the sequential SecretScanner with the worker-thread ParallelSecretScanner on a
+// generated fixture tree. Run with `npm run bench` (builds first).
+//
+//   BENCH_FILES=2000 BENCH_LINES=400 BENCH_WORKERS=4 npm run bench
+
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir, cpus } from 'os';
+import path from 'path';
+import { SecretScanner } from '../dist/scanners/secret-scanner.js';
+import { ParallelSecretScanner } from '../dist/scanners/parallel-scanner.js';
+import logger from '../dist/utils/logger.js';
+
+const FILES = parseInt(process.env.BENCH_FILES || '500', 10);
+const LINES = parseInt(process.env.BENCH_LINES || '300', 10);
+const WORKERS = parseInt(process.env.BENCH_WORKERS || String(Math.min(cpus().length, 8)), 10);
+const RUNS = parseInt(process.env.BENCH_RUNS || '3', 10);
+
+const SAMPLE_LINES = [
+  'const total = items.reduce((sum, item) => sum + item.price, 0);',
+  'export function formatDate(date) { return date.toISOString().slice(0, 10); }',
+  '  if (!response.ok) throw new Error(`Request failed: ${response.status}`);',
+  '// TODO: move this into the shared helpers module',
+  'import { readFileSync } from "fs";',
+  '  return this.cache.get(key) ?? this.load(key);'
+];
+
+function createFixture() {
+  const root = mkdtempSync(path.join(tmpdir(), 'npmsafe-bench-'));
+
+  for (let i = 0; i < FILES; i++) {
+    const dir = path.join(root, `pkg${i % 20}`);
+    mkdirSync(dir, { recursive: true });
+
+    const lines = [];
+    for (let line = 0; line < LINES; line++) {
+      lines.push(SAMPLE_LINES[(i + line) % SAMPLE_LINES.length]);
+    }
+    // Plant a secret in every tenth file
+    if (i % 10 === 0) {
+      lines[Math.floor(LINES / 2)] = `const key = "AKIA${String(i).padStart(16, '0')}";`;
+    }
+    writeFileSync(path.join(dir, `file${i}.js`), lines.join('\n'));
+  }
+
+  return root;
+}
+
+async function measure(name, run) {
+  const timings = [];
+  let findings = 0;
+
+  for (let i = 0; i < RUNS; i++) {
+    const start = process.hrtime.bigint();
+    findings = (await run()).length;
+    timings.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+
+  const best = Math.min(...timings);
+  console.log(`${name.padEnd(28)} best ${best.toFixed(0).padStart(7)} ms   mean ${(timings.reduce((a, b) => a + b, 0) / RUNS).toFixed(0).padStart(7)} ms   findings ${findings}`);
+  return best;
+}
+
+async function main() {
+  logger.setLevel('error');
+
+  const root = createFixture();
+  const options = { patterns: [`${root}/**/*.js`], exclude: [], timeout: 10 * 60 * 1000 };
+  const scanner = new SecretScanner();
+
+  console.log(`Fixture: ${FILES} files x ${LINES} lines, ${RUNS} runs each\n`);
+
+  try {
+    const sequential = await measure('SecretScanner (sequential)', () => scanner.scan(options));
+    const parallel = await measure(`ParallelSecretScanner (${WORKERS})`, () =>
+      new ParallelSecretScanner(scanner, { workers: WORKERS }).collect(options)
+    );
+
+    console.log(`\nSpeedup: ${(sequential / parallel).toFixed(2)}x`);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
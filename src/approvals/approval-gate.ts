@@ -0,0 +1,252 @@
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { Approver } from '../types/index.js';
+import { SlackIntegration } from '../integrations/slack.js';
+import { DiscordIntegration } from '../integrations/discord.js';
+import logger from '../utils/logger.js';
+
+export const DEFAULT_APPROVAL_STORE = '.npmsafe-approvals.json';
+
+/** Seconds an approval request stays open */
+export const DEFAULT_APPROVAL_TIMEOUT = 1800;
+
+export const SLACK_APPROVE_ACTION = 'npmsafe_approve';
+export const SLACK_REJECT_ACTION = 'npmsafe_reject';
+
+/** Discord buttons carry `npmsafe:approve:<id>` or `npmsafe:reject:<id>` as their custom id */
+export const DISCORD_CUSTOM_ID_PREFIX = 'npmsafe:';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ApprovalRequest {
+  id: string;
+  package: string;
+  version: string;
+  tag: string;
+  requestedBy?: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: Approver;
+}
+
+export interface NewApprovalRequest {
+  package: string;
+  version: string;
+  tag: string;
+  requestedBy?: string;
+}
+
+export interface ApprovalGateOptions {
+  /** Who may decide: `slack:<user id>`, `discord:<user id>`, or a bare id for either */
+  approvers: string[];
+  store?: ApprovalStore;
+  /** Seconds to wait for a decision */
+  timeout?: number;
+  /** Milliseconds between checks of the store */
+  pollInterval?: number;
+  slack?: SlackIntegration;
+  discord?: DiscordIntegration;
+  now?: () => Date;
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+/**
+ * Whether an approver is on the list. Entries name a platform (`slack:U024BE7LH`) or match
+ * the user id on either platform.
+ */
+export function isAuthorizedApprover(approvers: string[], approver: Approver): boolean {
+  return approvers.some(entry => entry === `${approver.platform}:${approver.id}` || entry === approver.id);
+}
+
+/**
+ * Approval requests in a JSON file. The publish that waits and the dashboard that receives the
+ * clicks are separate processes, so every call reads the file again.
+ */
+export class ApprovalStore {
+  private storePath: string;
+  private now: () => Date;
+
+  constructor(storePath: string = DEFAULT_APPROVAL_STORE, now: () => Date = () => new Date()) {
+    this.storePath = path.resolve(storePath);
+    this.now = now;
+  }
+
+  list(): ApprovalRequest[] {
+    if (!existsSync(this.storePath)) return [];
+    try {
+      return JSON.parse(readFileSync(this.storePath, 'utf-8')).requests || [];
+    } catch (error) {
+      logger.warn(`Ignoring unreadable approval store ${this.storePath}: ${error}`);
+      return [];
+    }
+  }
+
+  get(id: string): ApprovalRequest | undefined {
+    return this.list().find(request => request.id === id);
+  }
+
+  create(request: NewApprovalRequest, timeout: number): ApprovalRequest {
+    const now = this.now();
+    const created: ApprovalRequest = {
+      id: `apr_${randomBytes(8).toString('hex')}`,
+      ...request,
+      status: 'pending',
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + timeout * 1000).toISOString()
+    };
+    this.save([...this.list(), created]);
+    return created;
+  }
+
+  /**
+   * Record a decision on a pending request. A request past its expiry is marked expired instead.
+   */
+  decide(id: string, decision: ApprovalDecision, approver: Approver): ApprovalRequest {
+    const decided = this.update(id, request => {
+      if (request.status !== 'pending') {
+        throw new ApprovalError(`Approval request ${id} was already ${request.status}`);
+      }
+      if (this.isExpired(request)) {
+        request.status = 'expired';
+        return;
+      }
+      request.status = decision;
+      request.decidedAt = this.now().toISOString();
+      request.decidedBy = approver;
+    });
+    if (decided.status === 'expired') {
+      throw new ApprovalError(`Approval request ${id} expired at ${decided.expiresAt}`);
+    }
+    return decided;
+  }
+
+  expire(id: string): ApprovalRequest {
+    return this.update(id, request => {
+      if (request.status === 'pending') request.status = 'expired';
+    });
+  }
+
+  isExpired(request: ApprovalRequest): boolean {
+    return this.now().getTime() >= Date.parse(request.expiresAt);
+  }
+
+  private update(id: string, change: (request: ApprovalRequest) => void): ApprovalRequest {
+    const requests = this.list();
+    const request = requests.find(entry => entry.id === id);
+    if (!request) {
+      throw new ApprovalError(`No approval request ${id}`);
+    }
+    change(request);
+    this.save(requests);
+    return request;
+  }
+
+  private save(requests: ApprovalRequest[]): void {
+    // Write then rename, so the other process never reads half a file
+    const temporary = `${this.storePath}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify({ requests }, null, 2) + '\n');
+    renameSync(temporary, this.storePath);
+  }
+}
+
+/**
+ * Posts an approval request with Approve and Reject buttons to Slack and Discord, then waits
+ * for the dashboard's interactions endpoint to record a decision in the store
+ */
+export class ApprovalGate {
+  private options: ApprovalGateOptions;
+  private store: ApprovalStore;
+
+  constructor(options: ApprovalGateOptions) {
+    this.options = options;
+    this.store = options.store || new ApprovalStore(DEFAULT_APPROVAL_STORE, options.now);
+  }
+
+  async request(release: NewApprovalRequest): Promise<ApprovalRequest> {
+    if (this.options.approvers.length === 0) {
+      throw new ApprovalError('No approvers are configured; set approvals.approvers');
+    }
+    if (!this.options.slack && !this.options.discord) {
+      throw new ApprovalError('Approval requests need Slack or Discord to be configured');
+    }
+
+    const request = this.store.create(release, this.options.timeout ?? DEFAULT_APPROVAL_TIMEOUT);
+    const sent = await Promise.all([
+      this.options.slack?.sendRichMessage(this.slackMessage(request)),
+      this.options.discord?.sendInteractiveMessage(this.discordMessage(request), [
+        { type: 2, style: 3, label: 'Approve', customId: `${DISCORD_CUSTOM_ID_PREFIX}approve:${request.id}` },
+        { type: 2, style: 4, label: 'Reject', customId: `${DISCORD_CUSTOM_ID_PREFIX}reject:${request.id}` }
+      ])
+    ]);
+
+    if (!sent.some(Boolean)) {
+      this.store.expire(request.id);
+      throw new ApprovalError('Could not post the approval request to Slack or Discord');
+    }
+    return request;
+  }
+
+  /**
+   * Resolves with the request once it is approved or rejected, or marked expired when the
+   * timeout passes first
+   */
+  async waitForDecision(id: string): Promise<ApprovalRequest> {
+    const interval = this.options.pollInterval ?? 2000;
+    for (;;) {
+      const request = this.store.get(id);
+      if (!request) {
+        throw new ApprovalError(`No approval request ${id}`);
+      }
+      if (request.status !== 'pending') {
+        return request;
+      }
+      if (this.store.isExpired(request)) {
+        return this.store.expire(id);
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+
+  private slackMessage(request: ApprovalRequest) {
+    const summary = `Approval needed: publish ${request.package}@${request.version} to ${request.tag}`;
+    return {
+      text: summary,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Approval needed:* publish \`${request.package}@${request.version}\` to \`${request.tag}\`${request.requestedBy ? `, requested by ${request.requestedBy}` : ''}`,
+          },
+        },
+        {
+          type: 'actions',
+          elements: [
+            { type: 'button', style: 'primary', text: { type: 'plain_text', text: 'Approve' }, action_id: SLACK_APPROVE_ACTION, value: request.id },
+            { type: 'button', style: 'danger', text: { type: 'plain_text', text: 'Reject' }, action_id: SLACK_REJECT_ACTION, value: request.id },
+          ],
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `Request ${request.id}, open until ${request.expiresAt}` }],
+        },
+      ],
+    };
+  }
+
+  private discordMessage(request: ApprovalRequest): string {
+    return `🔐 **Approval needed:** publish \`${request.package}@${request.version}\` to \`${request.tag}\``
+      + `${request.requestedBy ? `, requested by ${request.requestedBy}` : ''}\nRequest ${request.id}, open until ${request.expiresAt}`;
+  }
+}
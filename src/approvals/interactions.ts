@@ -0,0 +1,202 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import { Approver } from '../types/index.js';
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalStore,
+  DISCORD_CUSTOM_ID_PREFIX,
+  SLACK_APPROVE_ACTION,
+  SLACK_REJECT_ACTION,
+  isAuthorizedApprover
+} from './approval-gate.js';
+import logger from '../utils/logger.js';
+
+/** Slack requests older than this many seconds are refused, so a captured request cannot be replayed */
+export const SLACK_SIGNATURE_MAX_AGE = 300;
+
+// DER header of an ed25519 SubjectPublicKeyInfo; Discord hands out the raw 32-byte key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface InteractionsOptions {
+  store: ApprovalStore;
+  approvers: string[];
+  slackSigningSecret?: string;
+  discordPublicKey?: string;
+  now?: () => Date;
+}
+
+export interface InteractionResponse {
+  status: number;
+  body: unknown;
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Check the `X-Slack-Signature` of a request: `v0=` and the HMAC-SHA256 of `v0:<timestamp>:<body>`
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  rawBody: string,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > SLACK_SIGNATURE_MAX_AGE) return false;
+
+  const expected = `v0=${createHmac('sha256', signingSecret).update(`v0:${timestamp}:${rawBody}`).digest('hex')}`;
+  return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+/**
+ * Check the ed25519 `X-Signature-Ed25519` Discord puts over the timestamp and body
+ */
+export function verifyDiscordSignature(
+  publicKeyHex: string,
+  timestamp: string | undefined,
+  rawBody: string,
+  signatureHex: string | undefined
+): boolean {
+  if (!timestamp || !signatureHex || !/^[0-9a-f]{128}$/i.test(signatureHex)) return false;
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, 'hex')]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, Buffer.from(timestamp + rawBody), key, Buffer.from(signatureHex, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns Approve and Reject clicks from Slack and Discord into decisions in the approval store.
+ * The dashboard mounts these on its interactions endpoints.
+ */
+export class ApprovalInteractions {
+  private options: InteractionsOptions;
+
+  constructor(options: InteractionsOptions) {
+    this.options = options;
+  }
+
+  async handleSlack(rawBody: string, headers: Headers): Promise<InteractionResponse> {
+    const { slackSigningSecret } = this.options;
+    if (!slackSigningSecret) {
+      return { status: 404, body: { error: 'Slack interactions are not configured' } };
+    }
+    if (!verifySlackSignature(slackSigningSecret, header(headers, 'x-slack-request-timestamp'), rawBody, header(headers, 'x-slack-signature'), this.now())) {
+      return { status: 401, body: { error: 'Invalid signature' } };
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(new URLSearchParams(rawBody).get('payload') || '');
+    } catch {
+      return { status: 400, body: { error: 'Missing interaction payload' } };
+    }
+
+    const action = payload.type === 'block_actions'
+      ? (payload.actions || []).find((entry: any) => entry.action_id === SLACK_APPROVE_ACTION || entry.action_id === SLACK_REJECT_ACTION)
+      : undefined;
+    if (!action) {
+      // Not one of our buttons; Slack only needs the acknowledgement
+      return { status: 200, body: {} };
+    }
+
+    const approver: Approver = { platform: 'slack', id: payload.user?.id, name: payload.user?.username || payload.user?.name };
+    const decision: ApprovalDecision = action.action_id === SLACK_APPROVE_ACTION ? 'approved' : 'rejected';
+    const outcome = this.decide(action.value, decision, approver);
+
+    if (payload.response_url) {
+      await this.respondToSlack(payload.response_url, outcome.request
+        ? { replace_original: true, text: outcome.message }
+        : { response_type: 'ephemeral', replace_original: false, text: outcome.message });
+    }
+    return { status: 200, body: {} };
+  }
+
+  async handleDiscord(rawBody: string, headers: Headers): Promise<InteractionResponse> {
+    const { discordPublicKey } = this.options;
+    if (!discordPublicKey) {
+      return { status: 404, body: { error: 'Discord interactions are not configured' } };
+    }
+    if (!verifyDiscordSignature(discordPublicKey, header(headers, 'x-signature-timestamp'), rawBody, header(headers, 'x-signature-ed25519'))) {
+      return { status: 401, body: { error: 'Invalid signature' } };
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return { status: 400, body: { error: 'Invalid JSON' } };
+    }
+
+    // Discord pings the endpoint when it is saved in the developer portal
+    if (payload.type === 1) {
+      return { status: 200, body: { type: 1 } };
+    }
+
+    const customId: string = payload.data?.custom_id || '';
+    const match = payload.type === 3 && customId.startsWith(DISCORD_CUSTOM_ID_PREFIX)
+      ? customId.slice(DISCORD_CUSTOM_ID_PREFIX.length).match(/^(approve|reject):(.+)$/)
+      : null;
+    if (!match) {
+      return { status: 400, body: { error: 'Unknown interaction' } };
+    }
+
+    const user = payload.member?.user || payload.user || {};
+    const approver: Approver = { platform: 'discord', id: user.id, name: user.global_name || user.username };
+    const outcome = this.decide(match[2], match[1] === 'approve' ? 'approved' : 'rejected', approver);
+
+    return outcome.request
+      // Update the message and drop the buttons
+      ? { status: 200, body: { type: 7, data: { content: outcome.message, components: [] } } }
+      // Reply only to the person who clicked
+      : { status: 200, body: { type: 4, data: { content: outcome.message, flags: 64 } } };
+  }
+
+  private decide(id: string, decision: ApprovalDecision, approver: Approver): { request?: ApprovalRequest; message: string } {
+    if (!approver.id || !isAuthorizedApprover(this.options.approvers, approver)) {
+      logger.warn(`Ignored an approval click from unauthorized ${approver.platform} user ${approver.id}`);
+      return { message: '⛔ You are not allowed to approve this publish.' };
+    }
+
+    try {
+      const request = this.options.store.decide(id, decision, approver);
+      const who = approver.name || approver.id;
+      logger.info(`Approval request ${id} ${decision} by ${approver.platform}:${approver.id}`);
+      return {
+        request,
+        message: decision === 'approved'
+          ? `✅ Publish of ${request.package}@${request.version} approved by ${who}`
+          : `❌ Publish of ${request.package}@${request.version} rejected by ${who}`
+      };
+    } catch (error) {
+      return { message: `⚠️ ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  private async respondToSlack(responseUrl: string, body: Record<string, unknown>): Promise<void> {
+    try {
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      logger.warn(`Could not update the Slack approval message: ${error}`);
+    }
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+}
+
+function header(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -5,15 +5,48 @@ import chalk from 'chalk';
 import figlet from 'figlet';
 import boxen from 'boxen';
 import inquirer from 'inquirer';
-import { NPMSafeConfig } from './types/index.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  CheckAction,
+  CheckSeverity,
+  NotificationEvent,
+  NotificationEventType,
+  NotificationSeverity,
+  NPMSafeConfig,
+  PolicyVerdict,
+  PublishApproval,
+  PublishSimulation,
+  ScanOptions,
+  SecretScanResult,
+  UnpublishImpact,
+  VersionOptions,
+  WebhookEvent
+} from './types/index.js';
 import logger from './utils/logger.js';
 import { SecretScanner } from './scanners/secret-scanner.js';
+import { HistoryScanner } from './scanners/history-scanner.js';
+import { ParallelSecretScanner } from './scanners/parallel-scanner.js';
+import { SecretBaseline, DEFAULT_BASELINE_FILE } from './scanners/secret-baseline.js';
+import { ScanReportFormat, SCAN_REPORT_FORMATS } from './scanners/report-formatter.js';
+import { blockingSecrets, HttpSecretValidator } from './scanners/secret-verifier.js';
+import { PatternPackLoader, PatternPackStore, PATTERN_PACK_VERSION } from './scanners/pattern-packs.js';
+import type { PatternPackFormat, PatternExampleFailure } from './scanners/pattern-packs.js';
+import { BUILTIN_PACKS } from './scanners/packs/index.js';
+import { StagedFiles } from './scanners/staged-files.js';
+import { HookInstaller, GIT_HOOKS } from './hooks/hook-installer.js';
+import type { GitHookName } from './hooks/hook-installer.js';
 import { SemanticVersioner } from './versioning/semantic-versioner.js';
+import { VersionWriter } from './versioning/version-writer.js';
 import { Analytics } from './analytics/analytics.js';
-import { WebhookManager } from './webhooks/webhook.js';
+import { WebhookManager, defaultWebhookStore, WEBHOOK_EVENTS } from './webhooks/webhook.js';
+import type { WebhookDelivery } from './webhooks/webhook.js';
+import { WEBHOOK_FORMATS } from './webhooks/payload-formats.js';
+import type { WebhookFormat } from './webhooks/payload-formats.js';
 import { GitHubIntegration } from './integrations/github.js';
 import { SlackIntegration } from './integrations/slack.js';
 import { DiscordIntegration } from './integrations/discord.js';
+import { chatSettings, NotificationInput, NotificationRouter, NOTIFICATION_EVENTS, NOTIFICATION_SEVERITIES } from './notifications/notification-router.js';
 import { LinearIntegration } from './integrations/linear.js';
 import { LicenseChecker } from './audit/license-checker.js';
 import { DependencyAuditor } from './audit/dependency-auditor.js';
@@ -22,7 +55,18 @@ import { DashboardServer } from './server/dashboard-server.js';
 import { AdvancedMonitor } from './monitoring/advanced-monitor.js';
 import { DeploymentManager } from './deployment/deployment-manager.js';
 import { AdvancedTesting } from './testing/advanced-testing.js';
-import { NPMSafe } from './index.js';
+import { ConfigLoader, DEFAULT_CONFIG_FILE } from './config/config-loader.js';
+import { Publisher, PublishError, GitTagPushStep, DEFAULT_REGISTRY } from './publishing/publisher.js';
+import { PublishSimulator, formatSize } from './publishing/publish-simulator.js';
+import { RegistryClient } from './registry/registry-client.js';
+import { UnpublishAnalyzer } from './registry/unpublish-analyzer.js';
+import { GitChecker } from './safety/git-checker.js';
+import { PolicyEngine, SEVERITIES } from './policy/policy-engine.js';
+import { createBuiltinChecks } from './policy/checks.js';
+import type { PublishResult } from './publishing/publisher.js';
+import { PluginLoader } from './plugins/plugin-loader.js';
+import { ApprovalGate, DEFAULT_APPROVAL_TIMEOUT } from './approvals/approval-gate.js';
+import type { ApprovalRequest } from './approvals/approval-gate.js';
 
 class NPMSafeCLI {
   private program: Command;
@@ -32,37 +76,27 @@ class NPMSafeCLI {
 
   constructor() {
     this.program = new Command();
-    this.config = this.loadConfig();
-    this.webhookManager = new WebhookManager(this.config.config.webhooks || []);
+    this.config = ConfigLoader.defaults();
+    this.webhookManager = new WebhookManager([]);
     this.setupCommands();
   }
 
-  private loadConfig(): NPMSafeConfig {
-    // Default configuration
-    return {
-      version: '1.0.0',
-      config: {
-        requireCI: true,
-        blockPublishOnSecret: true,
-        webhooks: [],
-        plugins: [],
-        secretPatterns: [],
-        allowedSecrets: [],
-        registry: 'https://registry.npmjs.org/',
-        tag: 'latest',
-        dryRun: false,
-        autoVersion: true,
-        changelog: true,
-        gitChecks: true,
-        impactAnalysis: true,
-        encryption: {
-          enabled: false,
-          algorithm: 'aes-256-gcm'
-        },
-        githubToken: '',
-        githubRepo: ''
+  /**
+   * Every config source merged, in the order `ConfigLoader` documents. `init` exists to repair a
+   * broken config, so there an invalid one is only a warning and the defaults apply.
+   */
+  private async loadConfig(lenient = false): Promise<NPMSafeConfig> {
+    try {
+      return (await new ConfigLoader().load()).config;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (lenient) {
+        logger.warn(message);
+        return ConfigLoader.defaults();
       }
-    };
+      logger.error(message);
+      process.exit(1);
+    }
   }
 
   private setupCommands(): void {
@@ -71,8 +105,13 @@ class NPMSafeCLI {
       .description('🚦 Your seatbelt & airbag for safe npm publishing')
       .version('1.0.0');
 
-    // Show banner
-    this.program.hook('preAction', () => {
+    // Show banner, unless a machine-readable report is going to stdout
+    this.program.hook('preAction', (thisCommand, actionCommand) => {
+      const { format, output } = actionCommand.opts();
+      if (format && format !== 'text' && !output) {
+        logger.setLevel('silent');
+        return;
+      }
       this.showBanner();
     });
 
@@ -84,6 +123,15 @@ class NPMSafeCLI {
         await this.init();
       });
 
+    // Config command
+    this.program
+      .command('config')
+      .description('⚙️ Show the merged configuration and where it came from')
+      .option('--sources', 'Only list the config sources, lowest precedence first')
+      .action(async (options) => {
+        await this.showConfig(options);
+      });
+
     // Scan command
     this.program
       .command('scan')
@@ -91,17 +139,173 @@ class NPMSafeCLI {
       .option('-p, --patterns <patterns>', 'File patterns to scan', '**/*')
       .option('-e, --exclude <exclude>', 'Patterns to exclude', 'node_modules/**')
       .option('--entropy <entropy>', 'Minimum entropy threshold', '3.5')
+      .option('--pack', 'Scan only the files npm pack would publish')
+      .option('--tarball <file>', 'Scan the contents of a built .tgz tarball')
+      .option('--history', 'Scan every commit in git history')
+      .option('--since <ref>', 'Scan git history in the range <ref>..HEAD')
+      .option('--all-refs', 'Include all branches and tags when scanning history')
+      .option('--baseline <file>', 'Only report findings missing from this baseline', DEFAULT_BASELINE_FILE)
+      .option('--update-baseline', 'Accept all current findings into the baseline file')
+      .option('-f, --format <format>', `Report format (${SCAN_REPORT_FORMATS.join(', ')})`, 'text')
+      .option('-o, --output <file>', 'Write the report to a file')
+      .option('--verify', 'Check whether each finding is a live secret')
+      .option('--extract', 'Unpack archives, notebooks, source maps and bundles before scanning')
+      .option('--max-depth <depth>', 'How many nested archives to unpack', '3')
+      .option('-w, --workers <count>', 'Scan with a pool of worker threads and print findings as they arrive')
+      .option('--staged', 'Scan only the staged contents of files in the git index')
       .action(async (options) => {
         await this.scan(options);
       });
 
+    // Pattern pack commands
+    const patternsCommand = this.program
+      .command('patterns')
+      .description('🧩 Manage secret pattern packs');
+
+    patternsCommand
+      .command('list')
+      .description('List built-in and imported pattern packs')
+      .action(() => {
+        this.listPatternPacks();
+      });
+
+    patternsCommand
+      .command('import <pack>')
+      .description('Import a pattern pack file or enable a built-in pack')
+      .action((pack) => {
+        this.importPatternPack(pack);
+      });
+
+    patternsCommand
+      .command('export [pack]')
+      .description('Export a pack, or every active pattern when no pack is given')
+      .option('-f, --format <format>', 'Pack format (yaml, json)', 'yaml')
+      .option('-o, --output <file>', 'Write the pack to a file')
+      .action((pack, options) => {
+        this.exportPatternPack(pack, options);
+      });
+
+    patternsCommand
+      .command('remove <pack>')
+      .description('Remove an imported pattern pack')
+      .action((pack) => {
+        this.removePatternPack(pack);
+      });
+
+    patternsCommand
+      .command('test <pack>')
+      .description('Check a pack\'s examples, optionally against an input file')
+      .option('-i, --input <file>', 'Also report what the pack finds in this file')
+      .action((pack, options) => {
+        this.testPatternPack(pack, options);
+      });
+
+    // Git hook commands
+    const hooksCommand = this.program
+      .command('hooks')
+      .description('🪝 Manage git hooks that scan for secrets before commits and pushes');
+
+    hooksCommand
+      .command('install [hooks...]')
+      .description(`Install git hooks (${GIT_HOOKS.join(', ')}), keeping any existing hooks`)
+      .action(async (hooks) => {
+        await this.installHooks(hooks);
+      });
+
+    hooksCommand
+      .command('uninstall [hooks...]')
+      .description('Remove npmsafe from git hooks')
+      .action(async (hooks) => {
+        await this.uninstallHooks(hooks);
+      });
+
+    hooksCommand
+      .command('status')
+      .description('Show which git hooks run npmsafe')
+      .action(async () => {
+        await this.hooksStatus();
+      });
+
+    // Webhook commands
+    const webhooksCommand = this.program
+      .command('webhook')
+      .description('🔔 Manage webhook subscriptions and deliveries');
+
+    webhooksCommand
+      .command('add <url>')
+      .description('Subscribe a URL to events')
+      .option('-e, --events <events>', `Comma-separated events (${WEBHOOK_EVENTS.join(', ')}); all by default`)
+      .option('--secret <secret>', 'Signing secret; one is generated by default')
+      .option('-d, --description <text>', 'What the webhook is for')
+      .option('-f, --format <format>', `Payload format (${WEBHOOK_FORMATS.join(', ')})`, 'native')
+      .option('--template <file>', 'JSON payload template for the template format')
+      .action((url, options) => {
+        this.addWebhook(url, options);
+      });
+
+    webhooksCommand
+      .command('list')
+      .description('List webhook subscriptions')
+      .action(() => {
+        this.listWebhooks();
+      });
+
+    webhooksCommand
+      .command('remove <id>')
+      .description('Remove a webhook subscription')
+      .action((id) => {
+        this.removeWebhook(id);
+      });
+
+    webhooksCommand
+      .command('deliveries [id]')
+      .description('Show the delivery log, for one webhook or all of them')
+      .option('-s, --status <status>', 'Only pending, delivered or failed deliveries')
+      .option('-n, --limit <count>', 'Number of deliveries to show', '20')
+      .action((id, options) => {
+        this.listWebhookDeliveries(id, options);
+      });
+
+    webhooksCommand
+      .command('redeliver <deliveryId>')
+      .description('Send a logged delivery again')
+      .action(async (deliveryId) => {
+        await this.redeliverWebhook(deliveryId);
+      });
+
+    webhooksCommand
+      .command('retry')
+      .description('Retry failed deliveries that are due')
+      .action(async () => {
+        await this.retryWebhooks();
+      });
+
+    this.program
+      .command('notify')
+      .description('📢 Send an event through the notification routes')
+      .option('-e, --event <type>', `Event type (${NOTIFICATION_EVENTS.join(', ')})`, 'scan')
+      .option('-s, --severity <severity>', `Severity (${NOTIFICATION_SEVERITIES.join(', ')})`, 'info')
+      .option('-t, --title <title>', 'Message title')
+      .option('-m, --message <message>', 'Message text', 'Test notification from npmsafe')
+      .option('-p, --package <name>', 'Package the event is about (default: this package)')
+      .option('-b, --branch <branch>', 'Branch the event is about (default: the current branch)')
+      .option('--dry-run', 'Only show which channels the event would go to')
+      .action(async (options) => {
+        await this.notify(options);
+      });
+
     // Version command
     this.program
       .command('version')
       .description('🔢 Analyze and recommend version bump')
       .option('-a, --auto', 'Automatically apply version bump')
       .option('-i, --interactive', 'Interactive mode')
-      .option('--since <since>', 'Analyze commits since date')
+      .option('--since <since>', 'Analyze commits since a date or git ref (default: the last release tag)')
+      .option('--preid <preid>', 'Bump to a prerelease on this channel, e.g. beta or rc')
+      .option('--graduate', 'Release the current prerelease as its stable version')
+      .option('--commit', 'Commit the version bump')
+      .option('--tag', 'Commit the version bump and create an annotated tag')
+      .option('--dry-run', 'Show what the version bump would change')
       .action(async (options) => {
         await this.version(options);
       });
@@ -110,8 +314,9 @@ class NPMSafeCLI {
     this.program
       .command('dry-run')
       .description('🚦 Simulate publish without actually publishing')
-      .option('-t, --tag <tag>', 'NPM tag', 'latest')
+      .option('-t, --tag <tag>', 'NPM tag (default: the prerelease channel\'s tag, else the configured tag)')
       .option('-r, --registry <registry>', 'NPM registry')
+      .option('-f, --format <format>', 'Output format (text, json)', 'text')
       .action(async (options) => {
         await this.dryRun(options);
       });
@@ -120,10 +325,14 @@ class NPMSafeCLI {
     this.program
       .command('publish')
       .description('📦 Publish package with safety checks')
-      .option('-t, --tag <tag>', 'NPM tag', 'latest')
+      .option('-t, --tag <tag>', 'NPM tag (default: the prerelease channel\'s tag, else the configured tag)')
       .option('-r, --registry <registry>', 'NPM registry')
       .option('--access <access>', 'Package access', 'public')
       .option('--otp <otp>', 'One-time password')
+      .option('--push-tag [remote]', 'Push the release git tag (versioning.tagName) after publishing; a failed push rolls back')
+      .option('--verdict <file>', 'Write the safety check verdict as JSON')
+      .option('--require-approval', 'Wait for an approver to click Approve in Slack or Discord before publishing')
+      .option('--approval-timeout <seconds>', 'Seconds to wait for approval (default: approvals.timeout, else 1800)')
       .action(async (options) => {
         await this.publish(options);
       });
@@ -132,7 +341,7 @@ class NPMSafeCLI {
     this.program
       .command('changelog')
       .description('📝 Generate changelog from commits')
-      .option('--since <since>', 'Generate since date')
+      .option('--since <since>', 'Generate since a date or git ref (default: the last release tag)')
       .option('-o, --output <file>', 'Output file')
       .action(async (options) => {
         await this.changelog(options);
@@ -143,6 +352,8 @@ class NPMSafeCLI {
       .command('unpublish')
       .description('⛔ Safely unpublish package with impact analysis')
       .option('-v, --version <version>', 'Version to unpublish')
+      .option('-r, --registry <registry>', 'NPM registry')
+      .option('--all', 'Unpublish every version of the package')
       .option('--force', 'Force unpublish')
       .action(async (options) => {
         await this.unpublish(options);
@@ -152,8 +363,10 @@ class NPMSafeCLI {
     this.program
       .command('status')
       .description('📊 Show current project status')
-      .action(async () => {
-        await this.status();
+      .option('-t, --tag <tag>', 'Dist-tag whose policy applies')
+      .option('-f, --format <format>', 'Output format (text, json)', 'text')
+      .action(async (options) => {
+        await this.status(options);
       });
 
     this.program
@@ -193,25 +406,46 @@ class NPMSafeCLI {
       .command('slack')
       .description('💬 Slack integration utilities')
       .option('--webhook <url>', 'Slack webhook URL')
+      .option('--token <token>', 'Slack bot token; uses the Web API instead of the webhook')
       .option('--channel <channel>', 'Slack channel')
       .option('--test', 'Test Slack connection')
       .option('--message <message>', 'Send a message')
       .option('--publish-notification', 'Send publish notification')
       .option('--security-alert', 'Send security alert')
+      .option('--members', 'List workspace members (needs a bot token)')
       .action(async (options) => {
-        const webhookUrl = options.webhook || process.env['SLACK_WEBHOOK_URL'];
-        if (!webhookUrl) {
-          console.log('Slack webhook URL must be provided via --webhook or SLACK_WEBHOOK_URL env var.');
+        const { slack: settings } = chatSettings(this.config.config);
+        const webhookUrl = options.webhook || settings.webhookUrl;
+        const botToken = options.token || settings.botToken;
+        const channel = options.channel || settings.channel;
+        if (!webhookUrl && !botToken) {
+          console.log('Slack webhook URL or bot token must be provided via --webhook, --token, SLACK_WEBHOOK_URL or SLACK_BOT_TOKEN.');
+          process.exit(1);
+        }
+        if (botToken && !channel) {
+          console.log('A bot token needs a channel: pass --channel or set SLACK_CHANNEL.');
           process.exit(1);
         }
 
         const slack = new SlackIntegration({
           webhookUrl,
-          channel: options.channel,
+          botToken,
+          apiUrl: settings.apiUrl,
+          channel,
           username: 'NPMSafe Bot',
           iconEmoji: ':shield:',
         });
 
+        if (options.members) {
+          try {
+            const members = await slack.getTeamMembers();
+            members.forEach(member => console.log(`  ${member.id}  ${member.name}  ${member.email || '-'}  ${member.role}`));
+          } catch (error) {
+            logger.error(error instanceof Error ? error.message : String(error));
+            process.exit(1);
+          }
+        }
+
         if (options.test) {
           const success = await slack.testConnection();
           if (success) {
@@ -287,7 +521,7 @@ class NPMSafeCLI {
       .option('--security-alert', 'Send security alert')
       .option('--deployment-status', 'Send deployment status')
       .action(async (options) => {
-        const webhookUrl = options.webhook || process.env['DISCORD_WEBHOOK_URL'];
+        const webhookUrl = options.webhook || chatSettings(this.config.config).discordWebhookUrl;
         if (!webhookUrl) {
           console.log('Discord webhook URL must be provided via --webhook or DISCORD_WEBHOOK_URL env var.');
           process.exit(1);
@@ -696,141 +930,126 @@ class NPMSafeCLI {
       .option('-d, --skip-dependencies', 'Skip dependency auditing')
       .option('-n, --no-notifications', 'Disable notifications')
       .option('-i, --no-issues', 'Disable issue creation')
+      .option('--verdict <file>', 'Write the check verdict as JSON')
       .action(async (options) => {
         try {
           logger.info('🔄 Starting comprehensive security workflow...');
 
-          const npmsafe = new NPMSafe();
-          const licenseChecker = new LicenseChecker();
-          const dependencyAuditor = new DependencyAuditor();
+          const only = [
+            ...(options.skipSecrets ? [] : ['secrets']),
+            ...(options.skipLicenses ? [] : ['licenses']),
+            ...(options.skipDependencies ? [] : ['vulnerabilities'])
+          ];
           
           const linear = options.issues !== false ? new LinearIntegration({
             apiKey: process.env['LINEAR_API_KEY'] || '',
             teamId: process.env['LINEAR_TEAM_ID'] || '',
           }) : null;
           
-          const slackIntegration = options.notifications !== false ? new SlackIntegration({
-            webhookUrl: process.env['SLACK_WEBHOOK_URL'] || '',
-          }) : null;
-          
-          const discordIntegration = options.notifications !== false ? new DiscordIntegration({
-            webhookUrl: process.env['DISCORD_WEBHOOK_URL'] || '',
-          }) : null;
-
-          let results: { secrets: any[]; licenses: any; dependencies: any; issues: any[] } = { secrets: [], licenses: null, dependencies: null, issues: [] };
+          const notifier = options.notifications !== false ? this.createNotifier() : null;
+
+          // Steps 1-3: secrets, license compliance and dependency audit, judged by the policy
+          logger.info(`🔍 Running checks: ${only.join(', ') || 'none'}...`);
+          const verdict = await this.evaluatePolicy({ only });
+          this.reportVerdict(verdict);
+          if (options.verdict) {
+            writeFileSync(options.verdict, JSON.stringify(verdict, null, 2) + '\n');
+          }
 
-          // Step 1: Secret scanning
-          if (!options.skipSecrets) {
-            logger.info('🔍 Step 1: Scanning for secrets...');
-            results.secrets = await npmsafe.scan({
-              patterns: typeof options.patterns === 'string' ? [options.patterns] : (Array.isArray(options.patterns) ? options.patterns : []),
-              exclude: typeof options.exclude === 'string' ? [options.exclude] : (Array.isArray(options.exclude) ? options.exclude : []),
-              entropy: 3.5,
-            });
+          const check = (name: string) => verdict.checks.find(entry => entry.name === name);
+          const results = {
+            secrets: check('secrets')?.details as { failing: number } | undefined,
+            licenses: check('licenses')?.details as { summary: any; incompatible: any[]; recommendations: string[] } | undefined,
+            dependencies: check('vulnerabilities')?.details as { summary: any; vulnerabilities: any[]; recommendations: string[] } | undefined,
+            issues: [] as any[]
+          };
 
-            const secrets = Array.isArray(results.secrets) ? results.secrets : [];
-            if (secrets.length > 0) {
-              logger.warn(`🚨 Found ${secrets.length} potential secrets`);
-              
-              if (linear) {
-                const secretIssue = await linear.createSecurityIssue({
-                  title: 'Secrets detected in source code',
-                  description: `Found ${secrets.length} potential secrets during scan.`,
-                  severity: 'critical',
-                  recommendation: 'Remove secrets and use environment variables',
-                });
-                results.issues.push(secretIssue);
-              }
+          if (check('secrets')?.status === 'failed') {
+            if (linear) {
+              const secretIssue = await linear.createSecurityIssue({
+                title: 'Secrets detected in source code',
+                description: `Found ${results.secrets?.failing} potential secrets during scan.`,
+                severity: 'critical',
+                recommendation: 'Remove secrets and use environment variables',
+              });
+              results.issues.push(secretIssue);
+            }
 
-              if (slackIntegration) {
-                await slackIntegration.sendSecurityAlert({
-                  type: 'secret',
-                  severity: 'critical',
-                  title: 'Secrets detected - Publishing blocked',
-                  description: 'Secrets were found in the package. Publishing has been blocked.',
-                  package: 'my-awesome-package',
+            if (notifier) {
+              await notifier.publish({
+                type: 'security-alert',
+                severity: 'critical',
+                package: verdict.package,
+                version: verdict.version,
+                branch: verdict.branch,
+                title: 'Secrets detected - Publishing blocked',
+                message: 'Secrets were found in the package. Publishing has been blocked.',
+                data: {
+                  alertType: 'secret',
                   details: {
-                    'Files with secrets': secrets.length.toString(),
+                    'Files with secrets': String(results.secrets?.failing),
                     'Action required': 'Remove secrets before publishing',
                   },
-                });
-              }
-
-              console.log('❌ Workflow stopped due to secrets found');
-              process.exit(1);
+                },
+              });
             }
           }
 
-          // Step 2: License compliance check
-          if (!options.skipLicenses) {
-            logger.info('📄 Step 2: Checking license compliance...');
-            results.licenses = await licenseChecker.checkCompliance();
-
-            if (results.licenses.summary.incompatible > 0) {
-              logger.warn(`⚠️ Found ${results.licenses.summary.incompatible} incompatible licenses`);
-              
-              if (linear) {
-                const licenseIssue = await linear.createLicenseIssue({
-                  summary: `${results.licenses.summary.incompatible} packages have incompatible licenses`,
-                  incompatiblePackages: results.licenses.packages.filter((p: any) => !p.compatible),
-                  recommendations: results.licenses.recommendations,
-                });
-                results.issues.push(licenseIssue);
-              }
-            }
+          if (check('licenses')?.status === 'failed' && linear && results.licenses) {
+            const licenseIssue = await linear.createLicenseIssue({
+              summary: `${results.licenses.incompatible.length} packages have incompatible licenses`,
+              incompatiblePackages: results.licenses.incompatible,
+              recommendations: results.licenses.recommendations,
+            });
+            results.issues.push(licenseIssue);
           }
 
-          // Step 3: Dependency vulnerability audit
-          if (!options.skipDependencies) {
-            logger.info('🔍 Step 3: Auditing dependencies...');
-            results.dependencies = await dependencyAuditor.audit();
-
-            if (results.dependencies && (results.dependencies.summary.critical > 0 || results.dependencies.summary.high > 0)) {
-              logger.warn(`🚨 Found ${results.dependencies.summary.critical} critical and ${results.dependencies.summary.high} high vulnerabilities`);
-              
-              if (linear) {
-                const dependencyIssue = await linear.createDependencyIssue({
-                  summary: `${results.dependencies.summary.critical} critical and ${results.dependencies.summary.high} high vulnerabilities found`,
-                  vulnerabilities: results.dependencies.vulnerabilities.filter((v: any) => 
-                    v.severity === 'critical' || v.severity === 'high'
-                  ),
-                  recommendations: results.dependencies.recommendations,
-                });
-                results.issues.push(dependencyIssue);
-              }
-            }
+          if (check('vulnerabilities')?.status === 'failed' && linear && results.dependencies) {
+            const dependencyIssue = await linear.createDependencyIssue({
+              summary: `${results.dependencies.summary.critical} critical and ${results.dependencies.summary.high} high vulnerabilities found`,
+              vulnerabilities: results.dependencies.vulnerabilities,
+              recommendations: results.dependencies.recommendations,
+            });
+            results.issues.push(dependencyIssue);
+          }
+
+          if (verdict.decision === 'block') {
+            console.log('❌ Workflow stopped: the policy blocks this release');
+            process.exit(1);
           }
 
           // Step 4: Send notifications
-          if (options.notifications !== false) {
+          if (notifier) {
             logger.info('📢 Step 4: Sending notifications...');
-            
-            const hasIssues = (results.licenses?.summary?.incompatible || 0) > 0 || 
-                             (results.dependencies?.summary?.critical || 0) > 0 || 
-                             (results.dependencies?.summary?.high || 0) > 0;
-
-            if (hasIssues) {
-              if (discordIntegration) {
-                await discordIntegration.sendSecurityAlert({
-                  type: 'vulnerability',
-                  severity: 'high',
-                  title: 'Security issues detected during pre-publish scan',
-                  description: 'Multiple security issues were found. Please review before publishing.',
-                  package: 'my-awesome-package',
+
+            if (verdict.decision !== 'pass') {
+              await notifier.publish({
+                type: 'security-alert',
+                severity: 'high',
+                package: verdict.package,
+                version: verdict.version,
+                branch: verdict.branch,
+                title: 'Security issues detected during pre-publish scan',
+                message: 'Multiple security issues were found. Please review before publishing.',
+                data: {
+                  alertType: 'vulnerability',
                   details: {
                     'License issues': (results.licenses?.summary?.incompatible || 0).toString(),
                     'Critical vulnerabilities': (results.dependencies?.summary?.critical || 0).toString(),
                     'High vulnerabilities': (results.dependencies?.summary?.high || 0).toString(),
                   },
-                });
-              }
+                },
+              });
             } else {
-              if (slackIntegration) {
-                await slackIntegration.sendMessage('✅ Pre-publish security scan completed successfully!');
-              }
-              if (discordIntegration) {
-                await discordIntegration.sendMessage('✅ Pre-publish security scan completed successfully!');
-              }
+              await notifier.publish({
+                type: 'scan',
+                severity: 'info',
+                package: verdict.package,
+                version: verdict.version,
+                branch: verdict.branch,
+                title: 'Pre-publish security scan passed',
+                message: '✅ Pre-publish security scan completed successfully!',
+              });
             }
           }
 
@@ -838,8 +1057,9 @@ class NPMSafeCLI {
           
           // Summary
           console.log('\n📊 Workflow Summary:');
-          if (results.secrets && results.secrets.length) {
-            console.log(`  • Secrets found: ${results.secrets.length}`);
+          console.log(`  • Verdict: ${verdict.decision}`);
+          if (results.secrets) {
+            console.log(`  • Secrets found: ${results.secrets.failing}`);
           }
           if (results.licenses && results.licenses.summary) {
             console.log(`  • License issues: ${results.licenses.summary.incompatible}`);
@@ -879,7 +1099,13 @@ class NPMSafeCLI {
                   role: 'admin'
                 }
               ]
-            }
+            },
+            approvals: {
+              ...this.config.config.approvals,
+              slackSigningSecret: this.config.config.approvals?.slackSigningSecret || process.env['SLACK_SIGNING_SECRET'],
+              discordPublicKey: this.config.config.approvals?.discordPublicKey || process.env['DISCORD_PUBLIC_KEY']
+            },
+            tagFormat: this.config.config.versioning?.tagName
           });
 
           logger.info('🌐 Starting NPMSafe dashboard...');
@@ -941,10 +1167,8 @@ class NPMSafeCLI {
               },
               channels: ['slack', 'discord', 'webhook']
             },
-            integrations: {
-              ...(options.slackWebhook ? { slack: { webhookUrl: options.slackWebhook, channel: '#alerts' } } : {}),
-              ...(options.discordWebhook ? { discord: { webhookUrl: options.discordWebhook, channel: '#monitoring' } } : {})
-            }
+            integrations: {},
+            notifier: this.createNotifier(options)
           });
 
           logger.info('📊 Starting advanced monitoring...');
@@ -1004,10 +1228,8 @@ class NPMSafeCLI {
               e2e: parseInt(options.timeout) * 10,
               performance: parseInt(options.timeout) * 20
             },
-            notifications: {
-              ...(options.slackWebhook ? { slack: { webhookUrl: options.slackWebhook, channel: '#testing' } } : {}),
-              ...(options.discordWebhook ? { discord: { webhookUrl: options.discordWebhook, channel: '#testing' } } : {})
-            }
+            notifications: {},
+            notifier: this.createNotifier(options)
           });
 
           logger.info('🧪 Starting advanced testing...');
@@ -1068,15 +1290,14 @@ class NPMSafeCLI {
               maxRollbacks: 5
             },
             notifications: {
-              ...(options.slackWebhook ? { slack: { webhookUrl: options.slackWebhook, channel: '#deployments' } } : {}),
-              ...(options.discordWebhook ? { discord: { webhookUrl: options.discordWebhook, channel: '#deployments' } } : {}),
               ...(options.linearApiKey ? { linear: { apiKey: options.linearApiKey, teamId: options.linearTeamId || '' } } : {})
             },
             monitoring: {
               healthChecks: true,
               performanceMonitoring: true,
               errorTracking: true
-            }
+            },
+            notifier: this.createNotifier(options)
           });
 
           if (options.name && options.version) {
@@ -1130,6 +1351,21 @@ class NPMSafeCLI {
   private async init(): Promise<void> {
     logger.info('Initializing NPMSafe configuration...');
 
+    if (existsSync(DEFAULT_CONFIG_FILE)) {
+      const { overwrite } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'overwrite',
+          message: `${DEFAULT_CONFIG_FILE} already exists. Overwrite it?`,
+          default: false
+        }
+      ]);
+      if (!overwrite) {
+        logger.info(`Kept the existing ${DEFAULT_CONFIG_FILE}`);
+        return;
+      }
+    }
+
     const answers = await inquirer.prompt([
       {
         type: 'confirm',
@@ -1164,7 +1400,7 @@ class NPMSafeCLI {
     ]);
 
     // Create .npmsafe.json
-    const config = {
+    const config: NPMSafeConfig = {
       version: '1.0.0',
       config: {
         requireCI: answers.requireCI,
@@ -1181,27 +1417,132 @@ class NPMSafeCLI {
       }
     };
 
-    // TODO: Write config to .npmsafe.json
+    try {
+      const file = ConfigLoader.write(config, DEFAULT_CONFIG_FILE);
+      logger.success(`Configuration written to ${file}`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
     logger.success('Configuration initialized successfully!');
     logger.info('You can now run: npmsafe scan, npmsafe version, npmsafe publish');
   }
 
+  private async showConfig(options: { sources?: boolean }): Promise<void> {
+    const { config, sources } = await new ConfigLoader().load();
+
+    console.log(chalk.blue('\n⚙️ Config sources (later ones win):'));
+    sources.forEach((source, index) => console.log(`  ${index + 1}. ${source.kind}: ${source.location}`));
+    if (options.sources) return;
+
+    const printable = {
+      ...config,
+      config: {
+        ...config.config,
+        secretPatterns: (config.config.secretPatterns || []).map(pattern =>
+          'pattern' in pattern ? PatternPackLoader.toDefinition(pattern) : pattern
+        )
+      }
+    };
+    console.log(chalk.blue('\n📄 Merged configuration:'));
+    console.log(JSON.stringify(printable, null, 2));
+  }
+
   private async scan(options: any): Promise<void> {
     logger.info('🔐 Starting secret scan...');
 
-    const scanner = new SecretScanner();
-    const results = await scanner.scan({
+    const format = (options.format || 'text') as ScanReportFormat;
+    if (!SCAN_REPORT_FORMATS.includes(format)) {
+      logger.error(`Unknown report format "${format}". Use one of: ${SCAN_REPORT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+
+    const scanner = this.createSecretScanner();
+    const verify = this.shouldVerifySecrets(options.verify);
+    const stagedMode = Boolean(options.staged);
+    const historyMode = !stagedMode && Boolean(options.history || options.since || options.allRefs);
+    const baselinePath: string = options.baseline || DEFAULT_BASELINE_FILE;
+    const baseline = options.updateBaseline ? undefined : baselinePath;
+
+    const scanOptions: ScanOptions = {
       patterns: typeof options.patterns === 'string' ? [options.patterns] : (Array.isArray(options.patterns) ? options.patterns : []),
       exclude: typeof options.exclude === 'string' ? [options.exclude] : (Array.isArray(options.exclude) ? options.exclude : []),
-      entropy: parseFloat(options.entropy)
-    });
+      entropy: parseFloat(options.entropy),
+      pack: Boolean(options.pack),
+      tarball: options.tarball,
+      baseline,
+      verify,
+      extract: Boolean(options.extract),
+      maxDepth: parseInt(options.maxDepth, 10)
+    };
 
-    if (results.length === 0) {
+    if (stagedMode) {
+      try {
+        scanOptions.files = await new StagedFiles().read();
+      } catch (error) {
+        logger.error(`Could not read staged files: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+      logger.info(`Scanning ${scanOptions.files!.length} staged file(s)`);
+    }
+
+    // Stream findings to the terminal while workers are still scanning
+    const streaming = Boolean(options.workers) && !historyMode && format === 'text' && !options.updateBaseline;
+    let results: SecretScanResult[] = [];
+
+    if (historyMode) {
+      results = await new HistoryScanner(scanner).scan({
+        since: options.since,
+        all: Boolean(options.allRefs),
+        entropy: parseFloat(options.entropy)
+      });
+    } else if (options.workers) {
+      const parallel = new ParallelSecretScanner(scanner, { workers: parseInt(options.workers, 10) || undefined });
+      for await (const result of parallel.scan(scanOptions)) {
+        results.push(result);
+        if (streaming) this.reportSecret(result);
+      }
+    } else {
+      results = await scanner.scan(scanOptions);
+    }
+
+    // The other scans apply the baseline and verification themselves
+    if (historyMode && baseline) {
+      const secretBaseline = new SecretBaseline(baseline);
+      if (secretBaseline.exists()) {
+        results = secretBaseline.filterNew(results);
+      }
+    }
+    if (historyMode && verify) {
+      results = await scanner.verify(results);
+    }
+
+    if (options.updateBaseline) {
+      new SecretBaseline(baselinePath).write(results);
+      logger.success(`Baseline written to ${baselinePath} with ${results.length} accepted findings`);
+      return;
+    }
+
+    if (format !== 'text' || options.output) {
+      const report = scanner.generateReport(results, format);
+      if (options.output) {
+        writeFileSync(options.output, report);
+        logger.success(`Scan report written to ${options.output}`);
+      } else {
+        console.log(report);
+      }
+    }
+
+    if (results.length === 0 && stagedMode) {
+      logger.success('✅ No secrets found in staged files.');
+    } else if (results.length === 0) {
       logger.secretClean();
       logger.success('✅ No secrets found! Your package is safe to publish.');
     } else {
       logger.error(`🚨 Found ${results.length} potential secrets!`);
-      
+    }
+
+    if (results.length > 0 && !streaming) {
       // Group by severity
       const critical = results.filter(r => r.pattern.severity === 'critical');
       const high = results.filter(r => r.pattern.severity === 'high');
@@ -1210,36 +1551,33 @@ class NPMSafeCLI {
 
       if (critical.length > 0) {
         logger.error(`🚨 CRITICAL (${critical.length}):`);
-        critical.forEach(result => {
-          logger.secretFound(result.file, result.line, result.pattern.name);
-        });
+        critical.forEach(result => this.reportSecret(result));
       }
 
       if (high.length > 0) {
         logger.warn(`⚠️ HIGH (${high.length}):`);
-        high.forEach(result => {
-          logger.secretFound(result.file, result.line, result.pattern.name);
-        });
+        high.forEach(result => this.reportSecret(result));
       }
 
       if (medium.length > 0) {
         logger.info(`🔍 MEDIUM (${medium.length}):`);
-        medium.forEach(result => {
-          logger.secretFound(result.file, result.line, result.pattern.name);
-        });
+        medium.forEach(result => this.reportSecret(result));
       }
 
       if (low.length > 0) {
         logger.info(`ℹ️ LOW (${low.length}):`);
-        low.forEach(result => {
-          logger.secretFound(result.file, result.line, result.pattern.name);
-        });
+        low.forEach(result => this.reportSecret(result));
       }
+    }
 
-      if (this.config.config.blockPublishOnSecret) {
-        logger.publishBlocked('Secrets detected in files to be published');
-        process.exit(1);
-      }
+    if (stagedMode && results.length > 0) {
+      this.reportBlockedCommit(results, baselinePath);
+      process.exit(1);
+    }
+
+    if (this.getBlockingSecrets(results).length > 0) {
+      logger.publishBlocked('Secrets detected in files to be published');
+      process.exit(1);
     }
 
     this.analytics.recordEvent({ type: 'scan', user: process.env['USER'] || '', timestamp: new Date().toISOString() });
@@ -1252,6 +1590,378 @@ class NPMSafeCLI {
     });
   }
 
+  private reportBlockedCommit(results: SecretScanResult[], baselinePath: string): void {
+    const files = [...new Set(results.map(result => result.file))];
+    console.log(chalk.red(`\n🚫 Commit blocked: ${results.length} potential secret(s) in ${files.length} staged file(s)`));
+    files.forEach(file => {
+      const lines = results.filter(result => result.file === file).map(result => result.line);
+      console.log(chalk.red(`  • ${file} (line ${[...new Set(lines)].join(', ')})`));
+    });
+    console.log(chalk.gray('\nRemove the secrets and restage the files, or if they are false positives:'));
+    console.log(chalk.gray('  • add an `npmsafe-ignore` comment on the line'));
+    console.log(chalk.gray('  • add the value to `allowedSecrets` in .npmsafe.json'));
+    console.log(chalk.gray(`  • accept them into ${baselinePath} with \`npmsafe scan --staged --update-baseline\``));
+  }
+
+  private async installHooks(hooks: string[] = []): Promise<void> {
+    const unknown = hooks.filter(hook => !GIT_HOOKS.includes(hook as GitHookName));
+    if (unknown.length > 0) {
+      logger.error(`Unknown hook(s): ${unknown.join(', ')}. Supported hooks: ${GIT_HOOKS.join(', ')}`);
+      process.exit(1);
+    }
+
+    try {
+      const results = await new HookInstaller().install(hooks.length > 0 ? hooks as GitHookName[] : GIT_HOOKS);
+      results.forEach(result => {
+        const note = result.action === 'chained' ? ' (existing hook kept, runs after npmsafe)' : '';
+        logger.success(`${result.hook} hook ${result.action}: ${result.path}${note}`);
+      });
+    } catch (error) {
+      logger.error(`Hook installation failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  private async uninstallHooks(hooks: string[] = []): Promise<void> {
+    try {
+      const targets = (hooks.length > 0 ? hooks : GIT_HOOKS) as GitHookName[];
+      const removed = await new HookInstaller().uninstall(targets);
+      if (removed.length === 0) {
+        logger.info('No npmsafe hooks to remove');
+      } else {
+        logger.success(`Removed npmsafe from: ${removed.join(', ')}`);
+      }
+    } catch (error) {
+      logger.error(`Hook removal failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  private async hooksStatus(): Promise<void> {
+    try {
+      const statuses = await new HookInstaller().status();
+      statuses.forEach(status => {
+        const state = status.installed
+          ? chalk.green(`installed${status.chained ? ', chained with an existing hook' : ''}`)
+          : chalk.gray('not installed');
+        console.log(`  ${status.hook}: ${state}`);
+      });
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private addWebhook(url: string, options: { events?: string; secret?: string; description?: string; format: WebhookFormat; template?: string }): void {
+    try {
+      const webhook = this.webhookManager.addWebhook({
+        url,
+        events: options.events ? options.events.split(',').map(event => event.trim()).filter(Boolean) as WebhookEvent[] : [],
+        secret: options.secret,
+        description: options.description,
+        format: options.format,
+        template: options.template ? JSON.parse(readFileSync(options.template, 'utf-8')) : undefined
+      });
+      logger.success(`✅ Added webhook ${webhook.id} for ${webhook.url}`);
+      console.log(`  Events: ${webhook.events.length > 0 ? webhook.events.join(', ') : 'all'}`);
+      console.log(`  Format: ${webhook.format}`);
+      if (!options.secret) {
+        console.log(`  Signing secret (shown once): ${webhook.secret}`);
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private listWebhooks(): void {
+    const webhooks = this.webhookManager.getWebhooks();
+    if (webhooks.length === 0) {
+      console.log('No webhooks; add one with `npmsafe webhook add <url>`');
+      return;
+    }
+    webhooks.forEach(webhook => {
+      const source = webhook.persistent ? '' : chalk.gray(' (from config)');
+      console.log(`  ${webhook.id}  ${webhook.url}  ${webhook.events.length > 0 ? webhook.events.join(',') : 'all events'}  ${webhook.format || 'native'}${source}`);
+      if (webhook.description) console.log(`    ${chalk.gray(webhook.description)}`);
+    });
+  }
+
+  private removeWebhook(id: string): void {
+    try {
+      if (!this.webhookManager.removeWebhook(id)) {
+        logger.error(`No webhook ${id}`);
+        process.exit(1);
+      }
+      logger.success(`✅ Removed webhook ${id}`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private listWebhookDeliveries(id: string | undefined, options: { status?: WebhookDelivery['status']; limit: string }): void {
+    const deliveries = this.webhookManager.getDeliveries({ webhookId: id, status: options.status, limit: Number(options.limit) || 20 });
+    if (deliveries.length === 0) {
+      console.log('No deliveries logged');
+      return;
+    }
+    deliveries.forEach(delivery => this.printWebhookDelivery(delivery));
+  }
+
+  private async redeliverWebhook(deliveryId: string): Promise<void> {
+    try {
+      this.printWebhookDelivery(await this.webhookManager.redeliver(deliveryId));
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private async retryWebhooks(): Promise<void> {
+    const retried = await this.webhookManager.processRetries();
+    if (retried.length === 0) {
+      console.log('No deliveries are due for a retry');
+    }
+    retried.forEach(delivery => this.printWebhookDelivery(delivery));
+  }
+
+  /**
+   * The configured notification router. `--slack-webhook` and `--discord-webhook` stand in for
+   * the configured Slack and Discord URLs.
+   */
+  private createNotifier(overrides: { slackWebhook?: string; discordWebhook?: string } = {}): NotificationRouter {
+    const config = this.config.config;
+    return NotificationRouter.fromConfig({
+      ...config,
+      slackWebhookUrl: overrides.slackWebhook || config.slackWebhookUrl,
+      discordWebhookUrl: overrides.discordWebhook || config.discordWebhookUrl
+    }, { webhookManager: this.webhookManager });
+  }
+
+  /**
+   * Report the secret scan and the dependency audit from a verdict, one message each
+   */
+  private async notifyCheckResults(notifier: NotificationRouter, verdict: PolicyVerdict, release: Partial<NotificationEvent>): Promise<void> {
+    const groups = [
+      { title: 'Secret scan', checks: ['secrets'] },
+      { title: 'Dependency audit', checks: ['licenses', 'vulnerabilities'] }
+    ];
+
+    for (const group of groups) {
+      const checks = verdict.checks.filter(check => group.checks.includes(check.name) && check.status !== 'skipped');
+      if (checks.length === 0) continue;
+
+      const failed = checks.filter(check => check.status === 'failed' || check.status === 'error');
+      const severity = failed.reduce<CheckSeverity | undefined>(
+        (max, check) => (!max || SEVERITIES.indexOf(check.severity) > SEVERITIES.indexOf(max) ? check.severity : max),
+        undefined
+      );
+      await notifier.publish({
+        ...release,
+        type: 'scan',
+        severity: severity || 'info',
+        title: `${group.title} ${failed.length > 0 ? 'found problems' : 'passed'}`,
+        message: failed.length > 0
+          ? failed.flatMap(check => check.reasons).slice(0, 10).join('\n')
+          : checks.map(check => `✅ ${check.description}`).join('\n'),
+        data: { checks: checks.map(check => ({ name: check.name, status: check.status, severity: check.severity })) }
+      });
+    }
+  }
+
+  private async notify(options: { event: NotificationEventType; severity: NotificationSeverity; title?: string; message: string; package?: string; branch?: string; dryRun?: boolean }): Promise<void> {
+    if (!NOTIFICATION_EVENTS.includes(options.event) || !NOTIFICATION_SEVERITIES.includes(options.severity)) {
+      logger.error(`Events are ${NOTIFICATION_EVENTS.join(', ')}; severities are ${NOTIFICATION_SEVERITIES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const notifier = this.createNotifier();
+    const event = {
+      type: options.event,
+      severity: options.severity,
+      package: options.package,
+      branch: options.branch,
+      title: options.title || `npmsafe ${options.event}`,
+      message: options.message
+    };
+
+    if (options.dryRun) {
+      const channels = notifier.route(event);
+      console.log(channels.length > 0 ? `Would notify: ${channels.join(', ')}` : 'No channel matches this event');
+      return;
+    }
+
+    const results = await notifier.publish(event);
+    if (results.length === 0) {
+      console.log('No channel matches this event');
+    }
+    results.forEach(result => {
+      const color = result.status === 'sent' ? chalk.green : result.status === 'failed' ? chalk.red : chalk.yellow;
+      console.log(`  ${result.channel}  ${color(result.status)}`);
+    });
+    if (results.some(result => result.status === 'failed')) {
+      process.exit(1);
+    }
+  }
+
+  private printWebhookDelivery(delivery: WebhookDelivery): void {
+    const color = delivery.status === 'delivered' ? chalk.green : delivery.status === 'failed' ? chalk.red : chalk.yellow;
+    const detail = delivery.error ? ` - ${delivery.error}` : delivery.responseStatus ? ` - HTTP ${delivery.responseStatus}` : '';
+    const retry = delivery.nextAttemptAt ? `, next attempt ${delivery.nextAttemptAt}` : '';
+    console.log(`  ${delivery.id}  ${delivery.event}  ${delivery.url}  ${color(delivery.status)} (${delivery.attempts} attempt(s)${retry})${detail}`);
+  }
+
+  private listPatternPacks(): void {
+    const installed = new PatternPackStore().list();
+    const enabled = this.config.config.patternPacks || [];
+
+    console.log(chalk.blue('\n📦 Built-in pattern packs:'));
+    Object.values(BUILTIN_PACKS).forEach(pack => {
+      const active = enabled.includes(pack.name) || installed.some(other => other.name === pack.name);
+      console.log(`  ${active ? chalk.green('●') : chalk.gray('○')} ${pack.name} (${pack.patterns.length} patterns) - ${pack.description || ''}`);
+    });
+
+    const imported = installed.filter(pack => !BUILTIN_PACKS[pack.name]);
+    if (imported.length > 0) {
+      console.log(chalk.blue('\n📥 Imported pattern packs:'));
+      imported.forEach(pack => {
+        console.log(`  ${chalk.green('●')} ${pack.name} (${pack.patterns.length} patterns) - ${pack.description || ''}`);
+      });
+    }
+  }
+
+  private importPatternPack(nameOrPath: string): void {
+    try {
+      const pack = PatternPackLoader.load(nameOrPath);
+      const failures = PatternPackLoader.test(pack);
+      if (failures.length > 0) {
+        this.reportExampleFailures(failures);
+        logger.error(`Pattern pack ${pack.name} was not imported: its examples do not pass`);
+        process.exit(1);
+      }
+
+      const file = new PatternPackStore().add(pack);
+      logger.success(`Imported pattern pack ${pack.name} (${pack.patterns.length} patterns) to ${file}`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private exportPatternPack(name: string | undefined, options: { format: string; output?: string }): void {
+    const format = options.format as PatternPackFormat;
+    if (format !== 'yaml' && format !== 'json') {
+      logger.error(`Unknown pack format: ${options.format}. Use yaml or json.`);
+      process.exit(1);
+    }
+
+    try {
+      const pack = name
+        ? new PatternPackStore().get(name) || PatternPackLoader.load(name)
+        : {
+            version: PATTERN_PACK_VERSION,
+            name: 'npmsafe',
+            description: 'Every pattern active in this project',
+            patterns: this.createSecretScanner().getPatterns().map(pattern => PatternPackLoader.toDefinition(pattern))
+          };
+      const text = PatternPackLoader.serialize(pack, format);
+
+      if (options.output) {
+        writeFileSync(options.output, text);
+        logger.success(`Pattern pack ${pack.name} written to ${options.output}`);
+      } else {
+        process.stdout.write(text);
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private removePatternPack(name: string): void {
+    if (new PatternPackStore().remove(name)) {
+      logger.success(`Removed pattern pack ${name}`);
+    } else {
+      logger.warn(`No imported pattern pack named ${name}`);
+    }
+  }
+
+  private testPatternPack(nameOrPath: string, options: { input?: string }): void {
+    try {
+      const pack = new PatternPackStore().get(nameOrPath) || PatternPackLoader.load(nameOrPath);
+      const failures = PatternPackLoader.test(pack);
+      const examples = pack.patterns.reduce(
+        (count, pattern) => count + (pattern.examples?.match?.length || 0) + (pattern.examples?.noMatch?.length || 0),
+        0
+      );
+
+      if (failures.length > 0) {
+        this.reportExampleFailures(failures);
+      } else {
+        logger.success(`All ${examples} examples in ${pack.name} pass`);
+      }
+
+      if (options.input) {
+        const lines = readFileSync(options.input, 'utf-8').split('\n');
+        const patterns = PatternPackLoader.compile(pack);
+        let found = 0;
+        lines.forEach((line, index) => {
+          patterns.forEach(pattern => {
+            PatternPackLoader.findMatches(pattern, line).forEach(value => {
+              found++;
+              console.log(`  ${options.input}:${index + 1}  ${chalk.yellow(pattern.name)}  ${value}`);
+            });
+          });
+        });
+        console.log(chalk.blue(`\n${found} match(es) in ${options.input}`));
+      }
+
+      if (failures.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  private reportExampleFailures(failures: PatternExampleFailure[]): void {
+    failures.forEach(failure => {
+      const expectation = failure.expected === 'match' ? 'should match' : 'should not match';
+      console.log(chalk.red(`  ✗ ${failure.pattern} ${expectation}: ${failure.example}`));
+    });
+  }
+
+  private createSecretScanner(): SecretScanner {
+    const scanner = new SecretScanner({
+      patterns: PatternPackLoader.resolve(this.config.config),
+      allowedSecrets: this.config.config.allowedSecrets || []
+    });
+    (this.config.config.secretValidators || []).forEach(validator => {
+      scanner.registerValidator(new HttpSecretValidator(validator));
+    });
+    return scanner;
+  }
+
+  private shouldVerifySecrets(requested?: boolean): boolean {
+    return Boolean(requested || this.config.config.verifySecrets || this.config.config.blockPublishOnSecret === 'verified');
+  }
+
+  private getBlockingSecrets(results: SecretScanResult[]): SecretScanResult[] {
+    return blockingSecrets(results, this.config.config);
+  }
+
+  private reportSecret(result: SecretScanResult): void {
+    logger.secretFound(result.file, result.line, result.pattern.name);
+    if (result.commit) {
+      logger.info(`    ↳ commit ${result.commit.hash.slice(0, 8)} by ${result.commit.author} on ${result.commit.date}`);
+    }
+    if (result.verified !== undefined) {
+      logger.info(`    ↳ verified: ${result.verified}`);
+    }
+  }
+
   private async version(options: any): Promise<void> {
     logger.info('🔢 Analyzing version changes...');
 
@@ -1260,12 +1970,18 @@ class NPMSafeCLI {
       const packageJson = JSON.parse(await import('fs').then(fs => fs.readFileSync('package.json', 'utf-8')));
       const currentVersion = packageJson.version;
 
-      const versioner = new SemanticVersioner();
+      const versioner = new SemanticVersioner({ tagFormat: this.config.config.versioning?.tagName });
       const analysis = await versioner.analyzeVersion(currentVersion, {
-        since: options.since
+        since: options.since,
+        preid: options.preid,
+        graduate: options.graduate,
+        channels: this.config.config.channels
       });
 
       logger.version(currentVersion, analysis.newVersion, analysis.recommendedBump);
+      if (analysis.distTag) {
+        logger.info(`🏷️ ${analysis.channel || 'Prerelease'} builds publish to the ${analysis.distTag} dist-tag`);
+      }
 
       if (analysis.reasons.length > 0) {
         logger.info('📋 Reasons for version bump:');
@@ -1289,12 +2005,10 @@ class NPMSafeCLI {
         ]);
 
         if (answer.apply) {
-          // TODO: Update package.json version
-          logger.success(`✅ Version updated to ${analysis.newVersion}`);
+          await this.applyVersion(analysis.newVersion, options);
         }
       } else if (options.auto) {
-        // TODO: Update package.json version
-        logger.success(`✅ Version automatically updated to ${analysis.newVersion}`);
+        await this.applyVersion(analysis.newVersion, options);
       }
     } catch (error) {
       logger.error('Failed to analyze version:', error);
@@ -1302,18 +2016,68 @@ class NPMSafeCLI {
     }
   }
 
+  private async applyVersion(version: string, options: VersionOptions): Promise<void> {
+    const versioning = this.config.config.versioning || {};
+    const result = await new VersionWriter({ ...versioning }).apply(version, {
+      commit: options.commit ?? versioning.commit,
+      tag: options.tag ?? versioning.tag,
+      dryRun: options.dryRun
+    });
+
+    const action = result.dryRun ? 'Would update' : 'Updated';
+    logger.success(`✅ ${action} ${result.files.join(', ')} to ${result.version}`);
+    if (result.commit) {
+      logger.info(result.dryRun ? `  Would commit: ${result.commit}` : `  Committed ${result.commit.slice(0, 8)}`);
+    }
+    if (result.tag) {
+      logger.info(`  ${result.dryRun ? 'Would tag' : 'Tagged'} ${result.tag}`);
+    }
+  }
+
   private async dryRun(options: any): Promise<void> {
     logger.info('🚦 Running pre-publish simulation...');
 
-    // Simulate what would be published
-    const simulation = {
-      files: ['dist/index.js', 'package.json', 'README.md', 'LICENSE'],
-      size: '24 KB',
-      registry: options.registry || this.config.config.registry,
-      tag: options.tag || this.config.config.tag,
-      warnings: [],
-      errors: []
-    };
+    const registry = options.registry || this.config.config.registry;
+    let simulation: PublishSimulation;
+    try {
+      simulation = await new PublishSimulator({ tagFormat: this.config.config.versioning?.tagName }).simulate({
+        registry,
+        tag: options.tag,
+        defaultTag: this.config.config.tag,
+        channels: this.config.config.channels
+      });
+    } catch (error) {
+      logger.error(`Could not simulate the publish: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    // Judge the files that would actually reach the registry
+    try {
+      const scanner = this.createSecretScanner();
+      const secrets = await scanner.scan({
+        pack: true,
+        extract: true,
+        baseline: DEFAULT_BASELINE_FILE,
+        verify: this.shouldVerifySecrets()
+      });
+      const blocking = new Set(this.getBlockingSecrets(secrets));
+      secrets.forEach(secret => {
+        const message = `Secret detected in ${secret.file}:${secret.line} - ${secret.pattern.name}`;
+        if (blocking.has(secret)) {
+          simulation.errors.push(message);
+        } else {
+          simulation.warnings.push(message);
+        }
+      });
+    } catch (error) {
+      simulation.warnings.push(`Could not scan package contents: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(simulation, null, 2));
+      if (simulation.errors.length > 0) process.exit(1);
+      return;
+    }
 
     logger.info('Files to publish:');
     simulation.files.forEach(file => {
@@ -1321,7 +2085,17 @@ class NPMSafeCLI {
     });
 
     logger.info(`Target registry: ${simulation.registry} (tag: ${simulation.tag})`);
-    logger.info(`Estimated size: ${simulation.size}`);
+    logger.publishReady(simulation.files, `${formatSize(simulation.size)} packed, ${formatSize(simulation.unpackedSize || 0)} unpacked`);
+    if (simulation.previousVersion && simulation.previousUnpackedSize) {
+      logger.info(`Previously published: ${simulation.previousVersion} (${formatSize(simulation.previousUnpackedSize)} unpacked)`);
+    }
+    if (simulation.version) {
+      logger.version(simulation.version.currentVersion, simulation.version.newVersion, simulation.version.recommendedBump);
+    }
+    if (simulation.changelog) {
+      const { breaking, features, fixes } = simulation.changelog.changes;
+      logger.info(`Changelog: ${breaking.length} breaking, ${features.length} features, ${fixes.length} fixes`);
+    }
 
     if (simulation.warnings.length > 0) {
       logger.warn('Warnings:');
@@ -1347,34 +2121,183 @@ class NPMSafeCLI {
     logger.info('📦 Starting safe publish process...');
 
     // Run all safety checks
-    const checks = await this.runSafetyChecks();
-    
-    if (!checks.allPassed) {
+    const verdict = await this.evaluatePolicy({ tag: options.tag });
+    this.reportVerdict(verdict);
+    if (options.verdict) {
+      writeFileSync(options.verdict, JSON.stringify(verdict, null, 2) + '\n');
+    }
+
+    // Each publish gets one thread; the check results and the outcome are its replies
+    const notifier = this.createNotifier();
+    const release = {
+      package: verdict.package,
+      version: verdict.version,
+      branch: verdict.branch,
+      thread: `📦 Publishing ${verdict.package}@${verdict.version}`
+    };
+    await this.notifyCheckResults(notifier, verdict, release);
+
+    if (verdict.decision === 'block') {
       logger.publishBlocked('Safety checks failed');
+      await notifier.publish({
+        ...release,
+        type: 'publish',
+        severity: 'high',
+        title: `Publish of ${verdict.package}@${verdict.version} blocked`,
+        message: `${verdict.summary.blocking} blocking check(s) failed`
+      });
       process.exit(1);
     }
 
     logger.success('🚦 All pre-publish checks passed!');
-    logger.publishReady(['dist/index.js', 'package.json', 'README.md'], '24 KB');
 
-    // TODO: Actually run npm publish
-    logger.success('✅ Package published successfully!');
+    const approval = options.requireApproval
+      ? await this.awaitApproval(verdict, notifier, release, options)
+      : undefined;
 
-    this.analytics.recordEvent({ type: 'publish', user: process.env['USER'] || '', timestamp: new Date().toISOString() });
-    await this.webhookManager.sendEvent({
-      event: 'publish',
-      package: this.getPackageName(),
-      version: this.getPackageVersion(),
+    let result: PublishResult;
+    try {
+      const plugins = await new PluginLoader().load(this.config.config.plugins || []);
+      const publisher = new Publisher({ config: this.config, plugins, webhookManager: this.webhookManager });
+      if (options.pushTag) {
+        const { tagName, tagMessage } = this.config.config.versioning || {};
+        publisher.addStep(new GitTagPushStep(typeof options.pushTag === 'string' ? options.pushTag : 'origin', { tagName, tagMessage }));
+      }
+
+      result = await publisher.publish({
+        tag: options.tag,
+        registry: options.registry || this.config.config.registry,
+        access: options.access,
+        otp: options.otp,
+        approval
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.publishBlocked(message);
+      const rollback = error instanceof PublishError ? error.result?.rollback : undefined;
+      let outcome = '';
+      if (rollback?.restoredVersion) {
+        outcome = `↩️ Rolled back: the dist-tag points at ${rollback.restoredVersion} again`;
+        logger.warn(outcome);
+      } else if (rollback?.deprecated) {
+        outcome = `↩️ Rolled back: the version was deprecated ("${rollback.deprecated}")`;
+        logger.warn(outcome);
+      } else if (rollback) {
+        outcome = 'Rollback failed; fix the dist-tags manually';
+        logger.error(outcome);
+      }
+      await notifier.publish({
+        ...release,
+        type: 'publish',
+        severity: rollback && !rollback.restoredVersion && !rollback.deprecated ? 'critical' : 'high',
+        title: `Publish of ${verdict.package}@${verdict.version} failed`,
+        message: [message, outcome].filter(Boolean).join('\n')
+      });
+      process.exit(1);
+    }
+
+    logger.success(`✅ Published ${result.name}@${result.version} (${result.tag})`);
+    logger.info(`  🔒 Integrity: ${result.integrity}`);
+    logger.info(`  📦 ${result.tarball}, ${(result.size / 1024).toFixed(1)} KB`);
+
+    const approvedBy = result.approval ? `${result.approval.approver.platform}:${result.approval.approver.id}` : undefined;
+    this.analytics.recordEvent({
+      type: 'publish',
+      user: process.env['USER'] || '',
       timestamp: new Date().toISOString(),
-      data: { user: process.env['USER'] || '' }
+      details: { package: result.name, version: result.version, tag: result.tag, approval: result.approval }
     });
+    const data = {
+      user: process.env['USER'] || '',
+      tag: result.tag,
+      registry: result.registry,
+      integrity: result.integrity,
+      shasum: result.shasum,
+      approvedBy
+    };
+    const published: NotificationInput = {
+      ...release,
+      type: 'publish',
+      severity: 'info',
+      package: result.name,
+      version: result.version,
+      title: `Published ${result.name}@${result.version}`,
+      message: `${result.name}@${result.version} is on ${result.registry} under ${result.tag}`,
+      data
+    };
+    // A url-less webhook channel already delivers to the registered webhooks
+    const viaRouter = notifier.routesTo(this.webhookManager, published);
+    await notifier.publish(published);
+    if (!viaRouter) {
+      await this.webhookManager.sendEvent({
+        event: 'publish',
+        package: result.name,
+        version: result.version,
+        timestamp: new Date().toISOString(),
+        data
+      });
+    }
+  }
+
+  /**
+   * Post an approval request to Slack and Discord and wait for a decision; exits unless approved
+   */
+  private async awaitApproval(verdict: PolicyVerdict, notifier: NotificationRouter, release: Partial<NotificationEvent>, options: any): Promise<PublishApproval> {
+    const config = this.config.config;
+    const { slack, discordWebhookUrl } = chatSettings(config);
+    const timeout = options.approvalTimeout ? Number(options.approvalTimeout) : config.approvals?.timeout || DEFAULT_APPROVAL_TIMEOUT;
+
+    const gate = new ApprovalGate({
+      approvers: config.approvals?.approvers || [],
+      timeout,
+      slack: slack.botToken || slack.webhookUrl ? new SlackIntegration(slack) : undefined,
+      discord: discordWebhookUrl ? new DiscordIntegration({ webhookUrl: discordWebhookUrl }) : undefined
+    });
+
+    if (!(timeout > 0)) {
+      logger.error(`Invalid approval timeout: ${options.approvalTimeout}`);
+      process.exit(1);
+    }
+
+    let decided: ApprovalRequest;
+    try {
+      const request = await gate.request({
+        package: verdict.package,
+        version: verdict.version,
+        tag: options.tag || verdict.tag,
+        requestedBy: process.env['USER']
+      });
+      logger.info(`🔐 Waiting up to ${Math.round(timeout / 60)} minute(s) for approval (request ${request.id})...`);
+      decided = await gate.waitForDecision(request.id);
+    } catch (error) {
+      logger.publishBlocked(`Approval failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    if (decided.status !== 'approved' || !decided.decidedBy) {
+      const reason = decided.status === 'rejected'
+        ? `rejected by ${decided.decidedBy?.name || decided.decidedBy?.id}`
+        : 'not approved in time';
+      logger.publishBlocked(`Publish ${reason}`);
+      await notifier.publish({
+        ...release,
+        type: 'publish',
+        severity: 'high',
+        title: `Publish of ${verdict.package}@${verdict.version} ${decided.status}`,
+        message: `The publish was ${reason}`
+      });
+      process.exit(1);
+    }
+
+    logger.success(`✅ Approved by ${decided.decidedBy.name || decided.decidedBy.id}`);
+    return { requestId: decided.id, approver: decided.decidedBy, approvedAt: decided.decidedAt || new Date().toISOString() };
   }
 
   private async changelog(options: any): Promise<void> {
     logger.info('📝 Generating changelog...');
 
     try {
-      const versioner = new SemanticVersioner();
+      const versioner = new SemanticVersioner({ tagFormat: this.config.config.versioning?.tagName });
       const packageJson = JSON.parse(await import('fs').then(fs => fs.readFileSync('package.json', 'utf-8')));
       const changelog = await versioner.generateChangelog(packageJson.version, options.since);
 
@@ -1393,18 +2316,25 @@ class NPMSafeCLI {
   private async unpublish(options: any): Promise<void> {
     logger.info('⛔ Analyzing unpublish impact...');
 
-    // Simulate impact analysis
-    const impact = {
-      downloads: 5203,
-      dependents: 12,
-      dependentPackages: ['package-a', 'package-b', 'package-c'],
-      riskLevel: 'medium' as const,
-      warnings: ['This version has active dependents']
-    };
+    const name = this.getPackageName();
+    const version = options.all ? undefined : options.version || this.getPackageVersion();
+    const analyzer = new UnpublishAnalyzer({
+      client: new RegistryClient({ registry: options.registry || this.config.config.registry })
+    });
+
+    let impact: UnpublishImpact;
+    try {
+      impact = await analyzer.analyze(name, version);
+    } catch (error) {
+      logger.error(`Could not analyze the unpublish: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
 
-    logger.warn(`⚠️ Impact Analysis:`);
+    logger.warn(`⚠️ Impact Analysis for ${version ? `${name}@${version}` : `all versions of ${name}`}:`);
     logger.warn(`  📥 Downloads/week: ${impact.downloads}`);
-    logger.warn(`  📦 Dependent packages: ${impact.dependents}`);
+    if (impact.publishedAt) {
+      logger.warn(`  🕒 Published: ${impact.publishedAt}`);
+    }
     logger.warn(`  ⚠️ Risk level: ${impact.riskLevel.toUpperCase()}`);
 
     if (impact.warnings.length > 0) {
@@ -1414,6 +2344,22 @@ class NPMSafeCLI {
       });
     }
 
+    if (!impact.allowed) {
+      logger.error('The registry would reject this unpublish under npm\'s unpublish policy:');
+      impact.policyViolations.forEach(violation => {
+        logger.error(`  • ${violation}`);
+      });
+    }
+
+    logger.info('Alternatives:');
+    impact.alternatives.forEach(alternative => {
+      logger.info(`  • ${alternative.description}: ${alternative.command}`);
+    });
+
+    if (!impact.allowed && !options.force) {
+      process.exit(1);
+    }
+
     if (!options.force) {
       const answer = await inquirer.prompt([
         {
@@ -1435,75 +2381,101 @@ class NPMSafeCLI {
 
     await this.webhookManager.sendEvent({
       event: 'unpublish',
-      package: this.getPackageName(),
-      version: options.version || this.getPackageVersion(),
+      package: name,
+      version: version || '*',
       timestamp: new Date().toISOString(),
-      data: { user: process.env['USER'] || '' }
+      data: { user: process.env['USER'] || '', riskLevel: impact.riskLevel, downloads: impact.downloads }
     });
   }
 
-  private async status(): Promise<void> {
-    logger.info('📊 Project Status:');
+  private async status(options: any): Promise<void> {
+    const verdict = await this.evaluatePolicy({ tag: options.tag });
 
-    const status = {
-      'Git Status': 'clean',
-      'CI Status': 'passing',
-      'Secrets Found': 0,
-      'Version': '1.0.0',
-      'Files to Publish': 4,
-      'Warnings': 0,
-      'Errors': 0
+    if (options.format === 'json') {
+      console.log(JSON.stringify(verdict, null, 2));
+      return;
+    }
+
+    logger.info('📊 Project Status:');
+    const check = (name: string) => verdict.checks.find(entry => entry.name === name);
+    const describe = (name: string) => {
+      const entry = check(name);
+      if (!entry || entry.status === 'skipped') return 'skipped';
+      return entry.status === 'passed' ? 'passing' : entry.reasons[0];
     };
 
-    logger.summary(status);
+    logger.summary({
+      'Decision': verdict.decision,
+      'Git Status': describe('git'),
+      'CI Status': describe('ci'),
+      'Secrets Found': check('secrets')?.details?.['failing'] ?? 'unknown',
+      'Version': `${verdict.version} (${verdict.tag})`,
+      'Files to Publish': check('size-budget')?.details?.['files'] ?? 'unknown',
+      'Warnings': verdict.summary.warnings,
+      'Errors': verdict.summary.blocking
+    });
   }
 
-  private async runSafetyChecks(): Promise<{ allPassed: boolean; checks: any[] }> {
-    const checks = [];
-
-    // Git status check
+  /**
+   * Run the configured checks for this package, branch and dist-tag. `publish`, `workflow`
+   * and `status` all judge a release by this verdict.
+   */
+  private async evaluatePolicy(options: { tag?: string; only?: string[] } = {}): Promise<PolicyVerdict> {
+    const config = this.config.config;
+    const cwd = process.cwd();
+    const packageJson = JSON.parse(readFileSync(path.join(cwd, 'package.json'), 'utf-8'));
+
+    let branch: string | undefined;
+    let commit: string | undefined;
     try {
-      const gitStatus = await this.checkGitStatus();
-      checks.push({ name: 'Git Status', passed: gitStatus.isClean });
+      const git = await new GitChecker({ cwd }).getStatus();
+      branch = git.currentBranch === 'HEAD' ? undefined : git.currentBranch;
+      commit = git.lastCommit || undefined;
     } catch (error) {
-      checks.push({ name: 'Git Status', passed: false, error });
+      logger.debug(`Not reading git state: ${error}`);
     }
 
-    // Secret scan
-    try {
-      const scanner = new SecretScanner();
-      const secrets = await scanner.scan();
-      checks.push({ name: 'Secret Scan', passed: secrets.length === 0 });
-    } catch (error) {
-      checks.push({ name: 'Secret Scan', passed: false, error });
-    }
-
-    // CI status check
-    try {
-      const ciStatus = await this.checkCIStatus();
-      checks.push({ name: 'CI Status', passed: ciStatus.isPassing });
-    } catch (error) {
-      checks.push({ name: 'CI Status', passed: false, error });
-    }
-
-    const allPassed = checks.every(check => check.passed);
+    // `gitChecks: false` and `requireCI: false` predate the policy and still turn those checks off
+    const legacy: Record<string, CheckAction> = {
+      ...(config.gitChecks === false ? { git: 'off' } : {}),
+      ...(config.requireCI === false ? { ci: 'off' } : {})
+    };
+    const plugins = await new PluginLoader().load(config.plugins || []);
+    const engine = new PolicyEngine({
+      checks: [...createBuiltinChecks(), ...plugins.flatMap(plugin => plugin.checks || [])],
+      policy: { ...config.policy, checks: { ...legacy, ...config.policy?.checks } }
+    });
 
-    return { allPassed, checks };
+    return engine.evaluate({
+      cwd,
+      config: this.config,
+      packageJson,
+      tag: options.tag || SemanticVersioner.distTag(packageJson.version, config.channels) || config.tag || 'latest',
+      registry: config.registry || DEFAULT_REGISTRY,
+      branch,
+      commit
+    }, { only: options.only });
   }
 
-  private async checkGitStatus(): Promise<any> {
-    // TODO: Implement git status check
-    return { isClean: true, uncommittedFiles: [] };
-  }
+  private reportVerdict(verdict: PolicyVerdict): void {
+    for (const check of verdict.checks) {
+      if (check.status === 'skipped') continue;
+      if (check.status === 'passed') {
+        logger.debug(`✅ ${check.name}: ${check.description}`);
+        continue;
+      }
+
+      const report = check.blocking ? logger.error.bind(logger) : logger.warn.bind(logger);
+      report(`${check.blocking ? '❌' : '⚠️'} ${check.name} (${check.severity}${check.blocking ? ', blocking' : ''}):`);
+      check.reasons.forEach(reason => report(`  • ${reason}`));
+    }
 
-  private async checkCIStatus(): Promise<any> {
-    // TODO: Implement CI status check
-    return { isPassing: true, provider: 'unknown' };
+    logger.info(`Verdict: ${verdict.decision} (${verdict.summary.passed} passed, ${verdict.summary.warnings} warnings, ${verdict.summary.blocking} blocking)`);
   }
 
   private getPackageName(): string {
     try {
-      const pkg = JSON.parse(require('fs').readFileSync('package.json', 'utf-8'));
+      const pkg = JSON.parse(readFileSync('package.json', 'utf-8'));
       return pkg.name || 'unknown';
     } catch {
       return 'unknown';
@@ -1512,15 +2484,18 @@ class NPMSafeCLI {
 
   private getPackageVersion(): string {
     try {
-      const pkg = JSON.parse(require('fs').readFileSync('package.json', 'utf-8'));
+      const pkg = JSON.parse(readFileSync('package.json', 'utf-8'));
       return pkg.version || 'unknown';
     } catch {
       return 'unknown';
     }
   }
 
-  public run(): void {
-    this.program.parse();
+  public async run(): Promise<void> {
+    const command = process.argv.slice(2).find(arg => !arg.startsWith('-'));
+    this.config = await this.loadConfig(command === 'init');
+    this.webhookManager = new WebhookManager(this.config.config.webhooks || [], { storePath: defaultWebhookStore() });
+    await this.program.parseAsync();
   }
 }
 
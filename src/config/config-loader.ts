@@ -0,0 +1,451 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { NPMSafeConfig } from '../types/index.js';
+import { PatternPackLoader, patternDefinitionSchema } from '../scanners/pattern-packs.js';
+import logger from '../utils/logger.js';
+
+/**
+ * The file `npmsafe init` writes
+ */
+export const DEFAULT_CONFIG_FILE = '.npmsafe.json';
+
+/**
+ * Project config files, lowest precedence first
+ */
+export const PROJECT_CONFIG_FILES = [
+  '.npmsaferc',
+  '.npmsaferc.json',
+  '.npmsaferc.yaml',
+  '.npmsaferc.yml',
+  '.npmsaferc.js',
+  '.npmsaferc.cjs',
+  DEFAULT_CONFIG_FILE
+];
+
+export const USER_CONFIG_FILES = ['.npmsaferc', '.npmsaferc.json', '.npmsaferc.yaml', '.npmsaferc.yml'];
+
+export const ENV_PREFIX = 'NPMSAFE_';
+
+export const DEFAULT_CONFIG: NPMSafeConfig = {
+  version: '1.0.0',
+  config: {
+    requireCI: true,
+    blockPublishOnSecret: true,
+    webhooks: [],
+    plugins: [],
+    secretPatterns: [],
+    allowedSecrets: [],
+    registry: 'https://registry.npmjs.org/',
+    tag: 'latest',
+    dryRun: false,
+    autoVersion: true,
+    changelog: true,
+    gitChecks: true,
+    releaseBranches: ['main', 'master'],
+    requireTag: false,
+    impactAnalysis: true,
+    encryption: {
+      enabled: false,
+      algorithm: 'aes-256-gcm'
+    },
+    githubToken: '',
+    githubRepo: ''
+  }
+};
+
+export interface ConfigSource {
+  /** `defaults`, `user`, `package.json`, `project` or `env` */
+  kind: 'defaults' | 'user' | 'package.json' | 'project' | 'env';
+  /** File path, or the environment variable names that were applied */
+  location: string;
+}
+
+export interface LoadedConfig {
+  config: NPMSafeConfig;
+  sources: ConfigSource[];
+}
+
+export interface ConfigLoaderOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Directory searched for the user-level config, the home directory by default */
+  userDir?: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid npmsafe config in ${source}:\n  ${issues.join('\n  ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const compiledPatternSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.instanceof(RegExp),
+  description: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  entropy: z.number().optional(),
+  keywords: z.array(z.string()).optional(),
+  allow: z.array(z.instanceof(RegExp)).optional()
+});
+
+const severitySchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const policyRulesSchema = {
+  blockAt: severitySchema.optional(),
+  checks: z.record(z.union([
+    z.enum(['auto', 'block', 'warn', 'off']),
+    z.object({
+      action: z.enum(['auto', 'block', 'warn', 'off']).optional(),
+      severity: severitySchema.optional(),
+      options: z.record(z.unknown()).optional()
+    }).strict()
+  ])).optional()
+};
+
+const notificationEventSchema = z.enum(['publish', 'security-alert', 'deployment', 'scan', 'test', 'monitor-alert']);
+const notificationSeveritySchema = z.enum(['info', 'low', 'medium', 'high', 'critical']);
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time such as 22:00');
+
+const configSchema = z.object({
+  requireCI: z.boolean(),
+  blockPublishOnSecret: z.union([z.boolean(), z.literal('verified')]),
+  webhooks: z.array(z.string().url()),
+  plugins: z.array(z.string()),
+  secretPatterns: z.array(z.union([patternDefinitionSchema, compiledPatternSchema])),
+  patternPacks: z.array(z.string()),
+  allowedSecrets: z.array(z.string()),
+  registry: z.string().url(),
+  tag: z.string().min(1),
+  dryRun: z.boolean(),
+  autoVersion: z.boolean(),
+  changelog: z.boolean(),
+  gitChecks: z.boolean(),
+  releaseBranches: z.array(z.string().min(1)),
+  requireTag: z.boolean(),
+  channels: z.record(z.string().min(1)),
+  policy: z.object({
+    ...policyRulesSchema,
+    overrides: z.array(z.object({
+      branch: z.string().min(1).optional(),
+      tag: z.string().min(1).optional(),
+      ...policyRulesSchema
+    }).strict()).optional()
+  }).strict(),
+  notifications: z.object({
+    channels: z.record(z.object({
+      type: z.enum(['slack', 'discord', 'webhook']),
+      url: z.string().url().optional(),
+      token: z.string().min(1).optional(),
+      apiUrl: z.string().url().optional(),
+      channel: z.string().optional(),
+      username: z.string().optional()
+    }).strict()),
+    routes: z.array(z.object({
+      events: z.array(notificationEventSchema).optional(),
+      severity: notificationSeveritySchema.optional(),
+      packages: z.array(z.string().min(1)).optional(),
+      branches: z.array(z.string().min(1)).optional(),
+      channels: z.array(z.string().min(1)).min(1)
+    }).strict()),
+    templates: z.record(z.record(notificationEventSchema, z.string())),
+    dedupeWindow: z.number().nonnegative(),
+    rateLimit: z.object({
+      max: z.number().int().positive(),
+      window: z.number().positive()
+    }).strict(),
+    quietHours: z.object({
+      start: clockSchema,
+      end: clockSchema,
+      timezone: z.string().min(1).optional(),
+      allow: notificationSeveritySchema.optional()
+    }).strict()
+  }).partial().strict(),
+  approvals: z.object({
+    approvers: z.array(z.string().min(1)),
+    timeout: z.number().positive(),
+    slackSigningSecret: z.string().min(1),
+    discordPublicKey: z.string().regex(/^[0-9a-f]{64}$/i, 'Expected the 64-character hex public key')
+  }).partial().strict(),
+  impactAnalysis: z.boolean(),
+  verifySecrets: z.boolean(),
+  blockUnverifiedSecrets: z.boolean(),
+  secretValidators: z.array(z.object({
+    name: z.string().min(1),
+    patterns: z.array(z.string()),
+    url: z.string().url(),
+    method: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.string().optional(),
+    liveStatus: z.array(z.number().int()).optional(),
+    revokedStatus: z.array(z.number().int()).optional(),
+    timeout: z.number().positive().optional()
+  }).strict()),
+  encryption: z.object({
+    enabled: z.boolean(),
+    algorithm: z.string(),
+    keyPath: z.string()
+  }).partial().strict(),
+  versioning: z.object({
+    commit: z.boolean(),
+    tag: z.boolean(),
+    commitMessage: z.string().min(1),
+    tagName: z.string().min(1),
+    tagMessage: z.string().min(1),
+    versionFile: z.string().min(1),
+    versionPattern: z.string().min(1)
+  }).partial().strict(),
+  githubToken: z.string(),
+  githubRepo: z.string(),
+  githubApiUrl: z.string().url(),
+  slackWebhookUrl: z.string(),
+  slackBotToken: z.string(),
+  slackChannel: z.string(),
+  slackApiUrl: z.string().url(),
+  discordWebhookUrl: z.string(),
+  linearApiKey: z.string(),
+  linearTeamId: z.string(),
+  jiraUrl: z.string(),
+  jiraUsername: z.string(),
+  jiraApiToken: z.string(),
+  jiraProjectKey: z.string()
+}).partial().passthrough();
+
+type ConfigLayer = Record<string, unknown>;
+
+/**
+ * Loads configuration from every supported source and merges it, later sources winning:
+ *
+ * 1. built-in defaults
+ * 2. the user-level file (`~/.npmsaferc`, `~/.npmsaferc.json`, `~/.npmsaferc.yaml`)
+ * 3. the `"npmsafe"` key in package.json
+ * 4. project files, in `PROJECT_CONFIG_FILES` order
+ * 5. `NPMSAFE_*` environment variables
+ *
+ * Objects are merged key by key; arrays and other values are replaced.
+ */
+export class ConfigLoader {
+  private cwd: string;
+  private env: NodeJS.ProcessEnv;
+  private userDir: string;
+
+  constructor(options: ConfigLoaderOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.env = options.env || process.env;
+    this.userDir = options.userDir || homedir();
+  }
+
+  static defaults(): NPMSafeConfig {
+    // Plain JSON values only; structuredClone is missing on Node 16
+    return JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  }
+
+  /**
+   * Check a config object, throwing a `ConfigValidationError` that lists every problem
+   */
+  static validate(config: unknown, source = 'config'): NPMSafeConfig['config'] {
+    const parsed = configSchema.safeParse(withRegexStrings(config));
+    if (!parsed.success) {
+      throw new ConfigValidationError(source, parsed.error.issues.map(issue => {
+        const key = issue.path.join('.') || '(root)';
+        if (issue.code === 'unrecognized_keys') {
+          return `${key === '(root)' ? '' : `${key}: `}unknown option(s) ${issue.keys.map(name => `"${name}"`).join(', ')}`;
+        }
+        return `${key}: ${issue.message}`;
+      }));
+    }
+
+    // Sections read by plugins and other tools are kept, but a typo should not pass silently
+    const unknown = Object.keys(parsed.data).filter(key => !(key in configSchema.shape));
+    if (unknown.length > 0) {
+      logger.warn(`Unknown option(s) in ${source}: ${unknown.join(', ')}`);
+    }
+    return parsed.data as NPMSafeConfig['config'];
+  }
+
+  async load(): Promise<LoadedConfig> {
+    const sources: ConfigSource[] = [{ kind: 'defaults', location: 'built-in' }];
+    const config = ConfigLoader.defaults();
+
+    const apply = (layer: ConfigLayer | null, source: ConfigSource) => {
+      if (!layer) return;
+      const { version, config: values } = this.unwrap(layer);
+      config.config = mergeConfig(config.config, ConfigLoader.validate(values, source.location));
+      if (version) config.version = version;
+      sources.push(source);
+    };
+
+    for (const file of USER_CONFIG_FILES) {
+      const filePath = path.join(this.userDir, file);
+      apply(await this.readFile(filePath), { kind: 'user', location: filePath });
+    }
+
+    const packagePath = path.join(this.cwd, 'package.json');
+    if (existsSync(packagePath)) {
+      const pkg = this.parse(readFileSync(packagePath, 'utf-8'), packagePath);
+      if (pkg.npmsafe !== undefined) {
+        if (!pkg.npmsafe || typeof pkg.npmsafe !== 'object' || Array.isArray(pkg.npmsafe)) {
+          throw new ConfigValidationError(packagePath, ['npmsafe: Expected an object']);
+        }
+        apply(pkg.npmsafe as ConfigLayer, { kind: 'package.json', location: packagePath });
+      }
+    }
+
+    for (const file of PROJECT_CONFIG_FILES) {
+      const filePath = path.join(this.cwd, file);
+      apply(await this.readFile(filePath), { kind: 'project', location: filePath });
+    }
+
+    const envLayer = this.readEnv();
+    if (Object.keys(envLayer.values).length > 0) {
+      apply(envLayer.values, { kind: 'env', location: envLayer.names.join(', ') });
+    }
+
+    config.config.secretPatterns = PatternPackLoader.normalize(config.config.secretPatterns || []);
+    logger.debug(`Loaded config from ${sources.map(source => source.location).join(' < ')}`);
+    return { config, sources };
+  }
+
+  /**
+   * Write a config file; JSON unless the name ends in `.yaml`/`.yml`
+   */
+  static write(config: NPMSafeConfig, filePath: string = DEFAULT_CONFIG_FILE): string {
+    ConfigLoader.validate(config.config, filePath);
+    const text = /\.ya?ml$/.test(filePath) ? YAML.stringify(config) : JSON.stringify(config, null, 2) + '\n';
+    writeFileSync(filePath, text);
+    return path.resolve(filePath);
+  }
+
+  /**
+   * Files may hold `{ version, config: {...} }`, as `npmsafe init` writes them, or the options directly
+   */
+  private unwrap(layer: ConfigLayer): { version?: string; config: unknown } {
+    const { version, ...values } = layer;
+    const wrapped = isPlainObject(values.config) ? (values.config as ConfigLayer) : null;
+    if (wrapped) delete values.config;
+    return {
+      version: typeof version === 'string' ? version : undefined,
+      config: wrapped ? { ...wrapped, ...values } : values
+    };
+  }
+
+  private async readFile(filePath: string): Promise<ConfigLayer | null> {
+    if (!existsSync(filePath)) return null;
+
+    if (/\.c?js$/.test(filePath)) {
+      const module = await import(pathToFileURL(filePath).href);
+      const value = module.default ?? module;
+      return (typeof value === 'function' ? await value() : value) as ConfigLayer;
+    }
+
+    return this.parse(readFileSync(filePath, 'utf-8'), filePath);
+  }
+
+  private parse(text: string, filePath: string): ConfigLayer {
+    let data: unknown;
+    try {
+      // YAML is a superset of JSON, so one parser covers .json, .yaml and the extensionless rc file
+      data = YAML.parse(text);
+    } catch (error) {
+      throw new ConfigValidationError(filePath, [`could not parse file: ${error instanceof Error ? error.message : error}`]);
+    }
+    if (data === null || data === undefined) return {};
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      throw new ConfigValidationError(filePath, ['(root): Expected an object']);
+    }
+    return data as ConfigLayer;
+  }
+
+  /**
+   * `NPMSAFE_REQUIRE_CI=false`, `NPMSAFE_ALLOWED_SECRETS=a,b`, `NPMSAFE_ENCRYPTION__ENABLED=true`.
+   * Values are read as JSON when they parse, arrays also accept comma-separated lists.
+   */
+  private readEnv(): { values: ConfigLayer; names: string[] } {
+    const keys = Object.keys(configSchema.shape);
+    const values: ConfigLayer = {};
+    const names: string[] = [];
+
+    for (const [name, raw] of Object.entries(this.env)) {
+      if (!name.startsWith(ENV_PREFIX) || raw === undefined) continue;
+
+      const [head, ...nested] = name.slice(ENV_PREFIX.length).split('__');
+      const key = keys.find(candidate => toEnvName(candidate) === head);
+      if (!key) continue;
+
+      const shape = configSchema.shape[key as keyof typeof configSchema.shape];
+      const value = nested.length === 0 ? parseEnvValue(raw, unwrapOptional(shape)) : parseEnvValue(raw);
+      if (nested.length === 0) {
+        values[key] = value;
+      } else if (nested.length === 1) {
+        values[key] = { ...(values[key] as ConfigLayer), [toCamelCase(nested[0])]: value };
+      } else {
+        continue;
+      }
+      names.push(name);
+    }
+
+    return { values, names: names.sort() };
+  }
+}
+
+/**
+ * Older configs give custom patterns as `"pattern": "<regex>"`; treat that as `regex`
+ */
+function withRegexStrings(config: unknown): unknown {
+  if (!isPlainObject(config) || !Array.isArray(config.secretPatterns)) return config;
+  return {
+    ...config,
+    secretPatterns: config.secretPatterns.map((pattern: unknown) => {
+      if (!isPlainObject(pattern) || typeof pattern.pattern !== 'string') return pattern;
+      const { pattern: regex, ...rest } = pattern;
+      return { regex, ...rest };
+    })
+  };
+}
+
+function mergeConfig<T extends Record<string, any>>(base: T, override: Partial<T>): T {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof RegExp);
+}
+
+function toEnvName(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function toCamelCase(name: string): string {
+  return name.toLowerCase().replace(/_([a-z0-9])/g, (_match, char: string) => char.toUpperCase());
+}
+
+function unwrapOptional(schema: z.ZodTypeAny): z.ZodTypeAny {
+  return schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+}
+
+function parseEnvValue(raw: string, schema?: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodString) return raw;
+
+  const trimmed = raw.trim();
+  if (/^(true|false|null|-?\d+(\.\d+)?)$/.test(trimmed) || /^[[{"]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Not JSON after all; fall through to a plain string
+    }
+  }
+  if (schema instanceof z.ZodArray) {
+    return trimmed ? trimmed.split(',').map(item => item.trim()).filter(Boolean) : [];
+  }
+  return raw;
+}
@@ -2,8 +2,7 @@ import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { Analytics } from '../analytics/analytics.js';
 import { WebhookManager } from '../webhooks/webhook.js';
-import { SlackIntegration } from '../integrations/slack.js';
-import { DiscordIntegration } from '../integrations/discord.js';
+import { NotificationRouter, createChatChannels } from '../notifications/notification-router.js';
 import { LinearIntegration } from '../integrations/linear.js';
 import { JiraIntegration } from '../integrations/jira.js';
 import { logger } from '../utils/logger.js';
@@ -41,6 +40,8 @@ export interface DeploymentConfig {
     performanceMonitoring: boolean;
     errorTracking: boolean;
   };
+  /** Where deployment events are published; built from `notifications` when not given */
+  notifier?: NotificationRouter;
 }
 
 export interface Environment {
@@ -152,8 +153,7 @@ export class DeploymentManager extends EventEmitter {
   private deployments: Deployment[] = [];
   private analytics!: Analytics;
   private webhookManager!: WebhookManager;
-  private slackIntegration?: SlackIntegration;
-  private discordIntegration?: DiscordIntegration;
+  private notifier!: NotificationRouter;
   private linearIntegration?: LinearIntegration;
   private jiraIntegration?: JiraIntegration;
 
@@ -246,17 +246,7 @@ export class DeploymentManager extends EventEmitter {
     this.analytics = new Analytics();
     this.webhookManager = new WebhookManager([]);
 
-    if (this.config.notifications.slack?.webhookUrl) {
-      this.slackIntegration = new SlackIntegration({
-        webhookUrl: this.config.notifications.slack.webhookUrl
-      });
-    }
-
-    if (this.config.notifications.discord?.webhookUrl) {
-      this.discordIntegration = new DiscordIntegration({
-        webhookUrl: this.config.notifications.discord.webhookUrl
-      });
-    }
+    this.notifier = this.config.notifier || new NotificationRouter({}, { channels: createChatChannels(this.config.notifications) });
 
     if (this.config.notifications.linear?.apiKey) {
       this.linearIntegration = new LinearIntegration({
@@ -627,16 +617,29 @@ export class DeploymentManager extends EventEmitter {
   }
 
   private async sendDeploymentNotifications(deployment: Deployment, event: string): Promise<void> {
-    const message = `🚀 **Deployment ${event.toUpperCase()}**: ${deployment.name} v${deployment.version} to ${deployment.environment}`;
+    const message = `Deployment ${event}: ${deployment.name} v${deployment.version} to ${deployment.environment}`;
+    const failed = deployment.status === 'failed' || deployment.status === 'rolled-back';
 
     try {
-      if (this.slackIntegration) {
-        await this.slackIntegration.sendMessage(message);
-      }
-
-      if (this.discordIntegration) {
-        await this.discordIntegration.sendMessage(message);
-      }
+      await this.notifier.publish({
+        type: 'deployment',
+        severity: failed ? 'high' : 'info',
+        package: deployment.name,
+        version: deployment.version,
+        branch: deployment.metadata.branch,
+        title: `Deployment ${event}`,
+        message,
+        data: {
+          deploymentId: deployment.id,
+          environment: deployment.environment,
+          strategy: deployment.strategy,
+          status: failed ? 'failure' : deployment.status === 'success' ? 'success' : 'pending',
+          duration: deployment.duration !== undefined ? Math.round(deployment.duration / 1000) : undefined,
+          logs: deployment.logs.map(log => log.message),
+          errors: deployment.logs.filter(log => log.level === 'error').map(log => log.message)
+        },
+        dedupeKey: `deployment:${deployment.id}:${event}`
+      });
 
       if (this.linearIntegration) {
         await this.linearIntegration.createIssue({
@@ -646,18 +649,6 @@ export class DeploymentManager extends EventEmitter {
           priority: 'Medium'
         });
       }
-
-      await this.webhookManager.sendEvent({
-        event: 'publish',
-        package: deployment.name,
-        version: deployment.version,
-        timestamp: new Date().toISOString(),
-        data: {
-          deploymentId: deployment.id,
-          environment: deployment.environment,
-          strategy: deployment.strategy
-        }
-      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       logger.error('Failed to send deployment notifications:', errorMessage);
@@ -0,0 +1,192 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+
+const execAsync = promisify(exec);
+
+export type GitHookName = 'pre-commit' | 'pre-push';
+
+export const GIT_HOOKS: GitHookName[] = ['pre-commit', 'pre-push'];
+
+export const DEFAULT_HOOK_COMMANDS: Record<GitHookName, string> = {
+  'pre-commit': 'npx --no-install npmsafe scan --staged',
+  'pre-push': 'npx --no-install npmsafe scan'
+};
+
+const BLOCK_START = '# >>> npmsafe >>>';
+const BLOCK_END = '# <<< npmsafe <<<';
+// Suffix for an existing hook that is not a shell script and so cannot hold the npmsafe block
+const CHAINED_SUFFIX = '.pre-npmsafe';
+
+export interface HookInstallerOptions {
+  cwd?: string;
+  commands?: Partial<Record<GitHookName, string>>;
+}
+
+export interface HookInstallResult {
+  hook: GitHookName;
+  path: string;
+  /** `chained` when an existing hook was kept and runs after npmsafe */
+  action: 'created' | 'chained' | 'updated';
+}
+
+export interface HookStatus {
+  hook: GitHookName;
+  path: string;
+  installed: boolean;
+  chained: boolean;
+}
+
+/**
+ * Installs git hooks without husky. npmsafe's part of a hook lives between marker comments,
+ * so hooks written by hand or by other tools keep working and can be uninstalled cleanly.
+ */
+export class HookInstaller {
+  private cwd: string;
+  private commands: Record<GitHookName, string>;
+
+  constructor(options: HookInstallerOptions = {}) {
+    this.cwd = options.cwd || process.cwd();
+    this.commands = { ...DEFAULT_HOOK_COMMANDS, ...options.commands };
+  }
+
+  /**
+   * The hooks directory git actually uses, which honours `core.hooksPath` and worktrees
+   */
+  async getHooksDir(): Promise<string> {
+    let directory: string;
+    try {
+      const { stdout } = await execAsync('git rev-parse --git-path hooks', { cwd: this.cwd, env: process.env, timeout: 10000 });
+      directory = path.resolve(this.cwd, stdout.trim());
+    } catch {
+      throw new Error(`Not a git repository: ${this.cwd}`);
+    }
+
+    if (directory === '/dev/null') {
+      throw new Error('Git hooks are disabled: core.hooksPath is set to /dev/null');
+    }
+    return directory;
+  }
+
+  async install(hooks: GitHookName[] = GIT_HOOKS): Promise<HookInstallResult[]> {
+    const directory = await this.getHooksDir();
+    mkdirSync(directory, { recursive: true });
+
+    return hooks.map(hook => {
+      const hookPath = path.join(directory, hook);
+      const block = this.renderBlock(hook);
+      let action: HookInstallResult['action'];
+
+      if (!existsSync(hookPath)) {
+        writeFileSync(hookPath, `#!/bin/sh\n${block}`);
+        action = 'created';
+      } else {
+        const existing = readFileSync(hookPath, 'utf-8');
+        if (existing.includes(BLOCK_START)) {
+          writeFileSync(hookPath, replaceBlock(existing, block));
+          action = 'updated';
+        } else if (isShellScript(existing)) {
+          writeFileSync(hookPath, insertBlock(existing, block));
+          action = 'chained';
+        } else {
+          // Run the original hook from a wrapper once npmsafe has passed
+          renameSync(hookPath, hookPath + CHAINED_SUFFIX);
+          writeFileSync(hookPath, `#!/bin/sh\n${block}exec "$(dirname "$0")/${hook}${CHAINED_SUFFIX}" "$@"\n`);
+          action = 'chained';
+        }
+      }
+
+      chmodSync(hookPath, 0o755);
+      logger.debug(`${action} ${hook} hook at ${hookPath}`);
+      return { hook, path: hookPath, action };
+    });
+  }
+
+  /**
+   * Remove npmsafe from the hooks, restoring whatever ran before it was installed
+   */
+  async uninstall(hooks: GitHookName[] = GIT_HOOKS): Promise<GitHookName[]> {
+    const directory = await this.getHooksDir();
+    const removed: GitHookName[] = [];
+
+    for (const hook of hooks) {
+      const hookPath = path.join(directory, hook);
+      if (!existsSync(hookPath)) continue;
+
+      const existing = readFileSync(hookPath, 'utf-8');
+      if (!existing.includes(BLOCK_START)) continue;
+
+      if (existsSync(hookPath + CHAINED_SUFFIX)) {
+        renameSync(hookPath + CHAINED_SUFFIX, hookPath);
+      } else {
+        const remaining = replaceBlock(existing, '');
+        if (remaining.replace(/^#!.*$/m, '').trim() === '') {
+          unlinkSync(hookPath);
+        } else {
+          writeFileSync(hookPath, remaining);
+        }
+      }
+      removed.push(hook);
+    }
+
+    return removed;
+  }
+
+  async status(): Promise<HookStatus[]> {
+    const directory = await this.getHooksDir();
+
+    return GIT_HOOKS.map(hook => {
+      const hookPath = path.join(directory, hook);
+      const content = existsSync(hookPath) ? readFileSync(hookPath, 'utf-8') : '';
+      const installed = content.includes(BLOCK_START);
+      const others = replaceBlock(content, '').replace(/^#!.*$/m, '').trim();
+      return {
+        hook,
+        path: hookPath,
+        installed,
+        chained: installed && (others !== '' || existsSync(hookPath + CHAINED_SUFFIX))
+      };
+    });
+  }
+
+  private renderBlock(hook: GitHookName): string {
+    return [
+      BLOCK_START,
+      '# Added by `npmsafe hooks install`; remove with `npmsafe hooks uninstall`',
+      `${this.commands[hook]} || exit $?`,
+      BLOCK_END,
+      ''
+    ].join('\n');
+  }
+}
+
+function isShellScript(content: string): boolean {
+  const shebang = content.match(/^#!(.*)$/m);
+  return !content.startsWith('#!') || Boolean(shebang && /\b(sh|bash|zsh|dash|ksh)\b/.test(shebang[1]));
+}
+
+/**
+ * Put the block straight after the shebang so an `exit 0` later in the hook cannot skip it
+ */
+function insertBlock(content: string, block: string): string {
+  if (!content.startsWith('#!')) {
+    return `${block}${content}`;
+  }
+  const newline = content.indexOf('\n');
+  if (newline === -1) {
+    return `${content}\n${block}`;
+  }
+  return `${content.slice(0, newline + 1)}${block}${content.slice(newline + 1)}`;
+}
+
+function replaceBlock(content: string, block: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+  if (start === -1 || end === -1) return content;
+
+  let after = end + BLOCK_END.length;
+  if (content[after] === '\n') after++;
+  return content.slice(0, start) + block + content.slice(after);
+}
@@ -21,7 +21,26 @@ import type {
 } from './types/index.js';
 
 import { SecretScanner } from './scanners/secret-scanner.js';
+import { HistoryScanner } from './scanners/history-scanner.js';
+import type { HistoryScanOptions } from './scanners/history-scanner.js';
+import { ParallelSecretScanner } from './scanners/parallel-scanner.js';
+import type { ParallelScanOptions } from './scanners/parallel-scanner.js';
+import type { ScanReportFormat } from './scanners/report-formatter.js';
+import { HttpSecretValidator } from './scanners/secret-verifier.js';
+import type { SecretValidator } from './scanners/secret-verifier.js';
+import { PatternPackLoader } from './scanners/pattern-packs.js';
+import { ConfigLoader } from './config/config-loader.js';
+import { Publisher } from './publishing/publisher.js';
+import type { PostPublishStep, PublishResult } from './publishing/publisher.js';
+import { PublishSimulator } from './publishing/publish-simulator.js';
+import type { SimulationOptions } from './publishing/publish-simulator.js';
+import { RegistryClient } from './registry/registry-client.js';
+import { UnpublishAnalyzer } from './registry/unpublish-analyzer.js';
+import { PluginLoader } from './plugins/plugin-loader.js';
+import type { ConfigLoaderOptions } from './config/config-loader.js';
 import { SemanticVersioner } from './versioning/semantic-versioner.js';
+import { VersionWriter } from './versioning/version-writer.js';
+import type { VersionWriteOptions, VersionWriteResult } from './versioning/version-writer.js';
 import { logger, NPMSafeLogger } from './utils/logger.js';
 
 // Type exports
@@ -36,10 +55,28 @@ export type {
   GitStatus,
   CIStatus,
   UnpublishImpact,
+  UnpublishAlternative,
+  SafetyCheckResult,
+  Check,
+  CheckAction,
+  CheckContext,
+  CheckOutcome,
+  CheckPolicy,
+  CheckSeverity,
+  CheckVerdict,
+  PolicyConfig,
+  PolicyOverride,
+  PolicyRules,
+  PolicyVerdict,
+  WebhookEvent,
   WebhookPayload,
   Plugin,
   CLICommand,
   ScanOptions,
+  SecretVerification,
+  HttpSecretValidatorConfig,
+  PatternDefinition,
+  PatternPack,
   VersionOptions,
   PublishOptions,
   MiddlewareOptions,
@@ -100,21 +137,182 @@ export type {
   SecretAuditHistory
 } from './audit/secret-diff-auditor.js';
 
+// Scanner type exports
+export type {
+  PackedFile,
+  PackManifest,
+  PackageEntry
+} from './scanners/package-contents.js';
+
+export type { HistoryScanOptions } from './scanners/history-scanner.js';
+
+export type {
+  BaselineEntry,
+  BaselineFile,
+  BaselineComparison
+} from './scanners/secret-baseline.js';
+
+export type { ScanReportFormat } from './scanners/report-formatter.js';
+
+export type { SecretValidator } from './scanners/secret-verifier.js';
+
+export type { ParallelScanOptions } from './scanners/parallel-scanner.js';
+
+export type {
+  ContentExtractor,
+  ExtractedEntry,
+  ExtractedContent,
+  ExtractionOptions
+} from './scanners/content-extractors.js';
+
+export type { PatternPackFormat, PatternExampleFailure } from './scanners/pattern-packs.js';
+
+export type {
+  ConfigSource,
+  LoadedConfig,
+  ConfigLoaderOptions
+} from './config/config-loader.js';
+
+export type {
+  PackResult,
+  PublishResult,
+  RollbackResult,
+  PostPublishStep,
+  PublisherOptions,
+  GitTagPushOptions
+} from './publishing/publisher.js';
+
+export type { SimulationOptions, PublishSimulatorOptions } from './publishing/publish-simulator.js';
+
+export type {
+  Packument,
+  PackumentVersion,
+  RegistryClientOptions
+} from './registry/registry-client.js';
+
+export type { UnpublishAnalyzerOptions } from './registry/unpublish-analyzer.js';
+
+export type { GitCheckerOptions } from './safety/git-checker.js';
+
+export type { CIProvider, CIEnvironment, CICheckerOptions } from './safety/ci-checker.js';
+
+export type {
+  VersionWriterOptions,
+  VersionWriteOptions,
+  VersionWriteResult
+} from './versioning/version-writer.js';
+
+export type { ResolvedPolicy, PolicyEngineOptions, EvaluateOptions } from './policy/policy-engine.js';
+
+export type { StagedFilesOptions } from './scanners/staged-files.js';
+
+export type {
+  GitHookName,
+  HookInstallerOptions,
+  HookInstallResult,
+  HookStatus
+} from './hooks/hook-installer.js';
+
 // Main library exports
 export { SecretScanner } from './scanners/secret-scanner.js';
+export { PackageContents } from './scanners/package-contents.js';
+export { HistoryScanner } from './scanners/history-scanner.js';
+export { SecretBaseline } from './scanners/secret-baseline.js';
+export { ScanReportFormatter } from './scanners/report-formatter.js';
+export { ParallelSecretScanner } from './scanners/parallel-scanner.js';
+export {
+  ContentExtraction,
+  ZipExtractor,
+  TarExtractor,
+  GzipExtractor,
+  NotebookExtractor,
+  SourceMapExtractor,
+  BundleExtractor
+} from './scanners/content-extractors.js';
+export {
+  SecretVerifier,
+  GitHubTokenValidator,
+  StripeKeyValidator,
+  PrivateKeyValidator,
+  HttpSecretValidator,
+  blockingSecrets
+} from './scanners/secret-verifier.js';
+export {
+  PatternPackLoader,
+  PatternPackStore,
+  PATTERN_PACK_VERSION,
+  DEFAULT_PATTERN_PACK_DIR
+} from './scanners/pattern-packs.js';
+export { BUILTIN_PACKS } from './scanners/packs/index.js';
+export { StagedFiles } from './scanners/staged-files.js';
+export { Publisher, PublishError, GitTagPushStep, DEFAULT_REGISTRY } from './publishing/publisher.js';
+export { PublishSimulator, formatSize } from './publishing/publish-simulator.js';
+export { RegistryClient, DEFAULT_REGISTRY_URL, DEFAULT_DOWNLOADS_URL, encodePackageName } from './registry/registry-client.js';
+export {
+  UnpublishAnalyzer,
+  UNPUBLISH_WINDOW_HOURS,
+  UNPUBLISH_MAX_WEEKLY_DOWNLOADS
+} from './registry/unpublish-analyzer.js';
+export { GitChecker, DEFAULT_RELEASE_BRANCHES } from './safety/git-checker.js';
+export { CIChecker, DEFAULT_GITHUB_API_URL } from './safety/ci-checker.js';
+export { PolicyEngine, DEFAULT_POLICY, SEVERITIES } from './policy/policy-engine.js';
+export {
+  createBuiltinChecks,
+  SecretsCheck,
+  LicensesCheck,
+  VulnerabilitiesCheck,
+  GitCheck,
+  CICheck,
+  SizeBudgetCheck,
+  VersionCheck
+} from './policy/checks.js';
+export { PluginLoader } from './plugins/plugin-loader.js';
+export {
+  ConfigLoader,
+  ConfigValidationError,
+  DEFAULT_CONFIG,
+  DEFAULT_CONFIG_FILE
+} from './config/config-loader.js';
+export { HookInstaller, GIT_HOOKS, DEFAULT_HOOK_COMMANDS } from './hooks/hook-installer.js';
 export { SemanticVersioner } from './versioning/semantic-versioner.js';
+export {
+  VersionWriter,
+  VersionWriteError,
+  DEFAULT_COMMIT_MESSAGE,
+  DEFAULT_TAG_NAME,
+  DEFAULT_TAG_MESSAGE,
+  DEFAULT_VERSION_PATTERN
+} from './versioning/version-writer.js';
+export { setJsonString } from './utils/json-edit.js';
 export { logger, NPMSafeLogger } from './utils/logger.js';
 
 // Integration exports
 export { GitHubIntegration } from './integrations/github.js';
-export { SlackIntegration } from './integrations/slack.js';
+export { SlackIntegration, SlackApiError } from './integrations/slack.js';
 export { DiscordIntegration } from './integrations/discord.js';
 export { JiraIntegration } from './integrations/jira.js';
 export { LinearIntegration } from './integrations/linear.js';
 
 // Analytics and webhook exports
 export { Analytics } from './analytics/analytics.js';
-export { WebhookManager } from './webhooks/webhook.js';
+export { WebhookManager, WebhookError, WEBHOOK_EVENTS, signPayload, verifySignature, defaultWebhookStore } from './webhooks/webhook.js';
+export type { WebhookSubscription, WebhookDelivery, WebhookManagerOptions, NewWebhook } from './webhooks/webhook.js';
+export { WEBHOOK_FORMATS, formatPayload, renderTemplate, validateTemplate } from './webhooks/payload-formats.js';
+export type { WebhookFormat, FormattedPayload } from './webhooks/payload-formats.js';
+export {
+  NotificationRouter,
+  ChatChannel,
+  WebhookChannel,
+  createChatChannels,
+  chatSettings,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_SEVERITIES
+} from './notifications/notification-router.js';
+export type { NotificationChannel, NotificationInput, NotificationResult, NotificationRouterOptions } from './notifications/notification-router.js';
+export { ApprovalGate, ApprovalStore, ApprovalError, isAuthorizedApprover, DEFAULT_APPROVAL_TIMEOUT } from './approvals/approval-gate.js';
+export type { ApprovalRequest, ApprovalStatus, ApprovalGateOptions } from './approvals/approval-gate.js';
+export { ApprovalInteractions, verifySlackSignature, verifyDiscordSignature } from './approvals/interactions.js';
+export type { InteractionsOptions, InteractionResponse } from './approvals/interactions.js';
 
 // Audit exports
 export { LicenseChecker } from './audit/license-checker.js';
@@ -170,36 +368,32 @@ export class NPMSafe {
   private versioner: SemanticVersioner;
 
   constructor(config?: Partial<NPMSafeConfig>) {
+    const defaults = ConfigLoader.defaults();
     this.config = {
-      version: '1.0.0',
+      version: config?.version || defaults.version,
       config: {
-        requireCI: true,
-        blockPublishOnSecret: true,
-        webhooks: [],
-        plugins: [],
-        secretPatterns: [],
-        allowedSecrets: [],
-        registry: 'https://registry.npmjs.org/',
-        tag: 'latest',
-        dryRun: false,
-        autoVersion: true,
-        changelog: true,
-        gitChecks: true,
-        impactAnalysis: true,
-        encryption: {
-          enabled: false,
-          algorithm: 'aes-256-gcm'
-        },
+        ...defaults.config,
         ...config?.config
       }
     };
 
     this.secretScanner = new SecretScanner({
-      patterns: this.config.config.secretPatterns || [],
+      patterns: PatternPackLoader.resolve(this.config.config),
       allowedSecrets: this.config.config.allowedSecrets || []
     });
+    (this.config.config.secretValidators || []).forEach(validator => {
+      this.secretScanner.registerValidator(new HttpSecretValidator(validator));
+    });
+
+    this.versioner = new SemanticVersioner({ tagFormat: this.config.config.versioning?.tagName });
+  }
 
-    this.versioner = new SemanticVersioner();
+  /**
+   * Create an instance from the project's config files, package.json and environment
+   */
+  static async load(options?: ConfigLoaderOptions): Promise<NPMSafe> {
+    const { config } = await new ConfigLoader(options).load();
+    return new NPMSafe(config);
   }
 
   // Secret scanning methods
@@ -207,6 +401,18 @@ export class NPMSafe {
     return this.secretScanner.scan(options);
   }
 
+  scanStream(options?: ParallelScanOptions): AsyncGenerator<SecretScanResult> {
+    return new ParallelSecretScanner(this.secretScanner).scan(options);
+  }
+
+  async scanHistory(options?: HistoryScanOptions): Promise<SecretScanResult[]> {
+    return new HistoryScanner(this.secretScanner).scan(options);
+  }
+
+  generateScanReport(results: SecretScanResult[], format: ScanReportFormat = 'text'): string {
+    return this.secretScanner.generateReport(results, format);
+  }
+
   addSecretPattern(pattern: SecretPattern): void {
     this.secretScanner.addPattern(pattern);
   }
@@ -215,11 +421,42 @@ export class NPMSafe {
     this.secretScanner.addAllowedSecret(secret);
   }
 
+  addSecretValidator(validator: SecretValidator): void {
+    this.secretScanner.registerValidator(validator);
+  }
+
   // Versioning methods
+  // Publishing methods
+  async publish(options?: PublishOptions & { steps?: PostPublishStep[]; cwd?: string }): Promise<PublishResult> {
+    const { steps, cwd, ...publishOptions } = options || {};
+    const plugins = await new PluginLoader(cwd).load(this.config.config.plugins || []);
+    return new Publisher({ cwd, config: this.config, plugins, steps }).publish(publishOptions);
+  }
+
+  async simulatePublish(options?: SimulationOptions & { cwd?: string }): Promise<PublishSimulation> {
+    const { cwd, ...simulationOptions } = options || {};
+    return new PublishSimulator({ cwd, tagFormat: this.config.config.versioning?.tagName }).simulate({
+      registry: this.config.config.registry,
+      defaultTag: this.config.config.tag,
+      channels: this.config.config.channels,
+      ...simulationOptions
+    });
+  }
+
+  async analyzeUnpublish(name: string, version?: string): Promise<UnpublishImpact> {
+    const client = new RegistryClient({ registry: this.config.config.registry });
+    return new UnpublishAnalyzer({ client }).analyze(name, version);
+  }
+
   async analyzeVersion(currentVersion: string, options?: any): Promise<VersionAnalysis> {
     return this.versioner.analyzeVersion(currentVersion, options);
   }
 
+  async writeVersion(version: string, options?: VersionWriteOptions & { cwd?: string }): Promise<VersionWriteResult> {
+    const { cwd, ...writeOptions } = options || {};
+    return new VersionWriter({ cwd, ...this.config.config.versioning }).apply(version, writeOptions);
+  }
+
   async generateChangelog(version: string, since?: string): Promise<string> {
     return this.versioner.generateChangelog(version, since);
   }
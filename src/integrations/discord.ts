@@ -1,4 +1,4 @@
-import { NPMSafeLogger } from '../utils/logger';
+import { NPMSafeLogger } from '../utils/logger.js';
 
 export interface DiscordConfig {
   webhookUrl: string;
@@ -417,15 +417,15 @@ export class DiscordIntegration {
    * Send a message with interactive buttons
    */
   async sendInteractiveMessage(content: string, buttons: DiscordComponent[], options?: Partial<DiscordConfig>): Promise<boolean> {
-    const component: DiscordComponent = {
+    // The API spells the button fields in snake case
+    const row = {
       type: 1, // Action row
-      style: 0, // Default style for action row
-      components: buttons,
+      components: buttons.map(({ customId, ...button }) => ({ ...button, custom_id: customId })),
     };
 
     return this.sendRichMessage({
       content,
-      components: [component],
+      components: [row as unknown as DiscordComponent],
     }, options);
   }
 
@@ -1,7 +1,13 @@
-import { NPMSafeLogger } from '../utils/logger';
+import { NPMSafeLogger } from '../utils/logger.js';
+
+export const DEFAULT_SLACK_API_URL = 'https://slack.com/api/';
 
 export interface SlackConfig {
-  webhookUrl: string;
+  /** Incoming webhook, used when there is no bot token */
+  webhookUrl?: string;
+  /** Bot token (`xoxb-...`); switches to the Web API, which threads, schedules and sends DMs */
+  botToken?: string;
+  apiUrl?: string;
   channel?: string;
   username?: string;
   iconEmoji?: string;
@@ -23,6 +29,26 @@ export interface SlackTeamMember {
   role: 'admin' | 'member' | 'guest';
 }
 
+export class SlackApiError extends Error {
+  constructor(public method: string, public code: string) {
+    super(`Slack ${method} failed: ${code}`);
+    this.name = 'SlackApiError';
+  }
+}
+
+interface SlackApiMember {
+  id: string;
+  name: string;
+  real_name?: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  is_admin?: boolean;
+  is_owner?: boolean;
+  is_restricted?: boolean;
+  is_ultra_restricted?: boolean;
+  profile?: { email?: string; real_name?: string };
+}
+
 export class SlackIntegration {
   private config: SlackConfig;
   private logger: NPMSafeLogger;
@@ -37,27 +63,7 @@ export class SlackIntegration {
    */
   async sendMessage(message: string, options?: Partial<SlackConfig>): Promise<boolean> {
     try {
-      const payload = {
-        text: message,
-        channel: options?.channel || this.config.channel,
-        username: options?.username || this.config.username,
-        icon_emoji: options?.iconEmoji || this.config.iconEmoji,
-        icon_url: options?.iconUrl || this.config.iconUrl,
-        thread_ts: options?.threadTs || this.config.threadTs,
-      };
-
-      const response = await fetch(this.config.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Slack API error: ${response.status} ${response.statusText}`);
-      }
-
+      await this.post({ text: message }, options);
       this.logger.info('Message sent to Slack successfully');
       return true;
     } catch (error) {
@@ -71,27 +77,7 @@ export class SlackIntegration {
    */
   async sendRichMessage(message: SlackMessage, options?: Partial<SlackConfig>): Promise<boolean> {
     try {
-      const payload = {
-        ...message,
-        channel: options?.channel || this.config.channel,
-        username: options?.username || this.config.username,
-        icon_emoji: options?.iconEmoji || this.config.iconEmoji,
-        icon_url: options?.iconUrl || this.config.iconUrl,
-        thread_ts: options?.threadTs || this.config.threadTs,
-      };
-
-      const response = await fetch(this.config.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Slack API error: ${response.status} ${response.statusText}`);
-      }
-
+      await this.post(message, options);
       this.logger.info('Rich message sent to Slack successfully');
       return true;
     } catch (error) {
@@ -100,6 +86,34 @@ export class SlackIntegration {
     }
   }
 
+  /**
+   * Post a message with the Web API and return its `ts`, which replies use as their thread
+   */
+  async postMessage(message: SlackMessage, options?: Partial<SlackConfig>): Promise<string> {
+    this.requireBotToken('Posting a message that can be threaded');
+    return (await this.post(message, options))!;
+  }
+
+  /**
+   * Whether messages can start threads, which needs a bot token
+   */
+  supportsThreads(): boolean {
+    return Boolean(this.config.botToken);
+  }
+
+  /**
+   * Post the parent message of a new thread; null when threads are not available
+   */
+  async startThread(text: string): Promise<string | null> {
+    if (!this.supportsThreads()) return null;
+    try {
+      return await this.postMessage({ text });
+    } catch (error) {
+      this.logger.error('Failed to start Slack thread:', error);
+      return null;
+    }
+  }
+
   /**
    * Send a publish notification with package details
    */
@@ -111,7 +125,7 @@ export class SlackIntegration {
     repository?: string;
     vulnerabilities?: number;
     secrets?: number;
-  }): Promise<boolean> {
+  }, options?: Partial<SlackConfig>): Promise<boolean> {
     const blocks = [
       {
         type: 'header',
@@ -189,7 +203,7 @@ export class SlackIntegration {
     return this.sendRichMessage({
       text: `Package ${packageInfo.name}@${packageInfo.version} has been published successfully!`,
       blocks,
-    });
+    }, options);
   }
 
   /**
@@ -202,7 +216,7 @@ export class SlackIntegration {
     description: string;
     package?: string;
     details?: Record<string, any>;
-  }): Promise<boolean> {
+  }, options?: Partial<SlackConfig>): Promise<boolean> {
     const severityEmoji = {
       low: '🟡',
       medium: '🟠',
@@ -278,7 +292,7 @@ export class SlackIntegration {
     return this.sendRichMessage({
       text: `Security Alert: ${alert.title}`,
       blocks,
-    });
+    }, options);
   }
 
   /**
@@ -292,7 +306,7 @@ export class SlackIntegration {
     duration?: number;
     logs?: string[];
     errors?: string[];
-  }): Promise<boolean> {
+  }, options?: Partial<SlackConfig>): Promise<boolean> {
     const statusEmoji = {
       success: '✅',
       failure: '❌',
@@ -365,24 +379,17 @@ export class SlackIntegration {
     return this.sendRichMessage({
       text: `Deployment ${status.status}: ${status.package}@${status.version} to ${status.environment}`,
       blocks,
-    });
+    }, options);
   }
 
   /**
-   * Create a thread and send a message to it
+   * Create a thread and send a message to it; returns the thread's `ts`
    */
   async createThread(parentMessage: string, threadMessage: string): Promise<string | null> {
     try {
-      const parentResponse = await this.sendMessage(parentMessage);
-      if (!parentResponse) return null;
-
-      // Note: In a real implementation, you'd need to capture the ts from the parent message
-      // This is a simplified version
-      const threadResponse = await this.sendMessage(threadMessage, {
-        threadTs: 'parent_ts_here', // This would be the actual ts from the parent message
-      });
-
-      return threadResponse ? 'thread_ts_here' : null;
+      const threadTs = await this.postMessage({ text: parentMessage });
+      await this.post({ text: threadMessage }, { threadTs });
+      return threadTs;
     } catch (error) {
       this.logger.error('Failed to create thread:', error);
       return null;
@@ -397,24 +404,25 @@ export class SlackIntegration {
   }
 
   /**
-   * Send a scheduled message (simulated)
+   * Schedule a message with `chat.scheduleMessage`; returns the scheduled message id, or the
+   * message `ts` when the time has already passed and it was sent straight away
    */
   async scheduleMessage(message: string, scheduleTime: Date, options?: Partial<SlackConfig>): Promise<string | null> {
     try {
-      // In a real implementation, you'd use Slack's scheduled messages API
-      // This is a simplified simulation
-      const delay = scheduleTime.getTime() - Date.now();
-      
-      if (delay > 0) {
-        setTimeout(async () => {
-          await this.sendMessage(message, options);
-        }, delay);
-      } else {
-        await this.sendMessage(message, options);
+      this.requireBotToken('Scheduling messages');
+      if (scheduleTime.getTime() <= Date.now()) {
+        return await this.postMessage({ text: message }, options);
       }
 
+      const response = await this.callApi<{ scheduled_message_id: string }>('chat.scheduleMessage', {
+        channel: options?.channel || this.config.channel,
+        text: message,
+        post_at: Math.floor(scheduleTime.getTime() / 1000),
+        thread_ts: options?.threadTs || this.config.threadTs,
+      });
+
       this.logger.info(`Message scheduled for ${scheduleTime.toISOString()}`);
-      return 'scheduled_message_id';
+      return response.scheduled_message_id;
     } catch (error) {
       this.logger.error('Failed to schedule message:', error);
       return null;
@@ -422,35 +430,50 @@ export class SlackIntegration {
   }
 
   /**
-   * Get team members (simulated - would require Slack API token)
+   * Get the workspace's people with `users.list`, leaving out bots and deactivated accounts
    */
   async getTeamMembers(): Promise<SlackTeamMember[]> {
-    // This would require a Slack API token and proper API calls
-    // For now, return a simulated response
-    return [
-      {
-        id: 'U1234567890',
-        name: 'John Doe',
-        email: 'john@example.com',
-        role: 'admin',
-      },
-      {
-        id: 'U0987654321',
-        name: 'Jane Smith',
-        email: 'jane@example.com',
-        role: 'member',
-      },
-    ];
+    this.requireBotToken('Listing team members');
+
+    const members: SlackTeamMember[] = [];
+    let cursor = '';
+    do {
+      const response = await this.callApi<{ members: SlackApiMember[]; response_metadata?: { next_cursor?: string } }>(
+        'users.list',
+        { limit: 200, ...(cursor ? { cursor } : {}) },
+        'form'
+      );
+
+      for (const member of response.members) {
+        if (member.deleted || member.is_bot || member.id === 'USLACKBOT') continue;
+        members.push({
+          id: member.id,
+          name: member.real_name || member.profile?.real_name || member.name,
+          email: member.profile?.email || '',
+          role: member.is_admin || member.is_owner ? 'admin' : member.is_restricted || member.is_ultra_restricted ? 'guest' : 'member',
+        });
+      }
+      cursor = response.response_metadata?.next_cursor || '';
+    } while (cursor);
+
+    return members;
   }
 
   /**
-   * Send a message to specific team members
+   * Send a direct message to each member. Without a bot token the members are mentioned in
+   * the channel instead.
    */
   async sendToMembers(memberIds: string[], message: string): Promise<boolean> {
     try {
-      // In a real implementation, you'd use Slack's chat.postMessage API
-      // This is a simplified version that sends to the main channel
-      return this.sendMessage(`@${memberIds.join(' @')} ${message}`);
+      if (!this.config.botToken) {
+        return this.sendMessage(`@${memberIds.join(' @')} ${message}`);
+      }
+
+      for (const user of memberIds) {
+        const response = await this.callApi<{ channel: { id: string } }>('conversations.open', { users: user });
+        await this.post({ text: message }, { channel: response.channel.id, threadTs: undefined });
+      }
+      return true;
     } catch (error) {
       this.logger.error('Failed to send message to members:', error);
       return false;
@@ -478,4 +501,78 @@ export class SlackIntegration {
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Post through the Web API when there is a bot token, otherwise through the incoming webhook.
+   * Only the Web API returns the message `ts`.
+   */
+  private async post(message: SlackMessage, options?: Partial<SlackConfig>): Promise<string | undefined> {
+    const { threadTs, ...content } = message;
+    const payload = {
+      ...content,
+      channel: options?.channel || this.config.channel,
+      username: options?.username || this.config.username,
+      icon_emoji: options?.iconEmoji || this.config.iconEmoji,
+      icon_url: options?.iconUrl || this.config.iconUrl,
+      thread_ts: options && 'threadTs' in options ? options.threadTs : threadTs || this.config.threadTs,
+    };
+
+    if (this.config.botToken) {
+      const response = await this.callApi<{ ts: string }>('chat.postMessage', payload);
+      return response.ts;
+    }
+
+    if (!this.config.webhookUrl) {
+      throw new Error('Slack needs a webhookUrl or a botToken');
+    }
+    const response = await fetch(this.config.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Slack API error: ${response.status} ${response.statusText}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Call a Web API method. Most take JSON; read methods such as `users.list` only take form
+   * fields.
+   */
+  private async callApi<T>(method: string, params: Record<string, unknown>, encoding: 'json' | 'form' = 'json'): Promise<T> {
+    const token = this.requireBotToken(`Slack ${method}`);
+    const base = this.config.apiUrl || DEFAULT_SLACK_API_URL;
+    const fields = Object.entries(params).filter(([, value]) => value !== undefined);
+
+    const response = await fetch(new URL(method, base.endsWith('/') ? base : `${base}/`), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': encoding === 'json' ? 'application/json; charset=utf-8' : 'application/x-www-form-urlencoded',
+      },
+      body: encoding === 'json'
+        ? JSON.stringify(Object.fromEntries(fields))
+        : new URLSearchParams(fields.map(([key, value]): [string, string] => [key, String(value)])).toString(),
+    });
+
+    if (!response.ok) {
+      throw new SlackApiError(method, `HTTP ${response.status}`);
+    }
+    const result = await response.json() as T & { ok: boolean; error?: string };
+    if (!result.ok) {
+      throw new SlackApiError(method, result.error || 'unknown_error');
+    }
+    return result;
+  }
+
+  private requireBotToken(feature: string): string {
+    if (!this.config.botToken) {
+      throw new Error(`${feature} needs a Slack bot token (botToken or SLACK_BOT_TOKEN)`);
+    }
+    return this.config.botToken;
+  }
+}
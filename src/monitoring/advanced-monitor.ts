@@ -3,10 +3,8 @@ import { v4 as uuidv4 } from 'uuid';
 import moment from 'moment';
 import { logger } from '../utils/logger.js';
 import { Analytics } from '../analytics/analytics.js';
-import { WebhookManager } from '../webhooks/webhook.js';
-import { SlackIntegration } from '../integrations/slack.js';
-import { DiscordIntegration } from '../integrations/discord.js';
-import type { NPMSafeConfig } from '../types/index.js';
+import { NotificationRouter, createChatChannels } from '../notifications/notification-router.js';
+import type { NPMSafeConfig, NotificationSeverity } from '../types/index.js';
 
 export interface MonitoringConfig {
   enabled: boolean;
@@ -45,6 +43,8 @@ export interface MonitoringConfig {
     };
     webhooks?: string[];
   };
+  /** Where alerts are published; built from `integrations` when not given */
+  notifier?: NotificationRouter;
 }
 
 export interface MetricData {
@@ -79,6 +79,13 @@ export interface PerformanceMetrics {
   customMetrics: Record<string, number>;
 }
 
+const ALERT_SEVERITIES: Record<Alert['severity'], NotificationSeverity> = {
+  info: 'info',
+  warning: 'medium',
+  error: 'high',
+  critical: 'critical'
+};
+
 export class AdvancedMonitor extends EventEmitter {
   private config: MonitoringConfig;
   private metrics: MetricData[] = [];
@@ -87,9 +94,7 @@ export class AdvancedMonitor extends EventEmitter {
   private intervalId?: NodeJS.Timeout;
   private performanceMetrics!: PerformanceMetrics;
   private analytics!: Analytics;
-  private webhookManager!: WebhookManager;
-  private slackIntegration?: SlackIntegration;
-  private discordIntegration?: DiscordIntegration;
+  private notifier!: NotificationRouter;
   private startTime: number;
 
   constructor(config: Partial<MonitoringConfig> = {}) {
@@ -131,20 +136,8 @@ export class AdvancedMonitor extends EventEmitter {
 
   private initializeComponents(): void {
     this.analytics = new Analytics();
-    this.webhookManager = new WebhookManager([]);
     this.initializePerformanceMetrics();
-
-    if (this.config.integrations.slack?.webhookUrl) {
-      this.slackIntegration = new SlackIntegration({
-        webhookUrl: this.config.integrations.slack.webhookUrl
-      });
-    }
-
-    if (this.config.integrations.discord?.webhookUrl) {
-      this.discordIntegration = new DiscordIntegration({
-        webhookUrl: this.config.integrations.discord.webhookUrl
-      });
-    }
+    this.notifier = this.config.notifier || new NotificationRouter({}, { channels: createChatChannels(this.config.integrations) });
   }
 
   private initializePerformanceMetrics(): void {
@@ -367,25 +360,15 @@ export class AdvancedMonitor extends EventEmitter {
   }
 
   private async sendAlertNotifications(alert: Alert): Promise<void> {
-    const message = `🚨 **${alert.severity.toUpperCase()} Alert**: ${alert.message}`;
-
     try {
-      if (this.slackIntegration) {
-        await this.slackIntegration.sendMessage(message);
-      }
-
-      if (this.discordIntegration) {
-        await this.discordIntegration.sendMessage(message);
-      }
-
-      await this.webhookManager.sendEvent({
-        event: 'scan',
-        package: 'monitoring',
-        version: '1.0.0',
-        timestamp: new Date().toISOString(),
-        data: {
-          alert,
-        }
+      await this.notifier.publish({
+        type: 'monitor-alert',
+        severity: ALERT_SEVERITIES[alert.severity],
+        title: `${alert.severity.toUpperCase()} Alert`,
+        message: alert.message,
+        data: { alert },
+        // A metric that stays over its threshold raises one alert per interval
+        dedupeKey: `monitor-alert:${alert.type}:${alert.severity}`
       });
     } catch (error) {
       logger.error('Failed to send alert notifications:', error);
@@ -0,0 +1,443 @@
+import { execFileSync } from 'child_process';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  NotificationEvent,
+  NotificationEventType,
+  NotificationRoute,
+  NotificationSeverity,
+  NotificationsConfig,
+  NPMSafeConfig
+} from '../types/index.js';
+import { SlackConfig, SlackIntegration } from '../integrations/slack.js';
+import { DiscordConfig, DiscordIntegration } from '../integrations/discord.js';
+import { WebhookManager } from '../webhooks/webhook.js';
+import { renderTemplate } from '../webhooks/payload-formats.js';
+import { matchGlob } from '../utils/glob.js';
+import logger from '../utils/logger.js';
+
+export const NOTIFICATION_EVENTS: NotificationEventType[] = ['publish', 'security-alert', 'deployment', 'scan', 'test', 'monitor-alert'];
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+/** Seconds during which an identical event is sent to a channel only once */
+export const DEFAULT_DEDUPE_WINDOW = 300;
+
+export const DEFAULT_RATE_LIMIT = { max: 20, window: 60 };
+
+/**
+ * An event as it is published; the router fills in the package, version and branch it was
+ * created for when they are left out
+ */
+export type NotificationInput = Omit<NotificationEvent, 'package'> & { package?: string };
+
+export interface NotificationChannel {
+  readonly name: string;
+  /** Deliver the event, as `text` when the channel has a template for it */
+  send(event: NotificationEvent, text?: string): Promise<boolean>;
+}
+
+export interface NotificationResult {
+  channel: string;
+  status: 'sent' | 'failed' | 'duplicate' | 'rate-limited' | 'quiet-hours';
+}
+
+export interface NotificationRouterOptions {
+  channels?: NotificationChannel[];
+  cwd?: string;
+  /** Package, version and branch for events that do not name their own */
+  defaults?: Partial<Pick<NotificationEvent, 'package' | 'version' | 'branch'>>;
+  now?: () => number;
+}
+
+export interface FromConfigOptions extends Omit<NotificationRouterOptions, 'channels'> {
+  /** Registered webhooks, used by `webhook` channels without a url */
+  webhookManager?: WebhookManager;
+  env?: NodeJS.ProcessEnv;
+}
+
+type ChatOptions = Partial<SlackConfig> & Partial<DiscordConfig>;
+
+/**
+ * The methods Slack and Discord share; each becomes the renderer for one kind of event
+ */
+interface ChatIntegration {
+  sendMessage(text: string, options?: ChatOptions): Promise<boolean>;
+  sendPublishNotification(packageInfo: Parameters<SlackIntegration['sendPublishNotification']>[0], options?: ChatOptions): Promise<boolean>;
+  sendSecurityAlert(alert: Parameters<SlackIntegration['sendSecurityAlert']>[0], options?: ChatOptions): Promise<boolean>;
+  sendDeploymentStatus(status: Parameters<SlackIntegration['sendDeploymentStatus']>[0], options?: ChatOptions): Promise<boolean>;
+  startThread?(text: string): Promise<string | null>;
+}
+
+/**
+ * A Slack or Discord channel. Publish, security and deployment events get the integration's
+ * rich messages; everything else, and a failed publish, is sent as text. Events that name a
+ * `thread` become replies under one parent message where the integration can thread.
+ */
+export class ChatChannel implements NotificationChannel {
+  private threads = new Map<string, Promise<string | null>>();
+
+  constructor(public readonly name: string, private integration: ChatIntegration, private bold = '*') {}
+
+  async send(event: NotificationEvent, text?: string): Promise<boolean> {
+    const options = await this.threadOptions(event);
+    if (text !== undefined) {
+      return this.integration.sendMessage(text, options);
+    }
+
+    const data = event.data || {};
+    switch (event.type) {
+      case 'publish':
+        if (event.severity !== 'info') break;
+        return this.integration.sendPublishNotification({
+          ...data,
+          name: event.package,
+          version: event.version || data['version'] || 'unknown'
+        }, options);
+
+      case 'security-alert':
+        return this.integration.sendSecurityAlert({
+          type: data['alertType'] || 'vulnerability',
+          severity: event.severity === 'info' ? 'low' : event.severity,
+          title: event.title,
+          description: event.message,
+          package: event.package,
+          details: data['details']
+        }, options);
+
+      case 'deployment':
+        return this.integration.sendDeploymentStatus({
+          environment: data['environment'] || 'unknown',
+          status: data['status'] || 'pending',
+          package: event.package,
+          version: event.version || 'unknown',
+          duration: data['duration'],
+          logs: data['logs'],
+          errors: data['errors']
+        }, options);
+    }
+    return this.integration.sendMessage(`${this.bold}${event.title}${this.bold}\n${event.message}`, options);
+  }
+
+  private async threadOptions(event: NotificationEvent): Promise<ChatOptions | undefined> {
+    if (!event.thread || !this.integration.startThread) return undefined;
+
+    // Events for the same thread can race; they all wait for the one parent message
+    let parent = this.threads.get(event.thread);
+    if (!parent) {
+      parent = this.integration.startThread(event.thread);
+      this.threads.set(event.thread, parent);
+    }
+    const threadTs = await parent;
+    return threadTs ? { threadTs } : undefined;
+  }
+}
+
+/**
+ * Sends events to webhooks under the event's own type, e.g. `security-alert`
+ */
+export class WebhookChannel implements NotificationChannel {
+  constructor(public readonly name: string, public readonly manager: WebhookManager) {}
+
+  async send(event: NotificationEvent): Promise<boolean> {
+    const deliveries = await this.manager.sendEvent({
+      event: event.type,
+      package: event.package,
+      version: event.version || '',
+      timestamp: new Date().toISOString(),
+      data: {
+        ...event.data,
+        notification: event.type,
+        severity: event.severity,
+        title: event.title,
+        message: event.message,
+        branch: event.branch
+      }
+    });
+    return deliveries.every(delivery => delivery.status !== 'failed');
+  }
+}
+
+/**
+ * The Slack workspace and Discord webhook from the config, each setting falling back to its
+ * environment variable, e.g. `SLACK_BOT_TOKEN`. Notifications and approval requests both
+ * read them here so they reach the same place.
+ */
+export function chatSettings(config: NPMSafeConfig['config'], env: NodeJS.ProcessEnv = process.env): { slack: SlackConfig; discordWebhookUrl?: string } {
+  return {
+    slack: {
+      webhookUrl: config.slackWebhookUrl || env['SLACK_WEBHOOK_URL'],
+      botToken: config.slackBotToken || env['SLACK_BOT_TOKEN'],
+      channel: config.slackChannel || env['SLACK_CHANNEL'],
+      apiUrl: config.slackApiUrl || env['SLACK_API_URL']
+    },
+    discordWebhookUrl: config.discordWebhookUrl || env['DISCORD_WEBHOOK_URL']
+  };
+}
+
+/**
+ * Channels for code that is handed Slack and Discord settings directly
+ */
+export function createChatChannels(integrations: { slack?: SlackConfig; discord?: { webhookUrl: string } }): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+  if (integrations.slack?.webhookUrl || integrations.slack?.botToken) {
+    channels.push(new ChatChannel('slack', new SlackIntegration(integrations.slack)));
+  }
+  if (integrations.discord?.webhookUrl) {
+    channels.push(new ChatChannel('discord', new DiscordIntegration({ webhookUrl: integrations.discord.webhookUrl }), '**'));
+  }
+  return channels;
+}
+
+/**
+ * Publishes each event once and delivers it to the channels its routes select. Without
+ * routes every channel gets every event. Identical events are sent to a channel once per
+ * `dedupeWindow`, each channel takes at most `rateLimit.max` events per `rateLimit.window`
+ * seconds, and during quiet hours only events at or above `quietHours.allow` go out.
+ */
+export class NotificationRouter {
+  private config: NotificationsConfig;
+  private channels = new Map<string, NotificationChannel>();
+  private cwd: string;
+  private defaults: NotificationRouterOptions['defaults'];
+  private now: () => number;
+  private sent = new Map<string, number>();
+  private recent = new Map<string, number[]>();
+  private branch?: string | null;
+
+  constructor(config: NotificationsConfig = {}, options: NotificationRouterOptions = {}) {
+    this.config = config;
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.defaults = options.defaults;
+    this.now = options.now || Date.now;
+    (options.channels || []).forEach(channel => this.addChannel(channel));
+  }
+
+  /**
+   * Build the channels in `notifications.channels`; a `webhook` channel without a url sends to
+   * the registered webhooks. Without any channels, `slackWebhookUrl` or `slackBotToken` with
+   * `slackChannel`, and `discordWebhookUrl`, become the `slack` and `discord` channels. Settings
+   * are read by `chatSettings`.
+   */
+  static fromConfig(config: NPMSafeConfig['config'], options: FromConfigOptions = {}): NotificationRouter {
+    const notifications = config.notifications || {};
+    const { slack, discordWebhookUrl: discordUrl } = chatSettings(config, options.env);
+    const channels: NotificationChannel[] = [];
+
+    if (notifications.channels) {
+      for (const [name, channel] of Object.entries(notifications.channels)) {
+        if (channel.type === 'webhook') {
+          const manager = channel.url ? new WebhookManager([channel.url]) : options.webhookManager;
+          if (manager) channels.push(new WebhookChannel(name, manager));
+          continue;
+        }
+
+        if (channel.type === 'slack') {
+          // A channel with its own url posts there; otherwise it shares the workspace settings
+          const settings: SlackConfig = channel.url
+            ? { webhookUrl: channel.url, botToken: channel.token, apiUrl: channel.apiUrl }
+            : { ...slack, botToken: channel.token || slack.botToken, apiUrl: channel.apiUrl || slack.apiUrl };
+          settings.channel = channel.channel || slack.channel;
+          settings.username = channel.username;
+
+          if (settings.botToken && !settings.channel) {
+            logger.warn(`Notification channel "${name}" has a Slack bot token but no channel; skipping it`);
+          } else if (!settings.botToken && !settings.webhookUrl) {
+            logger.warn(`Notification channel "${name}" has no Slack webhook URL or bot token; skipping it`);
+          } else {
+            channels.push(new ChatChannel(name, new SlackIntegration(settings)));
+          }
+          continue;
+        }
+
+        const url = channel.url || discordUrl;
+        if (!url) {
+          logger.warn(`Notification channel "${name}" has no discord webhook URL; skipping it`);
+          continue;
+        }
+        channels.push(new ChatChannel(name, new DiscordIntegration({ webhookUrl: url, username: channel.username }), '**'));
+      }
+    } else {
+      channels.push(...createChatChannels({
+        ...(slack.webhookUrl || (slack.botToken && slack.channel) ? { slack } : {}),
+        ...(discordUrl ? { discord: { webhookUrl: discordUrl } } : {})
+      }));
+    }
+
+    return new NotificationRouter(notifications, { ...options, channels });
+  }
+
+  addChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  getChannels(): string[] {
+    return [...this.channels.keys()];
+  }
+
+  /**
+   * The channels an event goes to, in the order they were added
+   */
+  route(input: NotificationInput): string[] {
+    const event = this.complete(input);
+    const routes = this.config.routes;
+    if (!routes || routes.length === 0) {
+      return this.getChannels();
+    }
+
+    const selected = new Set(routes.filter(route => this.matches(route, event)).flatMap(route => route.channels));
+    for (const name of selected) {
+      if (!this.channels.has(name)) {
+        logger.debug(`Notification route names unknown channel "${name}"`);
+      }
+    }
+    return this.getChannels().filter(name => selected.has(name));
+  }
+
+  /**
+   * Whether an event goes to `manager` through one of the webhook channels, so a caller that
+   * also sends to it directly can leave the delivery to the router
+   */
+  routesTo(manager: WebhookManager, input: NotificationInput): boolean {
+    return this.route(input).some(name => {
+      const channel = this.channels.get(name);
+      return channel instanceof WebhookChannel && channel.manager === manager;
+    });
+  }
+
+  async publish(input: NotificationInput): Promise<NotificationResult[]> {
+    const event = this.complete(input);
+    const channels = this.route(event);
+    const quiet = this.isQuiet(event);
+    const key = event.dedupeKey || [event.type, event.package, event.version, event.title, event.message].join('\u0000');
+
+    const results: NotificationResult[] = [];
+    for (const name of channels) {
+      const channel = this.channels.get(name)!;
+      if (quiet) {
+        results.push({ channel: name, status: 'quiet-hours' });
+        continue;
+      }
+      if (this.isDuplicate(`${name}\u0000${key}`)) {
+        results.push({ channel: name, status: 'duplicate' });
+        continue;
+      }
+      if (!this.takeRateLimit(name)) {
+        logger.warn(`Notification to "${name}" dropped: over the rate limit`);
+        results.push({ channel: name, status: 'rate-limited' });
+        continue;
+      }
+
+      let sent = false;
+      try {
+        sent = await channel.send(event, this.render(name, event));
+      } catch (error) {
+        logger.error(`Failed to notify "${name}":`, error);
+      }
+      if (sent) {
+        this.sent.set(`${name}\u0000${key}`, this.now());
+      }
+      results.push({ channel: name, status: sent ? 'sent' : 'failed' });
+    }
+
+    return results;
+  }
+
+  private complete(input: NotificationInput): NotificationEvent {
+    const defaults = this.defaults || this.readPackage();
+    const ownPackage = !input.package || input.package === defaults.package;
+    return {
+      ...input,
+      package: input.package || defaults.package || 'unknown',
+      version: input.version || (ownPackage ? defaults.version : undefined),
+      branch: input.branch || defaults.branch
+    };
+  }
+
+  private matches(route: NotificationRoute, event: NotificationEvent): boolean {
+    if (route.events && !route.events.includes(event.type)) return false;
+    if (route.severity && rank(event.severity) < rank(route.severity)) return false;
+    if (route.packages && !route.packages.some(pattern => matchGlob(pattern, event.package))) return false;
+    if (route.branches) {
+      const branch = event.branch || this.currentBranch();
+      if (!branch || !route.branches.some(pattern => matchGlob(pattern, branch))) return false;
+    }
+    return true;
+  }
+
+  private render(channel: string, event: NotificationEvent): string | undefined {
+    const template = this.config.templates?.[channel]?.[event.type];
+    if (template === undefined) return undefined;
+    const value = renderTemplate(template, { ...event, data: event.data || {} });
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  private isQuiet(event: NotificationEvent): boolean {
+    const quietHours = this.config.quietHours;
+    if (!quietHours || rank(event.severity) >= rank(quietHours.allow || 'critical')) {
+      return false;
+    }
+
+    const minute = minuteOfDay(this.now(), quietHours.timezone);
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    // A window such as 22:00-07:00 wraps past midnight
+    return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+  }
+
+  private isDuplicate(key: string): boolean {
+    const window = (this.config.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW) * 1000;
+    const last = this.sent.get(key);
+    return last !== undefined && this.now() - last < window;
+  }
+
+  private takeRateLimit(channel: string): boolean {
+    const { max, window } = this.config.rateLimit || DEFAULT_RATE_LIMIT;
+    const now = this.now();
+    const recent = (this.recent.get(channel) || []).filter(time => now - time < window * 1000);
+    if (recent.length >= max) {
+      this.recent.set(channel, recent);
+      return false;
+    }
+    recent.push(now);
+    this.recent.set(channel, recent);
+    return true;
+  }
+
+  private readPackage(): NonNullable<NotificationRouterOptions['defaults']> {
+    try {
+      const pkg = JSON.parse(readFileSync(path.join(this.cwd, 'package.json'), 'utf-8'));
+      this.defaults = { package: pkg.name, version: pkg.version };
+    } catch {
+      this.defaults = {};
+    }
+    return this.defaults;
+  }
+
+  private currentBranch(): string | undefined {
+    if (this.branch === undefined) {
+      try {
+        const branch = execFileSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: this.cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+        this.branch = branch && branch !== 'HEAD' ? branch : null;
+      } catch {
+        this.branch = null;
+      }
+    }
+    return this.branch ?? undefined;
+  }
+}
+
+function rank(severity: NotificationSeverity): number {
+  return NOTIFICATION_SEVERITIES.indexOf(severity);
+}
+
+function toMinutes(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minuteOfDay(time: number, timezone?: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone: timezone }).formatToParts(new Date(time));
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+  return part('hour') * 60 + part('minute');
+}
@@ -0,0 +1,43 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Plugin } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export class PluginLoader {
+  private cwd: string;
+
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = path.resolve(cwd);
+  }
+
+  /**
+   * Import plugins by package name or path, resolved from the project directory
+   */
+  async load(names: string[]): Promise<Plugin[]> {
+    const plugins: Plugin[] = [];
+    for (const name of names) {
+      plugins.push(await this.loadPlugin(name));
+    }
+    return plugins;
+  }
+
+  private async loadPlugin(name: string): Promise<Plugin> {
+    const projectRequire = createRequire(path.join(this.cwd, 'package.json'));
+    let resolved: string;
+    try {
+      resolved = projectRequire.resolve(name.startsWith('.') ? path.resolve(this.cwd, name) : name);
+    } catch {
+      throw new Error(`Could not find plugin "${name}" from ${this.cwd}`);
+    }
+
+    const module = await import(pathToFileURL(resolved).href);
+    const plugin = (module.default ?? module) as Plugin;
+    if (!plugin || typeof plugin.name !== 'string' || typeof plugin.hooks !== 'object') {
+      throw new Error(`Plugin "${name}" must export an object with a name and hooks`);
+    }
+
+    logger.debug(`Loaded plugin ${plugin.name}@${plugin.version} from ${resolved}`);
+    return plugin;
+  }
+}
@@ -0,0 +1,245 @@
+import path from 'path';
+import semver from 'semver';
+import { Check, CheckContext, CheckOutcome, CheckSeverity } from '../types/index.js';
+import { SecretScanner } from '../scanners/secret-scanner.js';
+import { DEFAULT_BASELINE_FILE } from '../scanners/secret-baseline.js';
+import { blockingSecrets, HttpSecretValidator } from '../scanners/secret-verifier.js';
+import { PatternPackLoader } from '../scanners/pattern-packs.js';
+import { PackageContents } from '../scanners/package-contents.js';
+import { LicenseChecker } from '../audit/license-checker.js';
+import { DependencyAuditor } from '../audit/dependency-auditor.js';
+import { GitChecker } from '../safety/git-checker.js';
+import { CIChecker } from '../safety/ci-checker.js';
+import { RegistryClient } from '../registry/registry-client.js';
+import { formatSize } from '../publishing/publish-simulator.js';
+import { SemanticVersioner } from '../versioning/semantic-versioner.js';
+import { SEVERITIES } from './policy-engine.js';
+
+function highest(severities: CheckSeverity[], fallback: CheckSeverity): CheckSeverity {
+  return severities.reduce((max, severity) => (SEVERITIES.indexOf(severity) > SEVERITIES.indexOf(max) ? severity : max), severities[0] || fallback);
+}
+
+/**
+ * Secrets in the packed package. With `blockPublishOnSecret: 'verified'` only live or unconfirmed
+ * high-severity secrets fail it.
+ */
+export class SecretsCheck implements Check {
+  name = 'secrets';
+  description = 'No secrets in the published files';
+  severity: CheckSeverity = 'critical';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const config = context.config.config;
+    const scanner = new SecretScanner({
+      patterns: PatternPackLoader.resolve(config),
+      allowedSecrets: config.allowedSecrets || []
+    });
+    (config.secretValidators || []).forEach(validator => scanner.registerValidator(new HttpSecretValidator(validator)));
+
+    const mode = config.blockPublishOnSecret;
+    const results = await scanner.scan({
+      cwd: context.cwd,
+      pack: true,
+      extract: true,
+      baseline: path.join(context.cwd, DEFAULT_BASELINE_FILE),
+      verify: Boolean(config.verifySecrets || mode === 'verified')
+    });
+
+    const failing = blockingSecrets(results, config);
+    const files = [...new Set(failing.map(result => result.file))];
+
+    return {
+      passed: failing.length === 0,
+      severity: highest(failing.map(result => result.pattern.severity), this.severity),
+      reasons: failing.length > 0
+        ? [`${failing.length} secret(s) in ${files.slice(0, 5).join(', ')}${files.length > 5 ? ` and ${files.length - 5} more files` : ''}; run \`npmsafe scan --pack\` to see them, then remove or baseline them`]
+        : [],
+      details: {
+        found: results.length,
+        failing: failing.length,
+        findings: failing.map(result => ({ file: result.file, line: result.line, pattern: result.pattern.name, severity: result.pattern.severity }))
+      }
+    };
+  }
+}
+
+/**
+ * Dependency licenses; options are passed to `LicenseChecker.checkCompliance`
+ */
+export class LicensesCheck implements Check {
+  name = 'licenses';
+  description = 'Dependency licenses are compatible';
+  severity: CheckSeverity = 'high';
+
+  async run(_context: CheckContext, options: Record<string, unknown>): Promise<CheckOutcome> {
+    const result = await new LicenseChecker().checkCompliance(options);
+    const incompatible = result.packages.filter(pkg => !pkg.compatible);
+
+    return {
+      passed: incompatible.length === 0,
+      reasons: incompatible.length > 0
+        ? [`${incompatible.length} dependency license(s) are incompatible with ${result.projectLicense} (${incompatible.slice(0, 5).map(pkg => `${pkg.name}: ${pkg.license}`).join(', ')}); replace them or allow the licenses in the policy`]
+        : [],
+      details: { summary: result.summary, incompatible, recommendations: result.recommendations }
+    };
+  }
+}
+
+/**
+ * Known vulnerabilities from `npm audit`, at `minSeverity` or above (low by default)
+ */
+export class VulnerabilitiesCheck implements Check {
+  name = 'vulnerabilities';
+  description = 'No known vulnerabilities in dependencies';
+  severity: CheckSeverity = 'high';
+
+  async run(_context: CheckContext, options: Record<string, unknown>): Promise<CheckOutcome> {
+    const result = await new DependencyAuditor().audit({ production: options['production'] !== false });
+    const minimum = SEVERITIES.indexOf(toSeverity(String(options['minSeverity'] || 'low')));
+    const found = result.vulnerabilities.filter(vulnerability => SEVERITIES.indexOf(toSeverity(vulnerability.severity)) >= minimum);
+    const packages = [...new Set(found.map(vulnerability => vulnerability.package))];
+
+    return {
+      passed: found.length === 0,
+      severity: highest(found.map(vulnerability => toSeverity(vulnerability.severity)), this.severity),
+      reasons: found.length > 0
+        ? [`${found.length} known vulnerabilit${found.length === 1 ? 'y' : 'ies'} in ${packages.slice(0, 5).join(', ')}; run \`npm audit fix\` or update them`]
+        : [],
+      details: { summary: result.summary, vulnerabilities: found, recommendations: result.recommendations }
+    };
+  }
+}
+
+export class GitCheck implements Check {
+  name = 'git';
+  description = 'Working copy is clean, pushed and on a release branch';
+  severity: CheckSeverity = 'high';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const result = await new GitChecker({
+      cwd: context.cwd,
+      releaseBranches: context.config.config.releaseBranches,
+      requireTag: context.config.config.requireTag
+    }).check();
+    return { passed: result.passed, reasons: result.reasons, details: { ...result.status } };
+  }
+}
+
+export class CICheck implements Check {
+  name = 'ci';
+  description = 'CI passed for the commit';
+  severity: CheckSeverity = 'high';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const config = context.config.config;
+    const result = await new CIChecker({
+      githubToken: config.githubToken,
+      githubRepo: config.githubRepo,
+      githubApiUrl: config.githubApiUrl
+    }).check(context.commit);
+    return { passed: result.passed, reasons: result.reasons, details: { ...result.status } };
+  }
+}
+
+/**
+ * Limits on `maxPackedSize`, `maxUnpackedSize` (bytes or strings such as "500 KB") and `maxFiles`.
+ * With no limits set it only reports the sizes.
+ */
+export class SizeBudgetCheck implements Check {
+  name = 'size-budget';
+  description = 'Package stays within its size budget';
+  severity: CheckSeverity = 'medium';
+
+  async run(context: CheckContext, options: Record<string, unknown>): Promise<CheckOutcome> {
+    const limits = {
+      packed: parseSize(options['maxPackedSize']),
+      unpacked: parseSize(options['maxUnpackedSize']),
+      files: typeof options['maxFiles'] === 'number' ? options['maxFiles'] : undefined
+    };
+    const manifest = await new PackageContents({ cwd: context.cwd }).getManifest();
+    const reasons: string[] = [];
+
+    if (limits.packed !== undefined && manifest.size > limits.packed) {
+      reasons.push(`Packed size ${formatSize(manifest.size)} is over the ${formatSize(limits.packed)} budget; check \`npmsafe dry-run\` for files that should not ship`);
+    }
+    if (limits.unpacked !== undefined && manifest.unpackedSize > limits.unpacked) {
+      reasons.push(`Unpacked size ${formatSize(manifest.unpackedSize)} is over the ${formatSize(limits.unpacked)} budget; check \`npmsafe dry-run\` for files that should not ship`);
+    }
+    if (limits.files !== undefined && manifest.files.length > limits.files) {
+      reasons.push(`${manifest.files.length} files are over the budget of ${limits.files}; narrow "files" in package.json or add an .npmignore`);
+    }
+
+    return {
+      passed: reasons.length === 0,
+      reasons,
+      details: { size: manifest.size, unpackedSize: manifest.unpackedSize, files: manifest.files.length }
+    };
+  }
+}
+
+/**
+ * The version is valid semver, new to the registry, ahead of what the dist-tag points at,
+ * and only a prerelease if the tag is not `latest`
+ */
+export class VersionCheck implements Check {
+  name = 'version';
+  description = 'Version is valid, unpublished and fits the dist-tag';
+  severity: CheckSeverity = 'high';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const { name, version } = context.packageJson;
+    if (!semver.valid(version)) {
+      return { passed: false, severity: 'critical', reasons: [`"${version}" is not a valid semver version; fix "version" in package.json`] };
+    }
+
+    const reasons: string[] = [];
+    let severity: CheckSeverity = this.severity;
+
+    if (semver.prerelease(version) && context.tag === 'latest') {
+      const channelTag = SemanticVersioner.distTag(version, context.config.config.channels);
+      const suggested = channelTag && channelTag !== 'latest' ? channelTag : 'next';
+      reasons.push(`${version} is a prerelease; publish it with \`--tag ${suggested}\` or another tag instead of latest`);
+    }
+
+    const packument = await new RegistryClient({ registry: context.registry }).getPackument(name);
+    const current = packument?.['dist-tags'][context.tag];
+
+    if (packument?.versions[version]) {
+      severity = 'critical';
+      reasons.push(`${name}@${version} is already published; bump the version with \`npmsafe version\``);
+    } else if (current && semver.valid(current) && semver.lte(version, current)) {
+      reasons.push(`${version} is not newer than ${current}, which ${context.tag} points at; bump the version or publish to another tag`);
+    }
+
+    return { passed: reasons.length === 0, severity, reasons, details: { version, current } };
+  }
+}
+
+export function createBuiltinChecks(): Check[] {
+  return [
+    new GitCheck(),
+    new SecretsCheck(),
+    new LicensesCheck(),
+    new VulnerabilitiesCheck(),
+    new CICheck(),
+    new SizeBudgetCheck(),
+    new VersionCheck()
+  ];
+}
+
+function toSeverity(value: string): CheckSeverity {
+  return value === 'moderate' ? 'medium' : SEVERITIES.includes(value as CheckSeverity) ? value as CheckSeverity : 'low';
+}
+
+const UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+
+function parseSize(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${value}"; use a number of bytes or a value such as "500 KB"`);
+  }
+  return Math.round(Number(match[1]) * UNITS[match[2] || 'b']);
+}
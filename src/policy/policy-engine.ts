@@ -0,0 +1,172 @@
+import {
+  Check,
+  CheckAction,
+  CheckContext,
+  CheckPolicy,
+  CheckSeverity,
+  CheckVerdict,
+  PolicyConfig,
+  PolicyVerdict
+} from '../types/index.js';
+import logger from '../utils/logger.js';
+import { matchGlob } from '../utils/glob.js';
+
+export const SEVERITIES: CheckSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Secrets always block, as `blockPublishOnSecret` promises; license and vulnerability audits
+ * need the network and stay off until a policy turns them on
+ */
+export const DEFAULT_POLICY: PolicyConfig = {
+  blockAt: 'high',
+  checks: {
+    secrets: 'block',
+    licenses: 'off',
+    vulnerabilities: 'off'
+  }
+};
+
+export interface ResolvedPolicy {
+  blockAt: CheckSeverity;
+  checks: Record<string, Required<Pick<CheckPolicy, 'action'>> & CheckPolicy>;
+}
+
+export interface PolicyEngineOptions {
+  checks?: Check[];
+  policy?: PolicyConfig;
+}
+
+export interface EvaluateOptions {
+  /**
+   * Run only these checks, e.g. for a workflow that covers part of the gate. Listed checks the
+   * policy turns off still run, but only warn.
+   */
+  only?: string[];
+}
+
+export class PolicyEngine {
+  private checks = new Map<string, Check>();
+  private policy: PolicyConfig;
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.policy = {
+      ...DEFAULT_POLICY,
+      ...options.policy,
+      checks: { ...DEFAULT_POLICY.checks, ...options.policy?.checks }
+    };
+    (options.checks || []).forEach(check => this.register(check));
+  }
+
+  /**
+   * Add a check, replacing a registered check of the same name
+   */
+  register(check: Check): void {
+    this.checks.set(check.name, check);
+  }
+
+  getChecks(): Check[] {
+    return [...this.checks.values()];
+  }
+
+  /**
+   * The rules for a branch and dist-tag: the base policy, then every matching override in order
+   */
+  resolve(target: { branch?: string; tag: string }): ResolvedPolicy {
+    const layers = [this.policy, ...(this.policy.overrides || []).filter(override =>
+      (override.branch === undefined || (target.branch !== undefined && matchGlob(override.branch, target.branch))) &&
+      (override.tag === undefined || matchGlob(override.tag, target.tag))
+    )];
+
+    const resolved: ResolvedPolicy = { blockAt: 'high', checks: {} };
+    for (const layer of layers) {
+      if (layer.blockAt) resolved.blockAt = layer.blockAt;
+      for (const [name, rule] of Object.entries(layer.checks || {})) {
+        const next = typeof rule === 'string' ? { action: rule } : rule;
+        const current = resolved.checks[name] || { action: 'auto' as CheckAction };
+        resolved.checks[name] = {
+          ...current,
+          ...next,
+          action: next.action || current.action,
+          options: { ...current.options, ...next.options }
+        };
+      }
+    }
+    return resolved;
+  }
+
+  async evaluate(context: CheckContext, options: EvaluateOptions = {}): Promise<PolicyVerdict> {
+    const policy = this.resolve(context);
+    const checks: CheckVerdict[] = [];
+
+    for (const check of this.checks.values()) {
+      let rule = policy.checks[check.name] || { action: 'auto' as CheckAction };
+      if (rule.action === 'off' && options.only?.includes(check.name)) {
+        rule = { ...rule, action: 'warn' };
+      }
+      const base = { name: check.name, description: check.description, action: rule.action };
+
+      if (rule.action === 'off' || (options.only && !options.only.includes(check.name))) {
+        checks.push({ ...base, status: 'skipped', severity: rule.severity || check.severity, blocking: false, reasons: [], duration: 0 });
+        continue;
+      }
+
+      const started = Date.now();
+      let verdict: CheckVerdict;
+      try {
+        const outcome = await check.run(context, rule.options || {});
+        const severity = rule.severity || outcome.severity || check.severity;
+        verdict = {
+          ...base,
+          status: outcome.passed ? 'passed' : 'failed',
+          severity,
+          blocking: !outcome.passed && isBlocking(rule.action, severity, policy.blockAt),
+          reasons: outcome.reasons,
+          ...(outcome.details ? { details: outcome.details } : {}),
+          duration: Date.now() - started
+        };
+      } catch (error) {
+        // A check that could not run counts as failed, so an outage cannot wave a release through
+        const severity = rule.severity || check.severity;
+        verdict = {
+          ...base,
+          status: 'error',
+          severity,
+          blocking: isBlocking(rule.action, severity, policy.blockAt),
+          reasons: [`${check.name} check could not run: ${error instanceof Error ? error.message : error}`],
+          duration: Date.now() - started
+        };
+      }
+
+      logger.debug(`Policy check ${check.name}: ${verdict.status}${verdict.blocking ? ' (blocking)' : ''}`);
+      checks.push(verdict);
+    }
+
+    const blocking = checks.filter(check => check.blocking).length;
+    const warnings = checks.filter(check => (check.status === 'failed' || check.status === 'error') && !check.blocking).length;
+
+    return {
+      schemaVersion: 1,
+      package: context.packageJson.name,
+      version: context.packageJson.version,
+      tag: context.tag,
+      ...(context.branch ? { branch: context.branch } : {}),
+      ...(context.commit ? { commit: context.commit } : {}),
+      decision: blocking > 0 ? 'block' : warnings > 0 ? 'warn' : 'pass',
+      blockAt: policy.blockAt,
+      checks,
+      summary: {
+        passed: checks.filter(check => check.status === 'passed').length,
+        warnings,
+        blocking,
+        skipped: checks.filter(check => check.status === 'skipped').length
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+function isBlocking(action: CheckAction, severity: CheckSeverity, blockAt: CheckSeverity): boolean {
+  if (action === 'block') return true;
+  if (action === 'warn' || action === 'off') return false;
+  return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(blockAt);
+}
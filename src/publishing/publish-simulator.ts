@@ -0,0 +1,194 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PublishSimulation } from '../types/index.js';
+import { PackageContents, PackManifest } from '../scanners/package-contents.js';
+import { RegistryClient, DEFAULT_REGISTRY_URL } from '../registry/registry-client.js';
+import { SemanticVersioner } from '../versioning/semantic-versioner.js';
+import logger from '../utils/logger.js';
+
+export interface SimulationOptions {
+  registry?: string;
+  tag?: string;
+  /** Dist-tag for stable versions when `tag` is not set; prereleases use their channel's tag */
+  defaultTag?: string;
+  /** Channel to dist-tag mapping, merged over `DEFAULT_CHANNELS` */
+  channels?: Record<string, string>;
+  /** Warn when the unpacked size grows by more than this fraction, 0.2 by default */
+  sizeGrowthThreshold?: number;
+  /** Warn about single files larger than this many bytes, 1 MB by default */
+  largeFileSize?: number;
+  /** Skip the commit analysis and changelog */
+  skipVersionAnalysis?: boolean;
+}
+
+export interface PublishSimulatorOptions {
+  cwd?: string;
+  registryClient?: RegistryClient;
+  versioner?: SemanticVersioner;
+  /** Release tag format for the default versioner, from `versioning.tagName` */
+  tagFormat?: string;
+}
+
+const SUSPICIOUS_FILES: Array<{ label: string; patterns: RegExp[] }> = [
+  { label: 'Test files', patterns: [/(^|\/)(__tests__|__mocks__|tests?|spec)\//, /\.(test|spec)\.[cm]?[jt]sx?$/] },
+  { label: 'Environment files', patterns: [/(^|\/)\.env(\.(?!example$|sample$|template$)[^/]+)?$/] },
+  { label: 'Source maps', patterns: [/\.map$/] },
+  { label: 'Credential files', patterns: [/(^|\/)\.npmrc$/, /\.(pem|key|p12|pfx)$/, /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/] }
+];
+
+const LISTED_FILES = 5;
+
+/**
+ * Works out what `npm publish` would send without sending it
+ */
+export class PublishSimulator {
+  private cwd: string;
+  private registryClient?: RegistryClient;
+  private versioner: SemanticVersioner;
+
+  constructor(options: PublishSimulatorOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.registryClient = options.registryClient;
+    this.versioner = options.versioner || new SemanticVersioner({ cwd: this.cwd, tagFormat: options.tagFormat });
+  }
+
+  async simulate(options: SimulationOptions = {}): Promise<PublishSimulation> {
+    const registry = options.registry || DEFAULT_REGISTRY_URL;
+    const packageJson = JSON.parse(readFileSync(path.join(this.cwd, 'package.json'), 'utf-8'));
+    const tag = options.tag || SemanticVersioner.distTag(packageJson.version, options.channels) || options.defaultTag || 'latest';
+
+    const manifest = await new PackageContents({ cwd: this.cwd }).getManifest();
+    const files = manifest.files.map(file => file.path).sort();
+
+    const simulation: PublishSimulation = {
+      files,
+      size: manifest.size,
+      unpackedSize: manifest.unpackedSize,
+      registry,
+      tag,
+      warnings: [],
+      errors: []
+    };
+
+    simulation.warnings.push(...this.checkSuspiciousFiles(manifest, options.largeFileSize ?? 1024 * 1024));
+    simulation.warnings.push(...this.checkEntryPoints(packageJson, new Set(files)));
+    await this.compareWithPublished(simulation, packageJson, options.sizeGrowthThreshold ?? 0.2);
+
+    if (!options.skipVersionAnalysis) {
+      try {
+        simulation.version = await this.versioner.analyzeVersion(packageJson.version, { channels: options.channels });
+        simulation.changelog = await this.versioner.buildChangelogEntry(simulation.version.newVersion);
+      } catch (error) {
+        simulation.warnings.push(`Could not analyze commits: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return simulation;
+  }
+
+  private checkSuspiciousFiles(manifest: PackManifest, largeFileSize: number): string[] {
+    const warnings: string[] = [];
+
+    for (const { label, patterns } of SUSPICIOUS_FILES) {
+      const matches = manifest.files.map(file => file.path).filter(file => patterns.some(pattern => pattern.test(file)));
+      if (matches.length > 0) {
+        warnings.push(`${label} would be published: ${listFiles(matches)}`);
+      }
+    }
+
+    const large = manifest.files.filter(file => file.size > largeFileSize);
+    if (large.length > 0) {
+      warnings.push(`Large files would be published: ${listFiles(large.map(file => `${file.path} (${formatSize(file.size)})`))}`);
+    }
+
+    return warnings;
+  }
+
+  /**
+   * `main`, `exports` and `bin` targets that are missing from the tarball
+   */
+  private checkEntryPoints(packageJson: any, files: Set<string>): string[] {
+    const warnings: string[] = [];
+    const exists = (target: string, resolveLikeNode: boolean) => {
+      const normalized = path.posix.normalize(target.replace(/^\.\//, ''));
+      const candidates = resolveLikeNode
+        ? [normalized, `${normalized}.js`, `${normalized}.json`, `${normalized}.node`, `${normalized}/index.js`, `${normalized}/index.json`]
+        : [normalized];
+      return candidates.some(candidate => files.has(candidate));
+    };
+
+    if (typeof packageJson.main === 'string' && !exists(packageJson.main, true)) {
+      warnings.push(`"main" points at ${packageJson.main}, which is not in the package`);
+    }
+
+    for (const target of collectExportTargets(packageJson.exports)) {
+      // Subpath patterns only need one matching file, and that is not checked here
+      if (!target.includes('*') && !exists(target, false)) {
+        warnings.push(`"exports" points at ${target}, which is not in the package`);
+      }
+    }
+
+    const bins = typeof packageJson.bin === 'string' ? [packageJson.bin] : Object.values(packageJson.bin || {});
+    for (const target of bins as string[]) {
+      if (!exists(target, false)) {
+        warnings.push(`"bin" points at ${target}, which is not in the package`);
+      }
+    }
+
+    return warnings;
+  }
+
+  private async compareWithPublished(simulation: PublishSimulation, packageJson: any, threshold: number): Promise<void> {
+    const client = this.registryClient || new RegistryClient({ registry: simulation.registry });
+
+    let packument;
+    try {
+      packument = await client.getPackument(packageJson.name);
+    } catch (error) {
+      simulation.warnings.push(`Could not compare with the published package: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    if (!packument) {
+      logger.debug(`${packageJson.name} has not been published to ${simulation.registry} yet`);
+      return;
+    }
+
+    if (packument.versions[packageJson.version]) {
+      simulation.errors.push(`${packageJson.name}@${packageJson.version} is already published; bump the version first`);
+    }
+
+    const previousVersion = packument['dist-tags'][simulation.tag] || packument['dist-tags']['latest'];
+    const previous = previousVersion ? packument.versions[previousVersion] : undefined;
+    if (!previous) return;
+
+    simulation.previousVersion = previousVersion;
+    simulation.previousUnpackedSize = previous.dist.unpackedSize;
+
+    const before = previous.dist.unpackedSize;
+    const after = simulation.unpackedSize;
+    if (before && after && after > before * (1 + threshold)) {
+      const growth = Math.round(((after - before) / before) * 100);
+      simulation.warnings.push(
+        `Unpacked size grew ${growth}% since ${previousVersion} (${formatSize(before)} → ${formatSize(after)})`
+      );
+    }
+  }
+}
+
+function collectExportTargets(exports: unknown): string[] {
+  if (typeof exports === 'string') return [exports];
+  if (Array.isArray(exports)) return exports.flatMap(collectExportTargets);
+  if (exports && typeof exports === 'object') return Object.values(exports).flatMap(collectExportTargets);
+  return [];
+}
+
+function listFiles(files: string[]): string {
+  const shown = files.slice(0, LISTED_FILES).join(', ');
+  return files.length > LISTED_FILES ? `${shown} (+${files.length - LISTED_FILES} more)` : shown;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,384 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NPMSafeConfig, Plugin, PublishApproval, PublishOptions } from '../types/index.js';
+import { WebhookManager } from '../webhooks/webhook.js';
+import { SemanticVersioner } from '../versioning/semantic-versioner.js';
+import { DEFAULT_TAG_MESSAGE, DEFAULT_TAG_NAME, renderVersionTemplate } from '../versioning/version-writer.js';
+import logger from '../utils/logger.js';
+import { quoteArg } from '../utils/shell.js';
+
+const execAsync = promisify(exec);
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
+export interface PackResult {
+  name: string;
+  version: string;
+  /** Absolute path of the packed tarball */
+  tarball: string;
+  integrity: string;
+  shasum: string;
+  size: number;
+  unpackedSize: number;
+  files: string[];
+}
+
+export interface RollbackResult {
+  /** The post-publish step that failed */
+  failedStep: string;
+  error: string;
+  /** Version the dist-tag was pointed back to */
+  restoredVersion?: string;
+  /** Deprecation message, when the version was deprecated instead */
+  deprecated?: string;
+  succeeded: boolean;
+}
+
+export interface PublishResult {
+  name: string;
+  version: string;
+  tag: string;
+  registry: string;
+  access?: 'public' | 'restricted';
+  dryRun: boolean;
+  tarball: string;
+  integrity: string;
+  shasum: string;
+  size: number;
+  /** What `npm publish --json` reported */
+  response: Record<string, any>;
+  /** The `dist` metadata the registry serves for the new version */
+  registryDist?: { integrity?: string; shasum?: string; tarball?: string };
+  /** Version the dist-tag pointed to before this publish */
+  previousVersion?: string;
+  rollback?: RollbackResult;
+  /** Who approved the publish, when it needed approval */
+  approval?: PublishApproval;
+}
+
+/**
+ * Runs after the registry has accepted the package; a failure rolls the publish back
+ */
+export interface PostPublishStep {
+  name: string;
+  run(result: PublishResult): Promise<void>;
+}
+
+export interface PublisherOptions {
+  cwd?: string;
+  config?: NPMSafeConfig;
+  plugins?: Plugin[];
+  steps?: PostPublishStep[];
+  webhookManager?: WebhookManager;
+  timeout?: number;
+  /** Times to ask the registry for the new version before giving up on the integrity check; 6 by default */
+  verifyAttempts?: number;
+  /** Wait before asking again, doubled each time; 2000 ms by default */
+  verifyRetryDelay?: number;
+}
+
+export class PublishError extends Error {
+  constructor(message: string, public result?: PublishResult) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+export interface GitTagPushOptions {
+  cwd?: string;
+  /** Tag name and message templates, as in `versioning.tagName` and `versioning.tagMessage` */
+  tagName?: string;
+  tagMessage?: string;
+}
+
+/**
+ * Pushes the release tag once the package is live, creating it as an annotated tag if
+ * `version --tag` has not already
+ */
+export class GitTagPushStep implements PostPublishStep {
+  name = 'git-tag-push';
+
+  constructor(private remote: string = 'origin', private options: GitTagPushOptions = {}) {}
+
+  async run(result: PublishResult): Promise<void> {
+    const values = { version: result.version, name: result.name };
+    const tag = renderVersionTemplate(this.options.tagName || DEFAULT_TAG_NAME, values);
+    const options = { cwd: this.options.cwd, timeout: 60000 };
+
+    try {
+      await execAsync(`git rev-parse --verify --quiet ${quoteArg(`refs/tags/${tag}`)}`, options);
+    } catch {
+      const message = renderVersionTemplate(this.options.tagMessage || DEFAULT_TAG_MESSAGE, values);
+      await execAsync(`git tag -a ${quoteArg(tag)} -m ${quoteArg(message)}`, options);
+    }
+    await execAsync(`git push ${quoteArg(this.remote)} ${quoteArg(`refs/tags/${tag}`)}`, options);
+    logger.info(`🏷️ Pushed ${tag} to ${this.remote}`);
+  }
+}
+
+/**
+ * Packs and publishes with the npm CLI, so registry auth and `.npmrc` settings work as usual
+ */
+export class Publisher {
+  private cwd: string;
+  private config: NPMSafeConfig;
+  private plugins: Plugin[];
+  private steps: PostPublishStep[];
+  private webhookManager?: WebhookManager;
+  private timeout: number;
+  private verifyAttempts: number;
+  private verifyRetryDelay: number;
+
+  constructor(options: PublisherOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.config = options.config || { version: '1.0.0', config: {} };
+    this.plugins = options.plugins || [];
+    this.steps = options.steps || [];
+    this.webhookManager = options.webhookManager;
+    this.timeout = options.timeout ?? 300000;
+    this.verifyAttempts = options.verifyAttempts ?? 6;
+    this.verifyRetryDelay = options.verifyRetryDelay ?? 2000;
+  }
+
+  addStep(step: PostPublishStep): void {
+    this.steps.push(step);
+  }
+
+  async pack(destination: string): Promise<PackResult> {
+    const output = await this.npm(['pack', '--json', '--pack-destination', destination]);
+    const [packed] = JSON.parse(output);
+    return {
+      name: packed.name,
+      version: packed.version,
+      tarball: path.join(destination, packed.filename),
+      integrity: packed.integrity,
+      shasum: packed.shasum,
+      size: packed.size,
+      unpackedSize: packed.unpackedSize,
+      files: (packed.files || []).map((file: { path: string }) => file.path)
+    };
+  }
+
+  /**
+   * Current dist-tags of a package, or an empty object if it has never been published
+   */
+  async getDistTags(name: string, registry: string): Promise<Record<string, string>> {
+    try {
+      const output = await this.npm(['view', name, 'dist-tags', '--json', '--registry', registry]);
+      return output.trim() ? JSON.parse(output) : {};
+    } catch (error) {
+      if (isNotFound(error)) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  async publish(options: PublishOptions = {}): Promise<PublishResult> {
+    const manifest = JSON.parse(readFileSync(path.join(this.cwd, 'package.json'), 'utf-8'));
+    const registry = options.registry || this.config.config.registry || DEFAULT_REGISTRY;
+    const tag = options.tag || SemanticVersioner.distTag(manifest.version, this.config.config.channels) || this.config.config.tag || 'latest';
+    const dryRun = Boolean(options.dryRun);
+
+    for (const plugin of this.plugins) {
+      if (plugin.hooks.prePublish && !(await plugin.hooks.prePublish(this.config))) {
+        throw new PublishError(`Plugin ${plugin.name} blocked the publish`);
+      }
+    }
+
+    const previousVersion = dryRun ? undefined : (await this.getDistTags(manifest.name, registry))[tag];
+    const directory = mkdtempSync(path.join(tmpdir(), 'npmsafe-publish-'));
+
+    let result: PublishResult;
+    try {
+      const packed = await this.pack(directory);
+      // Publish the directory rather than the tarball: npm skips prepublishOnly, publish and
+      // postpublish for a tarball. The pack is what was checked, so its integrity is the expected one.
+      const args = ['publish', '--json', '--tag', tag, '--registry', registry];
+      if (options.access) args.push('--access', options.access);
+      if (options.otp) args.push('--otp', options.otp);
+      if (dryRun) args.push('--dry-run');
+
+      let response: Record<string, any>;
+      try {
+        response = parseJson(await this.npm(args));
+      } catch (error) {
+        throw new PublishError(`npm publish failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      result = {
+        name: packed.name,
+        version: packed.version,
+        tag,
+        registry,
+        access: options.access,
+        dryRun,
+        tarball: path.basename(packed.tarball),
+        integrity: packed.integrity,
+        shasum: packed.shasum,
+        size: packed.size,
+        response,
+        previousVersion,
+        approval: options.approval
+      };
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+
+    if (dryRun) {
+      if (result.response.integrity && result.response.integrity !== result.integrity) {
+        logger.warn(`⚠️ npm would publish ${result.response.integrity}, not the packed ${result.integrity}; a publish script changes the package`);
+      }
+      return result;
+    }
+
+    logger.success(`📦 Published ${result.name}@${result.version} to ${registry} with tag ${tag}`);
+
+    for (const step of this.postPublishSteps()) {
+      try {
+        await step.run(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Post-publish step ${step.name} failed: ${message}`);
+        result.rollback = await this.rollback(result, step.name, message);
+        throw new PublishError(`Post-publish step ${step.name} failed: ${message}`, result);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Point the dist-tag back at the previous version, or deprecate the new version when there
+   * is nothing to go back to
+   */
+  async rollback(result: PublishResult, failedStep: string, error: string): Promise<RollbackResult> {
+    const rollback: RollbackResult = { failedStep, error, succeeded: false };
+    const spec = `${result.name}@${result.version}`;
+
+    logger.warn(`↩️ Rolling back ${spec}...`);
+
+    if (result.previousVersion && result.previousVersion !== result.version) {
+      try {
+        await this.npm(['dist-tag', 'add', `${result.name}@${result.previousVersion}`, result.tag, '--registry', result.registry]);
+        rollback.restoredVersion = result.previousVersion;
+        rollback.succeeded = true;
+        logger.warn(`  ${result.tag} now points at ${result.previousVersion} again`);
+      } catch (tagError) {
+        logger.error(`  Could not restore ${result.tag}: ${tagError instanceof Error ? tagError.message : tagError}`);
+      }
+    }
+
+    if (!rollback.succeeded) {
+      const message = `Rolled back by npmsafe: ${failedStep} failed after publishing`;
+      try {
+        await this.npm(['deprecate', spec, message, '--registry', result.registry]);
+        rollback.deprecated = message;
+        rollback.succeeded = true;
+        logger.warn(`  Deprecated ${spec}`);
+      } catch (deprecateError) {
+        logger.error(`  Could not deprecate ${spec}: ${deprecateError instanceof Error ? deprecateError.message : deprecateError}`);
+      }
+    }
+
+    await this.webhookManager?.sendEvent({
+      event: 'rollback',
+      package: result.name,
+      version: result.version,
+      timestamp: new Date().toISOString(),
+      data: {
+        tag: result.tag,
+        registry: result.registry,
+        failedStep,
+        error,
+        restoredVersion: rollback.restoredVersion,
+        deprecated: rollback.deprecated,
+        succeeded: rollback.succeeded
+      }
+    });
+
+    return rollback;
+  }
+
+  /**
+   * Integrity check first, then plugin hooks, then the configured steps such as the tag push
+   */
+  private postPublishSteps(): PostPublishStep[] {
+    const verify: PostPublishStep = {
+      name: 'verify-integrity',
+      run: async (result) => {
+        // prepublishOnly can change files after the pack, so npm may have sent something else
+        if (result.response.integrity && result.response.integrity !== result.integrity) {
+          throw new Error(`npm published ${result.response.integrity}, expected the packed ${result.integrity}`);
+        }
+        result.registryDist = await this.viewPublishedDist(result);
+        if (!result.registryDist) {
+          // Not visible yet is registry lag, not a bad publish, so it must not trigger a rollback
+          logger.warn(`⚠️ ${result.name}@${result.version} is not visible on ${result.registry} yet; skipped the integrity check`);
+          return;
+        }
+        if (result.registryDist.integrity && result.registryDist.integrity !== result.integrity) {
+          throw new Error(`registry serves ${result.registryDist.integrity}, expected ${result.integrity}`);
+        }
+      }
+    };
+
+    const plugins: PostPublishStep[] = this.plugins
+      .filter(plugin => plugin.hooks.postPublish)
+      .map(plugin => ({
+        name: `plugin:${plugin.name}`,
+        run: () => plugin.hooks.postPublish!(this.config)
+      }));
+
+    return [verify, ...plugins, ...this.steps];
+  }
+
+  /**
+   * The `dist` the registry serves for a just-published version. A fresh version can 404 for a
+   * while, so this asks again with backoff and returns undefined if it never shows up.
+   */
+  private async viewPublishedDist(result: PublishResult): Promise<PublishResult['registryDist']> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const output = await this.npm(['view', `${result.name}@${result.version}`, 'dist', '--json', '--registry', result.registry]);
+        // npm view prints nothing when the package exists but this version is not listed yet
+        if (output.trim()) return JSON.parse(output);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+      if (attempt >= this.verifyAttempts) return undefined;
+      await new Promise(resolve => setTimeout(resolve, this.verifyRetryDelay * 2 ** (attempt - 1)));
+    }
+  }
+
+  private async npm(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execAsync(`npm ${args.map(quoteArg).join(' ')}`, {
+        cwd: this.cwd,
+        timeout: this.timeout,
+        maxBuffer: 64 * 1024 * 1024
+      });
+      return stdout;
+    } catch (error: any) {
+      // With --json npm reports failures as `{ "error": { "summary", "detail" } }` on stdout
+      const reported = parseJson(error.stdout || '').error;
+      const detail = reported?.summary || String(error.stderr || error.message).trim().split('\n').pop();
+      throw new Error(`npm ${args[0]} failed${reported?.code ? ` (${reported.code})` : ''}: ${detail}`);
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return /E404|404 Not Found|is not in this registry/i.test(String(error instanceof Error ? error.message : error));
+}
+
+function parseJson(text: string): Record<string, any> {
+  try {
+    return text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return { output: text.trim() };
+  }
+}
@@ -0,0 +1,120 @@
+import axios from 'axios';
+import logger from '../utils/logger.js';
+
+export const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org/';
+
+export const DEFAULT_DOWNLOADS_URL = 'https://api.npmjs.org/';
+
+export interface PackumentVersion {
+  name: string;
+  version: string;
+  main?: string;
+  deprecated?: string;
+  dependencies?: Record<string, string>;
+  dist: {
+    integrity?: string;
+    shasum?: string;
+    tarball?: string;
+    fileCount?: number;
+    unpackedSize?: number;
+  };
+  [key: string]: unknown;
+}
+
+export interface Packument {
+  name: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, PackumentVersion>;
+  time?: Record<string, string>;
+  maintainers?: Array<{ name: string; email?: string }>;
+}
+
+export interface RegistryClientOptions {
+  registry?: string;
+  /** Bearer token for private registries */
+  token?: string;
+  /** Base URL of the download counts API */
+  downloadsUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * Read-only access to registry metadata
+ */
+export class RegistryClient {
+  private registry: string;
+  private token?: string;
+  private downloadsUrl: string;
+  private timeout: number;
+
+  constructor(options: RegistryClientOptions = {}) {
+    this.registry = (options.registry || DEFAULT_REGISTRY_URL).replace(/\/?$/, '/');
+    this.downloadsUrl = (options.downloadsUrl || DEFAULT_DOWNLOADS_URL).replace(/\/?$/, '/');
+    this.token = options.token;
+    this.timeout = options.timeout ?? 15000;
+  }
+
+  getRegistry(): string {
+    return this.registry;
+  }
+
+  /**
+   * Full package document, or null if the package has never been published
+   */
+  async getPackument(name: string): Promise<Packument | null> {
+    return this.get<Packument>(`${this.registry}${encodePackageName(name)}`, name);
+  }
+
+  async getVersion(name: string, version: string): Promise<PackumentVersion | null> {
+    const packument = await this.getPackument(name);
+    return packument?.versions[version] || null;
+  }
+
+  async getDistTags(name: string): Promise<Record<string, string>> {
+    return (await this.getPackument(name))?.['dist-tags'] || {};
+  }
+
+  /**
+   * Downloads over the last week, of the whole package or of one version
+   */
+  async getWeeklyDownloads(name: string, version?: string): Promise<number> {
+    if (version) {
+      const data = await this.get<{ downloads: Record<string, number> }>(
+        `${this.downloadsUrl}versions/${encodeURIComponent(name)}/last-week`, name
+      );
+      return data?.downloads?.[version] || 0;
+    }
+
+    const data = await this.get<{ downloads: number }>(`${this.downloadsUrl}downloads/point/last-week/${name}`, name);
+    return data?.downloads || 0;
+  }
+
+  /**
+   * GET a JSON document, or null on 404
+   */
+  private async get<T>(url: string, name: string): Promise<T | null> {
+    try {
+      const response = await axios.get(url, {
+        timeout: this.timeout,
+        headers: {
+          accept: 'application/json',
+          ...(this.token ? { authorization: `Bearer ${this.token}` } : {})
+        }
+      });
+      return response.data as T;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      logger.debug(`Registry request ${url} failed: ${error.message}`);
+      throw new Error(`Could not fetch ${name} from ${new URL(url).origin}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Scoped names keep their `@` but escape the slash, as the registry expects
+ */
+export function encodePackageName(name: string): string {
+  return name.startsWith('@') ? `@${encodeURIComponent(name.slice(1))}` : encodeURIComponent(name);
+}
@@ -0,0 +1,148 @@
+import semver from 'semver';
+import { UnpublishAlternative, UnpublishImpact } from '../types/index.js';
+import { RegistryClient, Packument, DEFAULT_REGISTRY_URL } from './registry-client.js';
+import { quoteArg } from '../utils/shell.js';
+
+/**
+ * Limits from npm's unpublish policy
+ */
+export const UNPUBLISH_WINDOW_HOURS = 72;
+export const UNPUBLISH_MAX_WEEKLY_DOWNLOADS = 300;
+
+export interface UnpublishAnalyzerOptions {
+  client?: RegistryClient;
+  /** Used for the 72-hour window, the current time by default */
+  now?: Date;
+}
+
+export class UnpublishAnalyzer {
+  private client: RegistryClient;
+  private now?: Date;
+
+  constructor(options: UnpublishAnalyzerOptions = {}) {
+    this.client = options.client || new RegistryClient();
+    this.now = options.now;
+  }
+
+  /**
+   * What unpublishing a version, or the whole package when no version is given, would break
+   */
+  async analyze(name: string, version?: string): Promise<UnpublishImpact> {
+    const packument = await this.client.getPackument(name);
+    if (!packument) {
+      throw new Error(`${name} is not published to ${this.client.getRegistry()}`);
+    }
+    if (version && !packument.versions[version]) {
+      throw new Error(`${name}@${version} is not published to ${this.client.getRegistry()}`);
+    }
+
+    const remaining = Object.keys(packument.versions).filter(published => published !== version);
+    const removesPackage = !version || remaining.length === 0;
+
+    // The impact is about this version, but npm's download limit counts the whole package
+    const [downloads, packageDownloads] = await Promise.all([
+      this.client.getWeeklyDownloads(name, removesPackage ? undefined : version),
+      removesPackage ? undefined : this.client.getWeeklyDownloads(name)
+    ]);
+
+    const publishedAt = packument.time?.[version || 'created'];
+    const distTags = Object.entries(packument['dist-tags'])
+      .filter(([, target]) => removesPackage || target === version)
+      .map(([tag]) => tag);
+
+    const impact: UnpublishImpact = {
+      package: name,
+      version,
+      publishedAt,
+      downloads,
+      distTags,
+      riskLevel: 'low',
+      allowed: true,
+      policyViolations: this.checkPolicy(packument, publishedAt, packageDownloads ?? downloads),
+      alternatives: this.alternatives(packument, version, distTags, remaining),
+      warnings: []
+    };
+
+    impact.allowed = impact.policyViolations.length === 0;
+    impact.riskLevel = UnpublishAnalyzer.riskLevel(impact);
+
+    if (removesPackage) {
+      impact.warnings.push(`This removes every version of ${name}; the name cannot be published again for 24 hours`);
+    }
+    // The registry has no API that lists dependents, so this cannot be checked here
+    impact.warnings.push(this.client.getRegistry() === DEFAULT_REGISTRY_URL
+      ? `npm refuses the unpublish if other packages depend on ${name}; check https://www.npmjs.com/package/${name}?activeTab=dependents`
+      : `The registry may refuse the unpublish if other packages depend on ${name}`);
+    if (distTags.length > 0 && !removesPackage) {
+      impact.warnings.push(`${name}@${version} is the target of ${distTags.join(', ')}`);
+    }
+
+    return impact;
+  }
+
+  /**
+   * Anything that lets the registry reject the unpublish. After 72 hours the package needs under
+   * 300 weekly downloads and a single maintainer. npm also refuses when other packages depend
+   * on it, which is a warning instead because the registry cannot be asked.
+   */
+  private checkPolicy(packument: Packument, publishedAt: string | undefined, downloads: number): string[] {
+    const violations: string[] = [];
+
+    const age = publishedAt ? (this.currentTime() - Date.parse(publishedAt)) / 3600000 : Infinity;
+    if (age <= UNPUBLISH_WINDOW_HOURS) {
+      return violations;
+    }
+
+    if (downloads >= UNPUBLISH_MAX_WEEKLY_DOWNLOADS) {
+      violations.push(`Published over ${UNPUBLISH_WINDOW_HOURS} hours ago and ${packument.name} had ${downloads} downloads last week (limit ${UNPUBLISH_MAX_WEEKLY_DOWNLOADS - 1})`);
+    }
+    if ((packument.maintainers?.length || 0) > 1) {
+      violations.push(`Published over ${UNPUBLISH_WINDOW_HOURS} hours ago and has ${packument.maintainers!.length} maintainers`);
+    }
+
+    return violations;
+  }
+
+  private alternatives(packument: Packument, version: string | undefined, distTags: string[], remaining: string[]): UnpublishAlternative[] {
+    const name = packument.name;
+    const spec = version ? `${name}@${version}` : name;
+    const alternatives: UnpublishAlternative[] = [{
+      action: 'deprecate',
+      description: `Deprecate ${spec} so installs warn but keep working`,
+      command: `npm deprecate ${quoteArg(spec)} ${quoteArg('<reason>')}`
+    }];
+
+    if (!version) {
+      return alternatives;
+    }
+
+    // Newest remaining version that is not deprecated, and not a prerelease unless this one is
+    const fallback = remaining
+      .filter(candidate => semver.valid(candidate) && !packument.versions[candidate].deprecated)
+      .sort(semver.rcompare)
+      .find(candidate => !semver.prerelease(candidate) || semver.prerelease(version));
+
+    if (fallback) {
+      for (const tag of distTags) {
+        alternatives.push({
+          action: 'dist-tag',
+          description: `Point ${tag} back at ${fallback} so new installs skip ${version}`,
+          command: `npm dist-tag add ${quoteArg(`${name}@${fallback}`)} ${quoteArg(tag)}`
+        });
+      }
+    }
+
+    return alternatives;
+  }
+
+  static riskLevel(impact: Pick<UnpublishImpact, 'downloads' | 'distTags' | 'allowed'>): UnpublishImpact['riskLevel'] {
+    if (impact.downloads >= 10000) return 'critical';
+    if (impact.downloads >= 1000) return 'high';
+    if (!impact.allowed || impact.downloads >= UNPUBLISH_MAX_WEEKLY_DOWNLOADS || impact.distTags.includes('latest')) return 'medium';
+    return 'low';
+  }
+
+  private currentTime(): number {
+    return (this.now || new Date()).getTime();
+  }
+}
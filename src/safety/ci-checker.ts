@@ -0,0 +1,177 @@
+import axios from 'axios';
+import { CIStatus, SafetyCheckResult } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export type CIProvider = 'github-actions' | 'gitlab' | 'circleci' | 'jenkins' | 'buildkite';
+
+export interface CIEnvironment {
+  provider: CIProvider;
+  buildUrl?: string;
+  commit?: string;
+  /** `owner/name` when the provider exposes it */
+  repository?: string;
+}
+
+export interface CICheckerOptions {
+  env?: NodeJS.ProcessEnv;
+  githubToken?: string;
+  /** `owner/name`; falls back to `GITHUB_REPOSITORY` on GitHub Actions */
+  githubRepo?: string;
+  githubApiUrl?: string;
+  timeout?: number;
+}
+
+const FAILED_CONCLUSIONS = ['failure', 'cancelled', 'timed_out', 'action_required', 'startup_failure', 'stale'];
+
+/**
+ * Detects the CI provider from its environment variables and, with a GitHub token and repository
+ * configured, asks GitHub how the commit's checks and statuses went
+ */
+export class CIChecker {
+  private env: NodeJS.ProcessEnv;
+  private githubToken?: string;
+  private githubRepo?: string;
+  private githubApiUrl: string;
+  private timeout: number;
+
+  constructor(options: CICheckerOptions = {}) {
+    this.env = options.env || process.env;
+    this.githubToken = options.githubToken || undefined;
+    this.githubRepo = options.githubRepo || undefined;
+    this.githubApiUrl = (options.githubApiUrl || DEFAULT_GITHUB_API_URL).replace(/\/$/, '');
+    this.timeout = options.timeout ?? 15000;
+  }
+
+  detect(): CIEnvironment | null {
+    const env = this.env;
+
+    if (env['GITHUB_ACTIONS'] === 'true') {
+      const server = env['GITHUB_SERVER_URL'] || 'https://github.com';
+      return {
+        provider: 'github-actions',
+        buildUrl: env['GITHUB_RUN_ID'] ? `${server}/${env['GITHUB_REPOSITORY']}/actions/runs/${env['GITHUB_RUN_ID']}` : undefined,
+        commit: env['GITHUB_SHA'],
+        repository: env['GITHUB_REPOSITORY']
+      };
+    }
+    if (env['GITLAB_CI']) {
+      return { provider: 'gitlab', buildUrl: env['CI_JOB_URL'] || env['CI_PIPELINE_URL'], commit: env['CI_COMMIT_SHA'], repository: env['CI_PROJECT_PATH'] };
+    }
+    if (env['CIRCLECI']) {
+      const repository = env['CIRCLE_PROJECT_USERNAME'] && env['CIRCLE_PROJECT_REPONAME']
+        ? `${env['CIRCLE_PROJECT_USERNAME']}/${env['CIRCLE_PROJECT_REPONAME']}`
+        : undefined;
+      return { provider: 'circleci', buildUrl: env['CIRCLE_BUILD_URL'], commit: env['CIRCLE_SHA1'], repository };
+    }
+    if (env['JENKINS_URL']) {
+      return { provider: 'jenkins', buildUrl: env['BUILD_URL'], commit: env['GIT_COMMIT'] };
+    }
+    if (env['BUILDKITE']) {
+      return { provider: 'buildkite', buildUrl: env['BUILDKITE_BUILD_URL'], commit: env['BUILDKITE_COMMIT'] };
+    }
+
+    return null;
+  }
+
+  /**
+   * CI status of a commit, the one CI is building when no commit is given
+   */
+  async getStatus(commit?: string): Promise<CIStatus> {
+    const environment = this.detect();
+    const sha = commit || environment?.commit;
+    const repo = this.githubRepo || (environment?.provider === 'github-actions' ? environment.repository : undefined);
+
+    if (this.githubToken && repo && sha) {
+      return this.getGitHubStatus(repo, sha, environment);
+    }
+
+    return {
+      // Publishing from a pipeline means the steps before it got this far
+      isPassing: Boolean(environment),
+      provider: environment?.provider || 'none',
+      buildUrl: environment?.buildUrl,
+      commit: sha,
+      lastRun: new Date().toISOString(),
+      status: 'unknown'
+    };
+  }
+
+  async check(commit?: string): Promise<SafetyCheckResult & { status: CIStatus }> {
+    const status = await this.getStatus(commit);
+    const reasons: string[] = [];
+    const target = status.commit ? `commit ${status.commit.slice(0, 7)}` : 'this commit';
+
+    if (status.status === 'failing') {
+      reasons.push(`CI failed for ${target} (${status.failedChecks!.join(', ')}); fix the build before publishing`);
+    } else if (status.status === 'pending') {
+      reasons.push(`CI is still running for ${target} (${status.pendingChecks!.join(', ')}); wait for it to finish`);
+    } else if (status.status === 'unknown' && !status.isPassing) {
+      reasons.push(
+        'Not running in CI and no CI result is available; publish from a CI pipeline, or set githubToken and githubRepo so the commit\'s GitHub checks can be read'
+      );
+    } else if (status.status === 'passing' && !status.isPassing) {
+      reasons.push(`GitHub reports no checks for ${target}; push it and let CI run before publishing`);
+    }
+
+    return { name: 'CI Status', status, passed: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Check runs and the combined commit status. The run doing the publish is still in progress,
+   * so its own check runs are left out.
+   */
+  private async getGitHubStatus(repo: string, sha: string, environment: CIEnvironment | null): Promise<CIStatus> {
+    const headers = {
+      accept: 'application/vnd.github+json',
+      authorization: `Bearer ${this.githubToken}`
+    };
+    const base = `${this.githubApiUrl}/repos/${repo}/commits/${encodeURIComponent(sha)}`;
+
+    let runs: Array<{ name: string; status: string; conclusion: string | null; details_url?: string; completed_at?: string | null; started_at?: string }>;
+    let combined: { state: string; statuses: Array<{ context: string; state: string; updated_at?: string }> };
+    try {
+      const [checkRuns, status] = await Promise.all([
+        axios.get(`${base}/check-runs?per_page=100`, { headers, timeout: this.timeout }),
+        axios.get(`${base}/status`, { headers, timeout: this.timeout })
+      ]);
+      runs = checkRuns.data.check_runs || [];
+      combined = status.data;
+    } catch (error: any) {
+      logger.debug(`GitHub status request failed: ${error.message}`);
+      throw new Error(`Could not read CI status of ${sha.slice(0, 7)} from GitHub: ${error.response?.status || ''} ${error.message}`.trim());
+    }
+
+    const ownRun = this.env['GITHUB_RUN_ID'] ? `/actions/runs/${this.env['GITHUB_RUN_ID']}/` : undefined;
+    const relevant = runs.filter(run => !ownRun || !run.details_url?.includes(ownRun));
+
+    const failedChecks = [
+      ...relevant.filter(run => run.status === 'completed' && FAILED_CONCLUSIONS.includes(run.conclusion || '')).map(run => run.name),
+      ...(combined.statuses || []).filter(status => status.state === 'failure' || status.state === 'error').map(status => status.context)
+    ];
+    const pendingChecks = [
+      ...relevant.filter(run => run.status !== 'completed').map(run => run.name),
+      ...(combined.statuses || []).filter(status => status.state === 'pending').map(status => status.context)
+    ];
+    const total = relevant.length + (combined.statuses || []).length;
+
+    const times = [
+      ...relevant.map(run => run.completed_at || run.started_at),
+      ...(combined.statuses || []).map(status => status.updated_at)
+    ].filter((time): time is string => Boolean(time)).sort();
+
+    const status: CIStatus['status'] = failedChecks.length > 0 ? 'failing' : pendingChecks.length > 0 ? 'pending' : 'passing';
+
+    return {
+      isPassing: status === 'passing' && (total > 0 || Boolean(ownRun)),
+      provider: environment?.provider || 'github',
+      buildUrl: environment?.buildUrl,
+      commit: sha,
+      lastRun: times[times.length - 1] || new Date().toISOString(),
+      status,
+      failedChecks,
+      pendingChecks
+    };
+  }
+}
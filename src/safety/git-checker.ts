@@ -0,0 +1,136 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitStatus, SafetyCheckResult } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_RELEASE_BRANCHES = ['main', 'master'];
+
+export interface GitCheckerOptions {
+  cwd?: string;
+  /** Branch names or `*` globs releases may be published from; empty allows any branch */
+  releaseBranches?: string[];
+  /** Fail unless HEAD carries a tag */
+  requireTag?: boolean;
+  timeout?: number;
+}
+
+export class GitChecker {
+  private cwd?: string;
+  private releaseBranches: string[];
+  private requireTag: boolean;
+  private timeout: number;
+
+  constructor(options: GitCheckerOptions = {}) {
+    this.cwd = options.cwd;
+    this.releaseBranches = options.releaseBranches ?? DEFAULT_RELEASE_BRANCHES;
+    this.requireTag = options.requireTag ?? false;
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  async getStatus(): Promise<GitStatus> {
+    const porcelain = await this.git(['status', '--porcelain=v1', '-z', '--untracked-files=normal']);
+    const uncommittedFiles = parsePorcelain(porcelain);
+
+    const lastCommit = await this.git(['rev-parse', '--verify', '--quiet', 'HEAD']).then(out => out.trim(), () => '');
+    const currentBranch = await this.git(['symbolic-ref', '--quiet', '--short', 'HEAD']).then(out => out.trim(), () => 'HEAD');
+
+    let upstream: string | undefined;
+    let ahead = 0;
+    let behind = 0;
+    try {
+      upstream = (await this.git(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'])).trim();
+      const [left, right] = (await this.git(['rev-list', '--left-right', '--count', 'HEAD...@{upstream}'])).trim().split(/\s+/);
+      ahead = Number(left) || 0;
+      behind = Number(right) || 0;
+    } catch {
+      upstream = undefined;
+    }
+
+    const tags = lastCommit
+      ? (await this.git(['tag', '--points-at', 'HEAD'])).split('\n').map(tag => tag.trim()).filter(Boolean)
+      : [];
+
+    return {
+      isClean: uncommittedFiles.length === 0,
+      uncommittedFiles,
+      currentBranch,
+      upstream,
+      ahead,
+      behind,
+      lastCommit,
+      tags
+    };
+  }
+
+  /**
+   * Everything about the working copy that should stop a release, each with what to do about it
+   */
+  async check(): Promise<SafetyCheckResult & { status: GitStatus }> {
+    const status = await this.getStatus();
+    return { name: 'Git Status', status, ...this.evaluate(status) };
+  }
+
+  evaluate(status: GitStatus): { passed: boolean; reasons: string[] } {
+    const reasons: string[] = [];
+
+    if (!status.lastCommit) {
+      reasons.push('The repository has no commits; commit the release before publishing');
+    }
+
+    if (!status.isClean) {
+      const listed = status.uncommittedFiles.slice(0, 5).join(', ');
+      const more = status.uncommittedFiles.length > 5 ? ` and ${status.uncommittedFiles.length - 5} more` : '';
+      reasons.push(`${status.uncommittedFiles.length} uncommitted change(s) (${listed}${more}); commit or stash them so the package matches a commit`);
+    }
+
+    if (status.currentBranch === 'HEAD') {
+      reasons.push('HEAD is detached; check out a release branch before publishing');
+    } else if (this.releaseBranches.length > 0 && !this.releaseBranches.some(pattern => matchGlob(pattern, status.currentBranch))) {
+      reasons.push(`Releases are published from ${this.releaseBranches.join(', ')}, not ${status.currentBranch}; switch branches or add it to releaseBranches`);
+    }
+
+    if (status.currentBranch !== 'HEAD' && !status.upstream) {
+      reasons.push(`${status.currentBranch} has no upstream branch; push it with \`git push -u origin ${status.currentBranch}\``);
+    }
+    if (status.behind > 0) {
+      reasons.push(`${status.currentBranch} is ${status.behind} commit(s) behind ${status.upstream}; pull and re-run the checks`);
+    }
+    if (status.ahead > 0) {
+      reasons.push(`${status.currentBranch} has ${status.ahead} commit(s) not pushed to ${status.upstream}; push them so CI can check what you publish`);
+    }
+
+    if (this.requireTag && status.lastCommit && status.tags.length === 0) {
+      reasons.push('HEAD is not tagged; tag the release commit, e.g. with `npmsafe version`, before publishing');
+    }
+
+    return { passed: reasons.length === 0, reasons };
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.cwd,
+      timeout: this.timeout,
+      maxBuffer: 16 * 1024 * 1024
+    });
+    return stdout;
+  }
+}
+
+/**
+ * Paths from `git status --porcelain=v1 -z`, where renames carry their source as an extra entry
+ */
+function parsePorcelain(output: string): string[] {
+  const files: string[] = [];
+  const entries = output.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    files.push(entry.slice(3));
+    if (/^[RC]/.test(entry)) i++;
+  }
+
+  return files;
+}
@@ -0,0 +1,269 @@
+import path from 'path';
+import JSON5 from 'json5';
+import { LineCounter, parseAllDocuments, isMap, isScalar, isSeq, Node } from 'yaml';
+import { SecretPattern, SecretScanResult } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export type ConfigFormat = 'json' | 'yaml' | 'toml' | 'ini' | 'dotenv' | 'npmrc';
+
+export interface ConfigValue {
+  /** Key path such as `database.prod.password` or `servers[0].token` */
+  keyPath: string;
+  key: string;
+  value: string;
+  line: number;
+  column: number;
+}
+
+// Compared against key names lowercased with `_`, `-`, `.` and spaces removed. Anchoring at
+// the end keeps keys that merely name a secret, like `tokenUrl` or `passwordMinLength`, out.
+const SENSITIVE_KEYS = [
+  /pass(word|wd|phrase)\d*$/, /^pwd$/,
+  /secret\d*$/, /token\d*$/, /(api|access|private|secret|signing|encryption|master)key\d*$/,
+  /credentials?$/, /^auth$/
+];
+
+// Values that point at the real secret elsewhere
+const PLACEHOLDER_VALUES = [
+  /^\$\{?[A-Za-z_][A-Za-z0-9_]*\}?$/, // $VAR, ${VAR}
+  /^%[A-Za-z_][A-Za-z0-9_]*%$/, // %VAR%
+  /\{\{.*\}\}/, // templates
+  /^<.*>$/, // <your-password>
+  /process\.env/,
+  /^\*+$/,
+  /^x+$/i,
+  /^(true|false|null|none|nil|undefined|~)$/i
+];
+
+const LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json', 'composer.lock'];
+
+export class ConfigFileScanner {
+  static readonly PATTERN: SecretPattern = {
+    name: 'Sensitive Config Value',
+    pattern: /(password|passwd|secret|token|api[_-]?key|_auth)/i,
+    description: 'Value assigned to a sensitive configuration key',
+    severity: 'high'
+  };
+
+  /**
+   * Work out the config format from the file name, or null for files this scanner ignores
+   */
+  static detectFormat(file: string): ConfigFormat | null {
+    const name = path.posix.basename(file.split('!/').pop()!.split(path.sep).join('/')).toLowerCase();
+
+    if (LOCKFILES.includes(name)) return null;
+    if (name === '.npmrc' || name === '.yarnrc') return 'npmrc';
+    if (name === '.env' || name.startsWith('.env.') || name.endsWith('.env')) return 'dotenv';
+    if (/\.(json|json5|jsonc)$/.test(name)) return 'json';
+    if (/\.(ya?ml)$/.test(name)) return 'yaml';
+    if (name.endsWith('.toml')) return 'toml';
+    if (/\.(ini|cfg|conf|properties)$/.test(name)) return 'ini';
+    return null;
+  }
+
+  static isSensitiveKey(key: string): boolean {
+    const normalized = key.toLowerCase().replace(/[_\-.\s]/g, '');
+
+    // A bare `pass` only counts as its own word (`DB_PASS`, `smtpPass`), not inside `bypass`
+    if (/pass\d*$/.test(normalized)) {
+      return /(^|[_\-.\s])pass\d*$/i.test(key) || /[a-z0-9]Pass\d*$/.test(key);
+    }
+
+    return SENSITIVE_KEYS.some(pattern => pattern.test(normalized));
+  }
+
+  static isPlaceholder(value: string): boolean {
+    const trimmed = value.trim();
+    return trimmed.length < 3 || PLACEHOLDER_VALUES.some(pattern => pattern.test(trimmed));
+  }
+
+  /**
+   * Flag values stored under sensitive keys. The key path is reported as the context.
+   */
+  scan(content: string, filePath: string): SecretScanResult[] {
+    const format = ConfigFileScanner.detectFormat(filePath);
+    if (!format) return [];
+
+    let values: ConfigValue[];
+    try {
+      values = this.parse(content, format);
+    } catch (error) {
+      logger.debug(`Could not parse ${filePath} as ${format}: ${error}`);
+      return [];
+    }
+
+    return values
+      .filter(entry => ConfigFileScanner.isSensitiveKey(entry.key) && !ConfigFileScanner.isPlaceholder(entry.value))
+      .map(entry => ({
+        file: filePath,
+        line: entry.line,
+        column: entry.column,
+        pattern: ConfigFileScanner.PATTERN,
+        value: entry.value,
+        context: entry.keyPath
+      }));
+  }
+
+  parse(content: string, format: ConfigFormat): ConfigValue[] {
+    switch (format) {
+      case 'json':
+        return this.parseJson(content);
+      case 'yaml':
+        return this.parseYaml(content);
+      case 'toml':
+        return this.parseLines(content, { sections: true, separator: '=' });
+      case 'ini':
+        return this.parseLines(content, { sections: true, separator: /[=:]/ });
+      case 'npmrc':
+        return this.parseLines(content, { sections: false, separator: '=' });
+      case 'dotenv':
+        return this.parseLines(content, { sections: false, separator: '=', exportPrefix: true });
+    }
+  }
+
+  private parseYaml(content: string): ConfigValue[] {
+    const lineCounter = new LineCounter();
+    const values: ConfigValue[] = [];
+
+    for (const document of parseAllDocuments(content, { lineCounter })) {
+      if ('errors' in document && document.errors.length > 0) {
+        throw document.errors[0];
+      }
+      this.walkYaml(document.contents as Node | null, [], values, lineCounter);
+    }
+
+    return values;
+  }
+
+  private walkYaml(node: Node | null, keys: string[], values: ConfigValue[], lineCounter: LineCounter): void {
+    if (!node) return;
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        this.walkYaml(pair.value as Node | null, [...keys, key], values, lineCounter);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const parent = keys.length > 0 ? keys.slice(0, -1) : [];
+        const last = keys.length > 0 ? `${keys[keys.length - 1]}[${index}]` : `[${index}]`;
+        this.walkYaml(item as Node | null, [...parent, last], values, lineCounter);
+      });
+    } else if (isScalar(node) && keys.length > 0 && node.value !== null && typeof node.value !== 'object') {
+      const position = node.range ? lineCounter.linePos(node.range[0]) : { line: 1, col: 1 };
+      const quoted = node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE';
+      const key = keys[keys.length - 1].replace(/\[\d+\]$/, '');
+      values.push({
+        keyPath: joinKeys(keys),
+        key,
+        value: String(node.value),
+        line: position.line,
+        column: position.col + (quoted ? 1 : 0)
+      });
+    }
+  }
+
+  /**
+   * JSON is valid YAML, which keeps positions; JSON with comments or trailing commas falls
+   * back to JSON5 and a text search for the value's line
+   */
+  private parseJson(content: string): ConfigValue[] {
+    try {
+      return this.parseYaml(content);
+    } catch {
+      const values: ConfigValue[] = [];
+      const lines = content.split('\n');
+      const walk = (value: unknown, keys: string[]) => {
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => {
+            const parent = keys.slice(0, -1);
+            const last = keys.length > 0 ? `${keys[keys.length - 1]}[${index}]` : `[${index}]`;
+            walk(item, [...parent, last]);
+          });
+        } else if (value && typeof value === 'object') {
+          Object.entries(value).forEach(([key, child]) => walk(child, [...keys, key]));
+        } else if (value !== null && value !== undefined && keys.length > 0) {
+          const key = keys[keys.length - 1].replace(/\[\d+\]$/, '');
+          const text = String(value);
+          const lineIndex = Math.max(0, lines.findIndex(line => line.includes(key) && line.includes(text)));
+          values.push({
+            keyPath: joinKeys(keys),
+            key,
+            value: text,
+            line: lineIndex + 1,
+            column: Math.max(0, lines[lineIndex]?.indexOf(text) ?? 0) + 1
+          });
+        }
+      };
+      walk(JSON5.parse(content), []);
+      return values;
+    }
+  }
+
+  /**
+   * Line-oriented formats: TOML, INI, `.env` and `.npmrc`
+   */
+  private parseLines(
+    content: string,
+    options: { sections: boolean; separator: string | RegExp; exportPrefix?: boolean }
+  ): ConfigValue[] {
+    const values: ConfigValue[] = [];
+    let section: string[] = [];
+
+    content.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.replace(/\r$/, '');
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith(';')) return;
+
+      if (options.sections) {
+        const header = trimmed.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+        if (header) {
+          section = header[1].split('.').map(part => unquote(part.trim()));
+          return;
+        }
+      }
+
+      const separator = typeof options.separator === 'string'
+        ? line.indexOf(options.separator)
+        : line.search(options.separator);
+      if (separator === -1) return;
+
+      let key = line.slice(0, separator).trim();
+      if (options.exportPrefix) key = key.replace(/^export\s+/, '');
+      key = unquote(key);
+
+      const rawValue = line.slice(separator + 1);
+      const value = stripValue(rawValue);
+      if (!key || !value) return;
+
+      const offset = rawValue.indexOf(value);
+      values.push({
+        keyPath: joinKeys([...section, ...(options.sections ? key.split('.').map(part => unquote(part.trim())) : [key])]),
+        key: options.sections ? unquote(key.split('.').pop()!.trim()) : key,
+        value,
+        line: index + 1,
+        column: separator + 2 + Math.max(0, offset)
+      });
+    });
+
+    return values;
+  }
+}
+
+function joinKeys(keys: string[]): string {
+  return keys.reduce((keyPath, key) => (key.startsWith('[') || !keyPath ? `${keyPath}${key}` : `${keyPath}.${key}`), '');
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Drop quotes and trailing comments from a line-format value
+ */
+function stripValue(raw: string): string {
+  const trimmed = raw.trim();
+  const quoted = trimmed.match(/^(['"])(.*?)\1/);
+  if (quoted) return quoted[2];
+  return trimmed.replace(/\s+[#;].*$/, '').trim();
+}
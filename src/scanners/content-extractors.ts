@@ -0,0 +1,337 @@
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { isGzip, readTarball } from '../utils/tarball.js';
+import { isZip, readZip } from '../utils/zip.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Separates an archive or document from the entry inside it, e.g. `fixtures.zip!/config/.env`
+ */
+export const VIRTUAL_PATH_SEPARATOR = '!/';
+
+export interface ExtractedEntry {
+  file: string;
+  buffer: Buffer;
+  /** A view of the container's own bytes, limited by the archive size rather than the entry size */
+  derived?: boolean;
+}
+
+export interface ExtractedContent {
+  file: string;
+  content: string;
+}
+
+export interface ContentExtractor {
+  name: string;
+  /** When true the original file is not scanned as text, only what the extractor returns */
+  replacesOriginal: boolean;
+  matches(file: string, buffer: Buffer): boolean;
+  /** `maxArchiveSize` caps what a whole archive may unpack to */
+  extract(file: string, buffer: Buffer, limits: { maxEntrySize: number; maxArchiveSize?: number }): ExtractedEntry[];
+}
+
+export interface ExtractionOptions {
+  /** How many archives deep to unpack, e.g. a zip inside a tgz is depth 2 */
+  maxDepth?: number;
+  /** Largest text entry to scan; bigger entries are skipped */
+  maxEntrySize?: number;
+  /** Largest archive to open */
+  maxArchiveSize?: number;
+  extractors?: ContentExtractor[];
+}
+
+const MINIFIED_LINE_LENGTH = 1000;
+const MIN_BINARY_STRING_LENGTH = 8;
+
+export function virtualPath(container: string, entry: string): string {
+  return `${container}${VIRTUAL_PATH_SEPARATOR}${entry.replace(/^\.?\//, '')}`;
+}
+
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+function baseName(file: string): string {
+  const inner = file.split(VIRTUAL_PATH_SEPARATOR).pop() || file;
+  return path.posix.basename(inner.split(path.sep).join('/')).toLowerCase();
+}
+
+export class ZipExtractor implements ContentExtractor {
+  name = 'zip';
+  replacesOriginal = true;
+
+  matches(_file: string, buffer: Buffer): boolean {
+    return isZip(buffer);
+  }
+
+  extract(file: string, buffer: Buffer, limits: { maxEntrySize: number; maxArchiveSize?: number }): ExtractedEntry[] {
+    return readZip(buffer, limits.maxEntrySize, limits.maxArchiveSize)
+      .filter(entry => {
+        if (entry.encrypted) logger.debug(`Skipping encrypted zip entry: ${virtualPath(file, entry.path)}`);
+        return entry.type === 'file' && !entry.encrypted;
+      })
+      .map(entry => ({ file: virtualPath(file, entry.path), buffer: entry.content }));
+  }
+}
+
+export class TarExtractor implements ContentExtractor {
+  name = 'tar';
+  replacesOriginal = true;
+
+  matches(file: string, buffer: Buffer): boolean {
+    if (/\.(tgz|tar\.gz|tar)$/.test(baseName(file))) return true;
+    return buffer.length > 262 && buffer.subarray(257, 262).toString('latin1') === 'ustar';
+  }
+
+  extract(file: string, buffer: Buffer, limits?: { maxEntrySize: number; maxArchiveSize?: number }): ExtractedEntry[] {
+    return readTarball(buffer, limits?.maxArchiveSize)
+      .filter(entry => entry.type === 'file')
+      .map(entry => ({ file: virtualPath(file, entry.path), buffer: entry.content }));
+  }
+}
+
+/**
+ * Plain `.gz` files that are not tarballs
+ */
+export class GzipExtractor implements ContentExtractor {
+  name = 'gzip';
+  replacesOriginal = true;
+
+  matches(file: string, buffer: Buffer): boolean {
+    return isGzip(buffer) && !/\.(tgz|tar\.gz)$/.test(baseName(file));
+  }
+
+  extract(file: string, buffer: Buffer, limits: { maxEntrySize: number }): ExtractedEntry[] {
+    const content = gunzipSync(buffer, Number.isFinite(limits.maxEntrySize) ? { maxOutputLength: limits.maxEntrySize } : {});
+    // A gzipped tarball without the usual extension still unpacks as a tarball
+    if (content.length > 262 && content.subarray(257, 262).toString('latin1') === 'ustar') {
+      return new TarExtractor().extract(file, content);
+    }
+    return [{ file: virtualPath(file, baseName(file).replace(/\.gz$/, '')), buffer: content }];
+  }
+}
+
+/**
+ * Jupyter notebooks: each cell's source, plus any text the cell printed
+ */
+export class NotebookExtractor implements ContentExtractor {
+  name = 'notebook';
+  replacesOriginal = true;
+
+  matches(file: string): boolean {
+    return baseName(file).endsWith('.ipynb');
+  }
+
+  extract(file: string, buffer: Buffer): ExtractedEntry[] {
+    const notebook = JSON.parse(buffer.toString('utf-8'));
+    const cells: any[] = Array.isArray(notebook.cells) ? notebook.cells : [];
+    const entries: ExtractedEntry[] = [];
+    const text = (value: unknown) => (Array.isArray(value) ? value.join('') : typeof value === 'string' ? value : '');
+
+    cells.forEach((cell, index) => {
+      entries.push({ file: virtualPath(file, `cell-${index + 1}`), buffer: Buffer.from(text(cell.source)) });
+
+      const outputs = (Array.isArray(cell.outputs) ? cell.outputs : [])
+        .map((output: any) => text(output.text) || text(output.data?.['text/plain']))
+        .filter(Boolean);
+      if (outputs.length > 0) {
+        entries.push({ file: virtualPath(file, `cell-${index + 1}/output`), buffer: Buffer.from(outputs.join('\n')) });
+      }
+    });
+
+    return entries;
+  }
+}
+
+/**
+ * Source maps ship the original sources in `sourcesContent`, comments and config included
+ */
+export class SourceMapExtractor implements ContentExtractor {
+  name = 'source-map';
+  replacesOriginal = true;
+
+  matches(file: string): boolean {
+    return baseName(file).endsWith('.map');
+  }
+
+  extract(file: string, buffer: Buffer): ExtractedEntry[] {
+    return SourceMapExtractor.expand(file, JSON.parse(buffer.toString('utf-8')));
+  }
+
+  static expand(file: string, map: any): ExtractedEntry[] {
+    const sources: string[] = Array.isArray(map.sources) ? map.sources : [];
+    const contents: Array<string | null> = Array.isArray(map.sourcesContent) ? map.sourcesContent : [];
+
+    return contents
+      .map((content, index) => ({ content, source: sources[index] || `source-${index + 1}` }))
+      .filter(({ content }) => typeof content === 'string')
+      .map(({ content, source }) => ({
+        file: virtualPath(file, source.replace(/^[a-z]+:\/\/\/?/i, '')),
+        buffer: Buffer.from(content as string)
+      }));
+  }
+}
+
+/**
+ * JavaScript bundles: expand inline `sourceMappingURL` data and break minified lines into
+ * one statement per line so findings have a usable location and context
+ */
+export class BundleExtractor implements ContentExtractor {
+  name = 'bundle';
+  replacesOriginal = true;
+
+  matches(file: string, buffer: Buffer): boolean {
+    if (!/\.(js|mjs|cjs)$/.test(baseName(file))) return false;
+    const text = buffer.toString('utf-8');
+    return text.includes('sourceMappingURL=data:') || text.split('\n').some(line => line.length > MINIFIED_LINE_LENGTH);
+  }
+
+  extract(file: string, buffer: Buffer): ExtractedEntry[] {
+    const text = buffer.toString('utf-8');
+    const entries: ExtractedEntry[] = [];
+
+    const inline = text.match(/sourceMappingURL=data:application\/json;(?:charset=[^;,]+;)?base64,([A-Za-z0-9+/=]+)/);
+    if (inline) {
+      try {
+        entries.push(...SourceMapExtractor.expand(file, JSON.parse(Buffer.from(inline[1], 'base64').toString('utf-8'))));
+      } catch (error) {
+        logger.debug(`Could not decode inline source map in ${file}: ${error}`);
+      }
+    }
+
+    if (text.split('\n').some(line => line.length > MINIFIED_LINE_LENGTH)) {
+      const formatted = text.replace(/([;{}])(?=\S)/g, '$1\n');
+      entries.push({ file: virtualPath(file, 'formatted'), buffer: Buffer.from(formatted), derived: true });
+    } else {
+      entries.push({ file, buffer, derived: true });
+    }
+
+    return entries;
+  }
+}
+
+export class ContentExtraction {
+  private extractors: ContentExtractor[];
+  private maxDepth: number;
+  private maxEntrySize: number;
+  private maxArchiveSize: number;
+
+  constructor(options: ExtractionOptions = {}) {
+    this.extractors = options.extractors || ContentExtraction.defaultExtractors();
+    this.maxDepth = options.maxDepth ?? 3;
+    this.maxEntrySize = options.maxEntrySize ?? 1024 * 1024;
+    this.maxArchiveSize = options.maxArchiveSize ?? 64 * 1024 * 1024;
+  }
+
+  static defaultExtractors(): ContentExtractor[] {
+    return [
+      new ZipExtractor(),
+      new TarExtractor(),
+      new GzipExtractor(),
+      new NotebookExtractor(),
+      new SourceMapExtractor(),
+      new BundleExtractor()
+    ];
+  }
+
+  getMaxArchiveSize(): number {
+    return this.maxArchiveSize;
+  }
+
+  addExtractor(extractor: ContentExtractor): void {
+    this.extractors.push(extractor);
+  }
+
+  /**
+   * Whether a file needs extraction rather than being scanned as plain text
+   */
+  handles(file: string, buffer: Buffer): boolean {
+    return isBinary(buffer) || this.extractors.some(extractor => this.safeMatch(extractor, file, buffer));
+  }
+
+  /**
+   * Read a file from disk and return its text entries. Plain text files keep the usual size
+   * limit; archives, notebooks and bundles may be as large as `maxArchiveSize`.
+   */
+  extractFile(filePath: string): ExtractedContent[] {
+    const size = statSync(filePath).size;
+    if (size > this.maxArchiveSize) {
+      logger.debug(`Skipping large file: ${filePath} (${size} bytes)`);
+      return [];
+    }
+
+    const buffer = readFileSync(filePath);
+    if (!this.handles(filePath, buffer)) {
+      if (size > this.maxEntrySize) {
+        logger.debug(`Skipping large file: ${filePath} (${size} bytes)`);
+        return [];
+      }
+      return [{ file: filePath, content: buffer.toString('utf-8') }];
+    }
+
+    return this.extract(filePath, buffer);
+  }
+
+  /**
+   * Turn a file into the text entries to scan, unpacking nested archives up to `maxDepth`
+   */
+  extract(file: string, buffer: Buffer, depth = 0): ExtractedContent[] {
+    const matching = this.extractors.filter(extractor => this.safeMatch(extractor, file, buffer));
+    const results: ExtractedContent[] = [];
+    let replaced = false;
+
+    if (matching.length > 0 && depth >= this.maxDepth) {
+      logger.debug(`Not extracting ${file}: depth limit of ${this.maxDepth} reached`);
+    } else if (matching.length > 0 && buffer.length > this.maxArchiveSize) {
+      logger.debug(`Not extracting ${file}: ${buffer.length} bytes exceeds the archive size limit`);
+    } else {
+      for (const extractor of matching) {
+        try {
+          const entries = extractor.extract(file, buffer, { maxEntrySize: this.maxEntrySize, maxArchiveSize: this.maxArchiveSize });
+          entries.forEach(entry => {
+            if (entry.derived) {
+              const text = this.toText(entry.file, entry.buffer, this.maxArchiveSize);
+              if (text !== null) results.push({ file: entry.file, content: text });
+            } else {
+              results.push(...this.extract(entry.file, entry.buffer, depth + 1));
+            }
+          });
+          replaced = replaced || extractor.replacesOriginal;
+        } catch (error) {
+          // Fall back to scanning the file as it is
+          logger.debug(`${extractor.name} extractor failed on ${file}: ${error}`);
+        }
+      }
+    }
+
+    if (!replaced) {
+      const text = this.toText(file, buffer, matching.length > 0 && depth === 0 ? this.maxArchiveSize : this.maxEntrySize);
+      if (text !== null) results.push({ file, content: text });
+    }
+
+    return results;
+  }
+
+  private toText(file: string, buffer: Buffer, maxSize: number): string | null {
+    if (buffer.length > maxSize) {
+      logger.debug(`Skipping large entry: ${file} (${buffer.length} bytes)`);
+      return null;
+    }
+    if (!isBinary(buffer)) {
+      return buffer.toString('utf-8');
+    }
+
+    // Binary data: keep printable runs, like strings(1), one per line
+    const runs = buffer.toString('latin1').match(new RegExp(`[\\x20-\\x7e]{${MIN_BINARY_STRING_LENGTH},}`, 'g'));
+    return runs ? runs.join('\n') : null;
+  }
+
+  private safeMatch(extractor: ContentExtractor, file: string, buffer: Buffer): boolean {
+    try {
+      return extractor.matches(file, buffer);
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { CommitInfo, SecretScanResult } from '../types/index.js';
+import { SemanticVersioner } from '../versioning/semantic-versioner.js';
+import { SecretScanner } from './secret-scanner.js';
+import logger from '../utils/logger.js';
+import { quoteArg } from '../utils/shell.js';
+
+const execAsync = promisify(exec);
+
+// Separators that cannot appear in commit subjects or diff output
+const COMMIT_MARKER = '\x1ecommit\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+export interface HistoryScanOptions {
+  since?: string;
+  until?: string;
+  all?: boolean;
+  maxCommits?: number;
+  entropy?: number;
+  cwd?: string;
+  timeout?: number;
+}
+
+interface AddedHunk {
+  file: string;
+  startLine: number;
+  lines: string[];
+}
+
+export class HistoryScanner {
+  private scanner: SecretScanner;
+
+  constructor(scanner: SecretScanner = new SecretScanner()) {
+    this.scanner = scanner;
+  }
+
+  /**
+   * Scan every line added in the commit history and attribute findings to their commit
+   */
+  async scan(options: HistoryScanOptions = {}): Promise<SecretScanResult[]> {
+    const { entropy = 3.5 } = options;
+
+    logger.progress('Scanning git history for secrets');
+
+    const log = await this.readLog(options);
+    const results: SecretScanResult[] = [];
+
+    for (const chunk of log.split(COMMIT_MARKER)) {
+      if (!chunk.trim()) continue;
+
+      const newline = chunk.indexOf('\n');
+      const header = newline === -1 ? chunk : chunk.slice(0, newline);
+      const diff = newline === -1 ? '' : chunk.slice(newline + 1);
+      const [hash = '', author = '', date = '', message = ''] = header.split(FIELD_SEPARATOR);
+      const commit = SemanticVersioner.parseCommit(hash, message, author, date);
+
+      for (const hunk of this.parseAddedHunks(diff)) {
+        results.push(...this.scanHunk(hunk, commit, entropy));
+      }
+    }
+
+    logger.debug(`History scan found ${results.length} potential secrets`);
+    return results;
+  }
+
+  private async readLog(options: HistoryScanOptions): Promise<string> {
+    const args = [
+      'log',
+      '-p',
+      '--unified=0',
+      '--no-color',
+      '--no-renames',
+      '--no-ext-diff',
+      '--format=%x1ecommit%x1e%H%x1f%an%x1f%aI%x1f%s'
+    ];
+
+    if (options.maxCommits) {
+      args.push(`--max-count=${options.maxCommits}`);
+    }
+
+    if (options.all) {
+      args.push('--all');
+    } else if (options.since) {
+      args.push(`${options.since}..${options.until || 'HEAD'}`);
+    } else if (options.until) {
+      args.push(options.until);
+    }
+
+    const { stdout } = await execAsync(`git ${args.map(quoteArg).join(' ')}`, {
+      cwd: options.cwd,
+      timeout: options.timeout || 120000,
+      maxBuffer: 512 * 1024 * 1024
+    });
+
+    return stdout;
+  }
+
+  /**
+   * Collect the added lines of each hunk with their line numbers in the new file
+   */
+  private parseAddedHunks(diff: string): AddedHunk[] {
+    const hunks: AddedHunk[] = [];
+    let file: string | null = null;
+    let current: AddedHunk | null = null;
+    let previous = '';
+
+    for (const line of diff.split('\n')) {
+      // An added line can itself start with "++ ", so "+++ " is only a header right after "--- "
+      const isHeader = !current && line.startsWith('+++ ') && previous.startsWith('--- ');
+      previous = line;
+
+      if (line.startsWith('diff --git ')) {
+        file = null;
+        current = null;
+      } else if (isHeader) {
+        const target = line.slice(4);
+        file = target === '/dev/null' ? null : target.replace(/^b\//, '');
+      } else if (line.startsWith('@@')) {
+        const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        current = file && match ? { file, startLine: parseInt(match[1], 10), lines: [] } : null;
+        if (current) hunks.push(current);
+      } else if (current && line.startsWith('+')) {
+        // With --unified=0 the added lines of a hunk are contiguous
+        current.lines.push(line.slice(1));
+      }
+    }
+
+    return hunks.filter(hunk => hunk.lines.length > 0);
+  }
+
+  private scanHunk(hunk: AddedHunk, commit: CommitInfo, entropy: number): SecretScanResult[] {
+    return this.scanner.scanContent(hunk.lines.join('\n'), hunk.file, entropy).map(result => ({
+      ...result,
+      line: result.line + hunk.startLine - 1,
+      commit
+    }));
+  }
+}
@@ -0,0 +1,128 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+import { readTarball } from '../utils/tarball.js';
+import logger from '../utils/logger.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Prefix npm uses for every entry inside a published tarball
+ */
+export const TARBALL_ROOT = 'package';
+
+export interface PackedFile {
+  path: string;
+  size: number;
+  mode: number;
+}
+
+export interface PackManifest {
+  id: string;
+  name: string;
+  version: string;
+  size: number;
+  unpackedSize: number;
+  shasum: string;
+  integrity: string;
+  filename: string;
+  files: PackedFile[];
+  entryCount: number;
+  bundled: string[];
+}
+
+export interface PackageEntry {
+  file: string;
+  content: string;
+  buffer: Buffer;
+  size: number;
+}
+
+export class PackageContents {
+  private cwd: string;
+  private timeout: number;
+
+  constructor(options: { cwd?: string; timeout?: number } = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.timeout = options.timeout || 60000;
+  }
+
+  /**
+   * Ask npm which files it would pack, honoring `files`, `.npmignore` and bundled deps
+   */
+  async getManifest(): Promise<PackManifest> {
+    const { stdout } = await execAsync('npm pack --dry-run --json --ignore-scripts', {
+      cwd: this.cwd,
+      timeout: this.timeout,
+      maxBuffer: 64 * 1024 * 1024
+    });
+
+    const manifests = JSON.parse(stdout) as PackManifest[];
+    if (!Array.isArray(manifests) || manifests.length === 0) {
+      throw new Error('npm pack did not return a file list');
+    }
+
+    return manifests[0];
+  }
+
+  /**
+   * Read the files npm would publish from the working tree, keyed by their tarball path
+   */
+  async getPackedEntries(maxFileSize = Infinity): Promise<PackageEntry[]> {
+    const manifest = await this.getManifest();
+    const entries: PackageEntry[] = [];
+
+    for (const packed of manifest.files) {
+      const filePath = path.join(this.cwd, packed.path);
+      try {
+        const size = statSync(filePath).size;
+        if (size > maxFileSize) {
+          logger.debug(`Skipping large file: ${packed.path} (${size} bytes)`);
+          continue;
+        }
+        const buffer = readFileSync(filePath);
+        entries.push({
+          file: toTarballPath(packed.path),
+          content: buffer.toString('utf-8'),
+          buffer,
+          size
+        });
+      } catch (error) {
+        logger.debug(`Error reading packed file ${packed.path}: ${error}`);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read the file entries of a built `.tgz`, exactly as they would reach the registry
+   */
+  getTarballEntries(tarballPath: string, maxFileSize = Infinity): PackageEntry[] {
+    const buffer = readFileSync(path.resolve(this.cwd, tarballPath));
+
+    return readTarball(buffer)
+      .filter(entry => entry.type === 'file')
+      .filter(entry => {
+        if (entry.size > maxFileSize) {
+          logger.debug(`Skipping large tarball entry: ${entry.path} (${entry.size} bytes)`);
+          return false;
+        }
+        return true;
+      })
+      .map(entry => ({
+        file: entry.path,
+        content: entry.content.toString('utf-8'),
+        buffer: entry.content,
+        size: entry.size
+      }));
+  }
+}
+
+/**
+ * Convert a path relative to the package root into its path inside the tarball
+ */
+export function toTarballPath(relativePath: string): string {
+  return `${TARBALL_ROOT}/${relativePath.split(path.sep).join('/')}`;
+}
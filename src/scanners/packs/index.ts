@@ -0,0 +1,14 @@
+import { PatternPack } from '../../types/index.js';
+import { cloudPack } from './cloud.js';
+import { saasPack } from './saas.js';
+import { ciPack } from './ci.js';
+
+/**
+ * Pattern packs shipped with npmsafe. None are enabled by default; turn them on with
+ * `npmsafe patterns import <name>` or the `patternPacks` config option.
+ */
+export const BUILTIN_PACKS: Record<string, PatternPack> = {
+  cloud: cloudPack,
+  saas: saasPack,
+  ci: ciPack
+};
@@ -0,0 +1,340 @@
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { readFileSync, statSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { ScanOptions, SecretPattern, SecretScanResult } from '../types/index.js';
+import logger from '../utils/logger.js';
+import { PackageContents } from './package-contents.js';
+import { SecretBaseline } from './secret-baseline.js';
+import { SecretScanner } from './secret-scanner.js';
+import { EngineConfig, EngineMatch, scanText } from './scan-engine.js';
+import { ContentExtraction } from './content-extractors.js';
+import { ConfigFileScanner } from './config-file-scanner.js';
+
+export interface ParallelScanOptions extends ScanOptions {
+  /** Number of worker threads; defaults to the number of CPUs, capped at 8 */
+  workers?: number;
+}
+
+interface ScanJob {
+  file: string;
+  content?: string;
+}
+
+interface JobResult {
+  file: string;
+  content?: string;
+  matches: EngineMatch[];
+}
+
+/**
+ * Where this module was loaded from. Read off the call stack rather than `import.meta.url`,
+ * which is a syntax error once the module is compiled to CommonJS, as the tests do.
+ */
+function moduleUrl(): URL {
+  const prepare = Error.prepareStackTrace;
+  try {
+    Error.prepareStackTrace = (_error, stack) => stack;
+    const file = (new Error().stack as unknown as NodeJS.CallSite[])[0].getFileName() || '';
+    return file.startsWith('file:') ? new URL(file) : pathToFileURL(file);
+  } finally {
+    Error.prepareStackTrace = prepare;
+  }
+}
+
+// Workers run scan-worker.js next to this module and read files on disk themselves
+const WORKER_URL = new URL('./scan-worker.js', moduleUrl());
+
+const HIGH_ENTROPY_PATTERN = /[a-zA-Z0-9+/]{20,}={0,2}/g;
+
+export class ParallelSecretScanner {
+  private scanner: SecretScanner;
+  private workerCount: number;
+
+  constructor(scanner: SecretScanner = new SecretScanner(), options: { workers?: number } = {}) {
+    this.scanner = scanner;
+    this.workerCount = Math.max(1, options.workers ?? Math.min(cpus().length, 8));
+  }
+
+  /**
+   * Spread files across a pool of worker threads and yield findings as each file completes
+   */
+  async *scan(options: ParallelScanOptions = {}): AsyncGenerator<SecretScanResult> {
+    const {
+      patterns = ['**/*'],
+      exclude = ['node_modules/**', 'dist/**', 'build/**', '.git/**', '*.log'],
+      include = [],
+      entropy = 3.5,
+      maxFileSize = 1024 * 1024,
+      timeout = 30000,
+      files = [],
+      pack = false,
+      tarball,
+      cwd,
+      baseline,
+      verify = false,
+      extract = false,
+      maxDepth,
+      workers = this.workerCount
+    } = options;
+
+    logger.progress('Scanning for secrets');
+
+    const extraction = extract ? new ContentExtraction({ maxDepth, maxEntrySize: maxFileSize }) : null;
+    const jobs: ScanJob[] = [];
+    const addContent = (file: string, content: string, buffer?: Buffer) => {
+      if (extraction) {
+        jobs.push(...extraction.extract(file, buffer ?? Buffer.from(content)));
+      } else {
+        jobs.push({ file, content });
+      }
+    };
+
+    files.forEach(({ file, content }) => addContent(file, content));
+
+    if (tarball || pack) {
+      const contents = new PackageContents({ cwd, timeout });
+      const entryLimit = extraction ? extraction.getMaxArchiveSize() : maxFileSize;
+      const entries = tarball
+        ? contents.getTarballEntries(tarball, entryLimit)
+        : await contents.getPackedEntries(entryLimit);
+      entries.forEach(({ file, content, buffer }) => addContent(file, content, buffer));
+    }
+
+    if (!options.files && !tarball && !pack) {
+      const filePaths = await this.scanner.getFiles([...patterns, ...include], exclude);
+      jobs.push(...filePaths.map(file => ({ file })));
+    }
+
+    const allPatterns = this.scanner.getPatterns();
+    const engine: EngineConfig = {
+      patterns: allPatterns.map(pattern => ({
+        source: pattern.pattern.source,
+        flags: pattern.pattern.flags,
+        entropy: pattern.entropy,
+        slug: SecretScanner.slugify(pattern.name),
+        keywords: pattern.keywords,
+        allow: pattern.allow?.map(regex => regex.source)
+      })),
+      allowedSecrets: this.scanner.getAllowedSecrets(),
+      minEntropy: entropy
+    };
+
+    const secretBaseline = baseline ? new SecretBaseline(baseline) : null;
+    const useBaseline = Boolean(secretBaseline?.exists());
+
+    // Archives are unpacked on this thread just before their entries are handed to a worker
+    const expand = extraction ? (job: ScanJob) => this.expandJob(job, extraction) : undefined;
+
+    for await (const job of this.run(jobs, engine, Math.max(1, workers), maxFileSize, timeout, expand)) {
+      let results = job.matches.map(match => this.toResult(match, job.file, allPatterns));
+      results.push(...this.scanConfigFile(job, results, maxFileSize));
+
+      if (useBaseline && secretBaseline) {
+        results = secretBaseline.filterNew(results);
+      }
+
+      if (verify && results.length > 0) {
+        const sources = job.content !== undefined ? new Map([[job.file, job.content]]) : undefined;
+        results = await this.scanner.verify(results, sources);
+      }
+
+      yield* results;
+    }
+  }
+
+  /**
+   * Run a parallel scan to completion and return every finding
+   */
+  async collect(options: ParallelScanOptions = {}): Promise<SecretScanResult[]> {
+    const results: SecretScanResult[] = [];
+    for await (const result of this.scan(options)) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  private async *run(
+    jobs: ScanJob[],
+    engine: EngineConfig,
+    poolSize: number,
+    maxFileSize: number,
+    timeout: number,
+    expand?: (job: ScanJob) => ScanJob[]
+  ): AsyncGenerator<JobResult> {
+    if (jobs.length === 0) return;
+
+    const startTime = Date.now();
+    const completed: JobResult[] = [];
+    const inFlight = new Map<Worker, number>();
+    const pool: Worker[] = [];
+    let next = 0;
+    let finished = 0;
+    let timedOut = false;
+    let notify: (() => void) | null = null;
+
+    const wake = () => {
+      const resolve = notify;
+      notify = null;
+      resolve?.();
+    };
+
+    const complete = (id: number, matches: EngineMatch[]) => {
+      completed.push({ file: jobs[id].file, content: jobs[id].content, matches });
+      finished++;
+    };
+
+    // Replace a file on disk with its extracted entries; an empty expansion just drops the job
+    const expandNext = () => {
+      while (expand && next < jobs.length && jobs[next].content === undefined) {
+        jobs.splice(next, 1, ...expand(jobs[next]));
+      }
+    };
+
+    const dispatch = (worker: Worker) => {
+      inFlight.delete(worker);
+      expandNext();
+      if (next >= jobs.length || timedOut) return;
+      if (Date.now() - startTime > timeout) {
+        timedOut = true;
+        logger.warn('Scan timeout reached');
+        return;
+      }
+      const id = next++;
+      inFlight.set(worker, id);
+      worker.postMessage({ id, ...jobs[id] });
+    };
+
+    for (let i = 0; i < Math.min(poolSize, jobs.length); i++) {
+      let worker: Worker;
+      try {
+        worker = new Worker(WORKER_URL, { workerData: { engine, maxFileSize } });
+      } catch (error) {
+        logger.debug(`Could not start scan worker: ${error}`);
+        break;
+      }
+
+      worker.on('message', (message: { id: number; matches: EngineMatch[]; error?: string; skipped?: boolean }) => {
+        if (message.error) {
+          // Scan the file here instead, so a worker failure never reads as "no secrets"
+          logger.debug(`Scan worker failed on ${jobs[message.id].file}: ${message.error}`);
+          complete(message.id, this.scanInline(jobs[message.id], engine, maxFileSize));
+        } else {
+          if (message.skipped) {
+            logger.debug(`Skipping large file: ${jobs[message.id].file}`);
+          }
+          complete(message.id, message.matches);
+        }
+        dispatch(worker);
+        wake();
+      });
+
+      // A crashed worker must not lose its file: finish that job on the main thread
+      worker.on('error', error => {
+        logger.debug(`Scan worker failed: ${error}`);
+        const id = inFlight.get(worker);
+        inFlight.delete(worker);
+        if (id !== undefined) {
+          complete(id, this.scanInline(jobs[id], engine, maxFileSize));
+        }
+        pool.splice(pool.indexOf(worker), 1);
+        wake();
+      });
+
+      pool.push(worker);
+      dispatch(worker);
+    }
+
+    try {
+      while (true) {
+        while (completed.length > 0) {
+          yield completed.shift() as JobResult;
+        }
+
+        // Without a live worker, scan whatever is left on this thread
+        if (pool.length === 0 && !timedOut) {
+          while ((expandNext(), next < jobs.length)) {
+            const id = next++;
+            complete(id, this.scanInline(jobs[id], engine, maxFileSize));
+            yield completed.shift() as JobResult;
+          }
+        }
+
+        if (finished === next && (next >= jobs.length || timedOut)) break;
+
+        await new Promise<void>(resolve => {
+          notify = resolve;
+        });
+      }
+    } finally {
+      await Promise.all(pool.map(worker => worker.terminate()));
+    }
+  }
+
+  /**
+   * Structured config files are small; parse them here rather than in the workers
+   */
+  private scanConfigFile(job: JobResult, found: SecretScanResult[], maxFileSize: number): SecretScanResult[] {
+    if (!ConfigFileScanner.detectFormat(job.file)) return [];
+
+    try {
+      let content = job.content;
+      if (content === undefined) {
+        if (statSync(job.file).size > maxFileSize) return [];
+        content = readFileSync(job.file, 'utf-8');
+      }
+
+      const seen = new Set(found.map(result => `${result.line}:${result.column}:${result.value}`));
+      return this.scanner
+        .scanConfigValues(content, job.file)
+        .filter(result => !seen.has(`${result.line}:${result.column}:${result.value}`));
+    } catch (error) {
+      logger.debug(`Error reading config file ${job.file}: ${error}`);
+      return [];
+    }
+  }
+
+  private expandJob(job: ScanJob, extraction: ContentExtraction): ScanJob[] {
+    try {
+      return extraction.extractFile(job.file);
+    } catch (error) {
+      logger.debug(`Error reading file ${job.file}: ${error}`);
+      return [];
+    }
+  }
+
+  private scanInline(job: ScanJob, engine: EngineConfig, maxFileSize: number): EngineMatch[] {
+    try {
+      let content = job.content;
+      if (content === undefined) {
+        if (statSync(job.file).size > maxFileSize) return [];
+        content = readFileSync(job.file, 'utf-8');
+      }
+      return scanText(content, engine);
+    } catch (error) {
+      logger.debug(`Error scanning ${job.file}: ${error}`);
+      return [];
+    }
+  }
+
+  private toResult(match: EngineMatch, file: string, patterns: SecretPattern[]): SecretScanResult {
+    const pattern: SecretPattern = match.pattern === -1
+      ? {
+        name: 'High Entropy String',
+        pattern: HIGH_ENTROPY_PATTERN,
+        description: `High entropy string (${match.entropy.toFixed(2)})`,
+        severity: 'medium'
+      }
+      : patterns[match.pattern];
+
+    return {
+      file,
+      line: match.line,
+      column: match.column,
+      pattern,
+      value: match.value,
+      entropy: match.entropy,
+      context: match.context
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { PatternDefinition, PatternPack, SecretPattern } from '../types/index.js';
+import logger from '../utils/logger.js';
+import { BUILTIN_PACKS } from './packs/index.js';
+
+export const PATTERN_PACK_VERSION = 1;
+
+/**
+ * Directory holding the packs imported into a project
+ */
+export const DEFAULT_PATTERN_PACK_DIR = '.npmsafe-patterns';
+
+export type PatternPackFormat = 'yaml' | 'json';
+
+export interface PatternExampleFailure {
+  pattern: string;
+  example: string;
+  expected: 'match' | 'noMatch';
+}
+
+export const patternDefinitionSchema = z.object({
+  name: z.string().min(1),
+  regex: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported').optional(),
+  description: z.string().optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  entropy: z.number().min(0).max(8).optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  allow: z.array(z.string().min(1)).optional(),
+  examples: z.object({
+    match: z.array(z.string()).optional(),
+    noMatch: z.array(z.string()).optional()
+  }).optional()
+});
+
+const patternPackSchema = z.object({
+  version: z.literal(PATTERN_PACK_VERSION),
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Pack names use lowercase letters, digits and dashes'),
+  description: z.string().optional(),
+  patterns: z.array(patternDefinitionSchema)
+});
+
+export class PatternPackLoader {
+  /**
+   * Parse and validate a pack written as YAML or JSON
+   */
+  static parse(text: string, source = 'pattern pack'): PatternPack {
+    let data: unknown;
+    try {
+      data = YAML.parse(text);
+    } catch (error) {
+      throw new Error(`Could not parse ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const parsed = patternPackSchema.safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`Invalid ${source}:\n  ${issues.join('\n  ')}`);
+    }
+
+    const pack = parsed.data as PatternPack;
+    pack.patterns.forEach(definition => PatternPackLoader.compilePattern(definition));
+    return pack;
+  }
+
+  /**
+   * Resolve a built-in pack name or a path to a pack file
+   */
+  static load(nameOrPath: string): PatternPack {
+    if (BUILTIN_PACKS[nameOrPath]) {
+      return BUILTIN_PACKS[nameOrPath];
+    }
+    if (!existsSync(nameOrPath)) {
+      throw new Error(`No built-in pattern pack or file named "${nameOrPath}". Built-in packs: ${Object.keys(BUILTIN_PACKS).join(', ')}`);
+    }
+    return PatternPackLoader.parse(readFileSync(nameOrPath, 'utf-8'), nameOrPath);
+  }
+
+  static compile(pack: PatternPack): SecretPattern[] {
+    return pack.patterns.map(definition => PatternPackLoader.compilePattern(definition));
+  }
+
+  static compilePattern(definition: PatternDefinition): SecretPattern {
+    const build = (source: string, flags = '') => {
+      try {
+        return new RegExp(source, flags);
+      } catch (error) {
+        throw new Error(`Pattern "${definition.name}" has an invalid regex /${source}/: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    return {
+      name: definition.name,
+      pattern: build(definition.regex, definition.flags),
+      description: definition.description || definition.name,
+      severity: definition.severity,
+      ...(definition.entropy !== undefined ? { entropy: definition.entropy } : {}),
+      ...(definition.keywords ? { keywords: definition.keywords.map(keyword => keyword.toLowerCase()) } : {}),
+      ...(definition.allow ? { allow: definition.allow.map(source => build(source)) } : {})
+    };
+  }
+
+  /**
+   * Accept config patterns written either as RegExp objects or as string definitions
+   */
+  static normalize(patterns: Array<SecretPattern | PatternDefinition>): SecretPattern[] {
+    return patterns.map(pattern =>
+      'regex' in pattern ? PatternPackLoader.compilePattern(pattern) : pattern
+    );
+  }
+
+  /**
+   * Patterns from config, the packs it enables and the packs imported into the project
+   */
+  static resolve(
+    config: { secretPatterns?: Array<SecretPattern | PatternDefinition>; patternPacks?: string[] },
+    store: PatternPackStore = new PatternPackStore()
+  ): SecretPattern[] {
+    const patterns = PatternPackLoader.normalize(config.secretPatterns || []);
+
+    for (const name of config.patternPacks || []) {
+      try {
+        patterns.push(...PatternPackLoader.compile(PatternPackLoader.load(name)));
+      } catch (error) {
+        logger.warn(`Skipping pattern pack ${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const enabled = new Set(patterns.map(pattern => pattern.name));
+    patterns.push(...store.getPatterns().filter(pattern => !enabled.has(pattern.name)));
+    return patterns;
+  }
+
+  static toDefinition(pattern: SecretPattern): PatternDefinition {
+    const flags = pattern.pattern.flags.replace(/[gy]/g, '');
+    return {
+      name: pattern.name,
+      regex: pattern.pattern.source,
+      ...(flags ? { flags } : {}),
+      description: pattern.description,
+      severity: pattern.severity,
+      ...(pattern.entropy !== undefined ? { entropy: pattern.entropy } : {}),
+      ...(pattern.keywords ? { keywords: pattern.keywords } : {}),
+      ...(pattern.allow ? { allow: pattern.allow.map(regex => regex.source) } : {})
+    };
+  }
+
+  static serialize(pack: PatternPack, format: PatternPackFormat = 'yaml'): string {
+    return format === 'json' ? JSON.stringify(pack, null, 2) + '\n' : YAML.stringify(pack);
+  }
+
+  /**
+   * Check every example against its pattern, including keywords and allow-regexes
+   */
+  static test(pack: PatternPack): PatternExampleFailure[] {
+    const failures: PatternExampleFailure[] = [];
+
+    for (const definition of pack.patterns) {
+      const pattern = PatternPackLoader.compilePattern(definition);
+      definition.examples?.match?.forEach(example => {
+        if (!PatternPackLoader.matches(pattern, example)) {
+          failures.push({ pattern: definition.name, example, expected: 'match' });
+        }
+      });
+      definition.examples?.noMatch?.forEach(example => {
+        if (PatternPackLoader.matches(pattern, example)) {
+          failures.push({ pattern: definition.name, example, expected: 'noMatch' });
+        }
+      });
+    }
+
+    return failures;
+  }
+
+  /**
+   * Whether a line would produce a finding for this pattern
+   */
+  static matches(pattern: SecretPattern, line: string): boolean {
+    return PatternPackLoader.findMatches(pattern, line).length > 0;
+  }
+
+  static findMatches(pattern: SecretPattern, line: string): string[] {
+    if (pattern.keywords && !pattern.keywords.some(keyword => line.toLowerCase().includes(keyword))) {
+      return [];
+    }
+    const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags.replace(/[gy]/g, '') + 'g');
+    return [...line.matchAll(regex)]
+      .map(match => match[0])
+      .filter(value => !pattern.allow?.some(allow => allow.test(value)));
+  }
+}
+
+/**
+ * Packs imported into a project, one file per pack
+ */
+export class PatternPackStore {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_PATTERN_PACK_DIR) {
+    this.directory = path.resolve(directory);
+  }
+
+  list(): PatternPack[] {
+    if (!existsSync(this.directory)) return [];
+
+    return readdirSync(this.directory)
+      .filter(file => /\.(ya?ml|json)$/.test(file))
+      .sort()
+      .flatMap(file => {
+        const filePath = path.join(this.directory, file);
+        try {
+          return [PatternPackLoader.parse(readFileSync(filePath, 'utf-8'), filePath)];
+        } catch (error) {
+          logger.warn(`Skipping pattern pack ${filePath}: ${error instanceof Error ? error.message : error}`);
+          return [];
+        }
+      });
+  }
+
+  get(name: string): PatternPack | undefined {
+    return this.list().find(pack => pack.name === name);
+  }
+
+  /**
+   * Save a pack, replacing any installed pack of the same name
+   */
+  add(pack: PatternPack): string {
+    this.remove(pack.name);
+    mkdirSync(this.directory, { recursive: true });
+    const filePath = path.join(this.directory, `${pack.name}.yaml`);
+    writeFileSync(filePath, PatternPackLoader.serialize(pack, 'yaml'));
+    return filePath;
+  }
+
+  remove(name: string): boolean {
+    if (!existsSync(this.directory)) return false;
+
+    let removed = false;
+    for (const file of readdirSync(this.directory)) {
+      if (file.replace(/\.(ya?ml|json)$/, '') === name) {
+        unlinkSync(path.join(this.directory, file));
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Compiled patterns of every installed pack
+   */
+  getPatterns(): SecretPattern[] {
+    return this.list().flatMap(pack => PatternPackLoader.compile(pack));
+  }
+}
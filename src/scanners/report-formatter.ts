@@ -0,0 +1,258 @@
+import path from 'path';
+import { SecretPattern, SecretScanResult } from '../types/index.js';
+import { SecretBaseline } from './secret-baseline.js';
+
+export type ScanReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const SCAN_REPORT_FORMATS: ScanReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+const TOOL_NAME = 'npmsafe';
+const TOOL_VERSION = '1.0.0';
+const TOOL_URI = 'https://github.com/hussainu6/npmsafe';
+
+const SEVERITIES: Array<SecretPattern['severity']> = ['critical', 'high', 'medium', 'low'];
+
+const SARIF_LEVELS: Record<SecretPattern['severity'], 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+// GitHub code scanning reads this property to rank findings
+const SECURITY_SEVERITY: Record<SecretPattern['severity'], string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0'
+};
+
+export class ScanReportFormatter {
+  private patterns: SecretPattern[];
+
+  /**
+   * @param patterns Patterns used for the scan, so every rule is described even without findings
+   */
+  constructor(patterns: SecretPattern[] = []) {
+    this.patterns = patterns;
+  }
+
+  format(results: SecretScanResult[], format: ScanReportFormat = 'text'): string {
+    switch (format) {
+      case 'json':
+        return this.toJson(results);
+      case 'sarif':
+        return this.toSarif(results);
+      case 'junit':
+        return this.toJunit(results);
+      case 'text':
+        return this.toText(results);
+      default:
+        throw new Error(`Unknown report format "${format}". Use one of: ${SCAN_REPORT_FORMATS.join(', ')}`);
+    }
+  }
+
+  toText(results: SecretScanResult[]): string {
+    if (results.length === 0) {
+      return '✅ No secrets found in scanned files.';
+    }
+
+    let report = `🚨 Found ${results.length} potential secrets:\n\n`;
+
+    const grouped = this.groupBySeverity(results);
+
+    SEVERITIES.forEach(severity => {
+      const group = grouped[severity];
+      if (group.length > 0) {
+        const icon = severity === 'critical' ? '🚨' :
+                    severity === 'high' ? '⚠️' :
+                    severity === 'medium' ? '🔍' : 'ℹ️';
+
+        report += `${icon} ${severity.toUpperCase()} (${group.length}):\n`;
+        group.forEach(result => {
+          report += `  • ${result.file}:${result.line} - ${result.pattern.name}\n`;
+        });
+        report += '\n';
+      }
+    });
+
+    return report;
+  }
+
+  toJson(results: SecretScanResult[]): string {
+    const grouped = this.groupBySeverity(results);
+
+    const report = {
+      tool: { name: TOOL_NAME, version: TOOL_VERSION },
+      generatedAt: new Date().toISOString(),
+      summary: {
+        total: results.length,
+        critical: grouped.critical.length,
+        high: grouped.high.length,
+        medium: grouped.medium.length,
+        low: grouped.low.length
+      },
+      findings: results.map(result => ({
+        ruleId: ScanReportFormatter.ruleId(result.pattern),
+        rule: result.pattern.name,
+        severity: result.pattern.severity,
+        description: result.pattern.description,
+        file: this.relativePath(result.file),
+        line: result.line,
+        column: result.column,
+        entropy: result.entropy,
+        fingerprint: SecretBaseline.fingerprint(result),
+        redacted: ScanReportFormatter.redact(result.value),
+        ...(result.verified !== undefined ? { verified: result.verified } : {}),
+        ...(result.commit ? { commit: result.commit } : {})
+      }))
+    };
+
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * SARIF 2.1.0 log suitable for code-scanning dashboards and PR annotations
+   */
+  toSarif(results: SecretScanResult[]): string {
+    const rules = this.collectRules(results);
+    const ruleIndex = new Map(rules.map((pattern, index) => [ScanReportFormatter.ruleId(pattern), index]));
+
+    const sarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              version: TOOL_VERSION,
+              informationUri: TOOL_URI,
+              rules: rules.map(pattern => ({
+                id: ScanReportFormatter.ruleId(pattern),
+                name: pattern.name.replace(/[^A-Za-z0-9]/g, ''),
+                shortDescription: { text: pattern.name },
+                fullDescription: { text: pattern.description || pattern.name },
+                help: {
+                  text: 'Remove the secret from the published files, rotate it, and load it from the environment instead.'
+                },
+                defaultConfiguration: { level: SARIF_LEVELS[pattern.severity] },
+                properties: {
+                  tags: ['security', 'secret'],
+                  severity: pattern.severity,
+                  'security-severity': SECURITY_SEVERITY[pattern.severity]
+                }
+              }))
+            }
+          },
+          results: results.map(result => {
+            const id = ScanReportFormatter.ruleId(result.pattern);
+            return {
+              ruleId: id,
+              ruleIndex: ruleIndex.get(id),
+              level: SARIF_LEVELS[result.pattern.severity],
+              message: {
+                text: `${result.pattern.name} detected (${ScanReportFormatter.redact(result.value)})`
+              },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: this.relativePath(result.file) },
+                    region: {
+                      startLine: result.line,
+                      startColumn: result.column,
+                      endColumn: result.column + result.value.length
+                    }
+                  }
+                }
+              ],
+              partialFingerprints: {
+                'npmsafe/v1': SecretBaseline.fingerprint(result)
+              },
+              ...(result.commit || result.verified !== undefined ? {
+                properties: {
+                  ...(result.verified !== undefined ? { verified: result.verified } : {}),
+                  ...(result.commit ? {
+                    commit: result.commit.hash,
+                    author: result.commit.author,
+                    date: result.commit.date
+                  } : {})
+                }
+              } : {})
+            };
+          })
+        }
+      ]
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+
+  toJunit(results: SecretScanResult[]): string {
+    const cases = results.map(result => {
+      const name = `${this.relativePath(result.file)}:${result.line} ${result.pattern.name}`;
+      const message = `${result.pattern.name} (${result.pattern.severity}) at ${this.relativePath(result.file)}:${result.line}:${result.column}`;
+      return [
+        `    <testcase classname="${escapeXml(this.relativePath(result.file))}" name="${escapeXml(name)}">`,
+        `      <failure type="${result.pattern.severity}" message="${escapeXml(message)}">${escapeXml(result.pattern.description || '')}</failure>`,
+        '    </testcase>'
+      ].join('\n');
+    });
+
+    if (cases.length === 0) {
+      cases.push('    <testcase classname="npmsafe" name="No secrets found"/>');
+    }
+
+    const tests = Math.max(results.length, 1);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${results.length}">`,
+      `  <testsuite name="secret-scan" tests="${tests}" failures="${results.length}" errors="0" timestamp="${new Date().toISOString()}">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>'
+    ].join('\n');
+  }
+
+  static ruleId(pattern: SecretPattern): string {
+    return `npmsafe/${pattern.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+  }
+
+  /**
+   * Keep a short prefix so a finding can be recognized without leaking the secret
+   */
+  static redact(value: string): string {
+    const visible = Math.min(4, Math.floor(value.length / 4));
+    return `${value.slice(0, visible)}${'*'.repeat(Math.min(8, value.length - visible))}`;
+  }
+
+  private collectRules(results: SecretScanResult[]): SecretPattern[] {
+    const rules = new Map<string, SecretPattern>();
+    [...this.patterns, ...results.map(result => result.pattern)].forEach(pattern => {
+      const id = ScanReportFormatter.ruleId(pattern);
+      if (!rules.has(id)) rules.set(id, pattern);
+    });
+    return [...rules.values()];
+  }
+
+  private groupBySeverity(results: SecretScanResult[]): Record<SecretPattern['severity'], SecretScanResult[]> {
+    const grouped: Record<SecretPattern['severity'], SecretScanResult[]> = { critical: [], high: [], medium: [], low: [] };
+    results.forEach(result => grouped[result.pattern.severity].push(result));
+    return grouped;
+  }
+
+  private relativePath(file: string): string {
+    const relative = path.isAbsolute(file) ? path.relative(process.cwd(), file) : file;
+    return relative.split(path.sep).join('/');
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,166 @@
+/**
+ * Single-pass matching engine shared by the main thread and the scan workers
+ * (see scan-worker.ts).
+ */
+
+export interface EnginePattern {
+  source: string;
+  flags: string;
+  entropy?: number;
+  slug: string;
+  /** Lowercase words a line must contain before the pattern runs */
+  keywords?: string[];
+  /** Sources of regexes whose matches are not reported */
+  allow?: string[];
+}
+
+export interface EngineConfig {
+  patterns: EnginePattern[];
+  allowedSecrets: string[];
+  minEntropy: number;
+}
+
+export interface EngineMatch {
+  /** Index into `EngineConfig.patterns`, or -1 for a high entropy string */
+  pattern: number;
+  line: number;
+  column: number;
+  value: string;
+  entropy: number;
+  context: string;
+}
+
+export function scanText(content: string, config: EngineConfig): EngineMatch[] {
+  const ENTROPY_PATTERN = /[a-zA-Z0-9+/]{20,}={0,2}/g;
+  const FALSE_POSITIVES = [
+    /^[0-9a-f]{32}$/,
+    /^[0-9a-f]{40}$/,
+    /^[0-9a-f]{64}$/,
+    /^[A-Za-z0-9+/]{22}={0,2}$/,
+    /^[0-9]{10,}$/,
+    /^[A-Z]{2,}[0-9]{2,}[A-Z0-9]*$/
+  ];
+
+  const entropyOf = (value: string): number => {
+    const counts: Record<string, number> = {};
+    for (const char of value) counts[char] = (counts[char] || 0) + 1;
+    let entropy = 0;
+    for (const count of Object.values(counts)) {
+      const probability = count / value.length;
+      entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+  };
+
+  // Compile every pattern once, then group patterns sharing flags into one alternation so a
+  // line that matches nothing costs a single regex test per group
+  type Member = { index: number; regex: RegExp; allow: RegExp[] };
+  const groups = new Map<string, Member[]>();
+
+  config.patterns.forEach((pattern, index) => {
+    const flags = pattern.flags.replace(/[gy]/g, '');
+    try {
+      const entry = { index, regex: new RegExp(pattern.source, flags + 'g'), allow: (pattern.allow || []).map(source => new RegExp(source)) };
+      const group = groups.get(flags) || [];
+      group.push(entry);
+      groups.set(flags, group);
+    } catch {
+      // Invalid patterns are skipped, as in the sequential scanner
+    }
+  });
+
+  const prefilters: Array<{ regex: RegExp | null; members: Member[] }> = [];
+  groups.forEach((members, flags) => {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(members.map(member => `(?:${member.regex.source})`).join('|'), flags);
+    } catch {
+      // Back-references do not survive being combined; always run such a group
+    }
+    prefilters.push({ regex, members });
+  });
+
+  const lines = content.split('\n');
+  const allowed = new Set(config.allowedSecrets);
+  const matches: EngineMatch[] = [];
+  const seen = new Set<string>();
+
+  const contextOf = (lineIndex: number): string =>
+    lines.slice(Math.max(0, lineIndex - 2), Math.min(lines.length, lineIndex + 3)).join('\n');
+
+  const suppressed = (lineIndex: number, slug: string): boolean => {
+    const previous = lineIndex > 0 ? lines[lineIndex - 1] : undefined;
+    const directives = [
+      previous !== undefined ? previous.match(/npmsafe-ignore-next-line\b(.*)$/) : null,
+      lines[lineIndex].match(/npmsafe-ignore(?!-next-line)\b(.*)$/)
+    ];
+    return directives.some(directive => {
+      if (!directive) return false;
+      const names = directive[1]
+        .replace(/(\*\/|-->)\s*$/, '')
+        .split(/[\s,]+/)
+        .filter(name => /^[\w-]+$/.test(name));
+      return names.length === 0 || names.some(name => name.toLowerCase() === slug);
+    });
+  };
+
+  const push = (match: EngineMatch, slug: string): void => {
+    const key = `${match.line}:${match.column}:${match.value}`;
+    if (seen.has(key) || suppressed(match.line - 1, slug)) return;
+    seen.add(key);
+    matches.push(match);
+  };
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (!line) continue;
+
+    for (const prefilter of prefilters) {
+      if (prefilter.regex && !prefilter.regex.test(line)) continue;
+
+      for (const { index, regex, allow } of prefilter.members) {
+        const keywords = config.patterns[index].keywords;
+        if (keywords && !keywords.some(keyword => line.toLowerCase().includes(keyword))) continue;
+
+        regex.lastIndex = 0;
+        for (const match of line.matchAll(regex)) {
+          const value = match[0];
+          if (allowed.has(value) || allow.some(pattern => pattern.test(value))) continue;
+
+          const entropy = entropyOf(value);
+          const required = config.patterns[index].entropy;
+          if (required && entropy < required) continue;
+
+          push({
+            pattern: index,
+            line: lineIndex + 1,
+            column: (match.index ?? 0) + 1,
+            value,
+            entropy,
+            context: contextOf(lineIndex)
+          }, config.patterns[index].slug);
+        }
+      }
+    }
+
+    if (config.minEntropy > 0) {
+      ENTROPY_PATTERN.lastIndex = 0;
+      for (const match of line.matchAll(ENTROPY_PATTERN)) {
+        const value = match[0];
+        const entropy = entropyOf(value);
+        if (entropy < config.minEntropy || FALSE_POSITIVES.some(pattern => pattern.test(value))) continue;
+
+        push({
+          pattern: -1,
+          line: lineIndex + 1,
+          column: (match.index ?? 0) + 1,
+          value,
+          entropy,
+          context: contextOf(lineIndex)
+        }, 'high-entropy-string');
+      }
+    }
+  }
+
+  return matches;
+}
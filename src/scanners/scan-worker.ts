@@ -0,0 +1,23 @@
+import { parentPort, workerData } from 'worker_threads';
+import { readFileSync, statSync } from 'fs';
+import { scanText } from './scan-engine.js';
+
+/**
+ * Worker thread for the parallel scanner: scans one file per message and reads files on disk
+ * itself. Failures are posted back so the parent can scan the file on its own thread.
+ */
+parentPort?.on('message', (job: { id: number; file: string; content?: string }) => {
+  try {
+    let content = job.content;
+    if (content === undefined) {
+      if (statSync(job.file).size > workerData.maxFileSize) {
+        parentPort?.postMessage({ id: job.id, matches: [], skipped: true });
+        return;
+      }
+      content = readFileSync(job.file, 'utf-8');
+    }
+    parentPort?.postMessage({ id: job.id, matches: scanText(content, workerData.engine) });
+  } catch (error: any) {
+    parentPort?.postMessage({ id: job.id, matches: [], error: String(error?.message || error) });
+  }
+});
@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { SecretScanResult } from '../types/index.js';
+import logger from '../utils/logger.js';
+import { TARBALL_ROOT } from './package-contents.js';
+
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  pattern: string;
+  severity: SecretScanResult['pattern']['severity'];
+  line: number;
+}
+
+export interface BaselineFile {
+  version: number;
+  generatedAt: string;
+  findings: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  newFindings: SecretScanResult[];
+  knownFindings: SecretScanResult[];
+  resolved: BaselineEntry[];
+}
+
+export const DEFAULT_BASELINE_FILE = '.npmsafe-baseline.json';
+
+export class SecretBaseline {
+  private baselinePath: string;
+  private entries: BaselineEntry[] = [];
+
+  constructor(baselinePath: string = DEFAULT_BASELINE_FILE) {
+    this.baselinePath = path.resolve(baselinePath);
+    this.load();
+  }
+
+  /**
+   * Fingerprint a finding by file, pattern and a hash of its value, so the baseline never
+   * holds plaintext secrets and survives the finding moving to another line
+   */
+  static fingerprint(result: SecretScanResult): string {
+    return createHash('sha256')
+      .update(SecretBaseline.normalizePath(result.file))
+      .update('\0')
+      .update(result.pattern.name)
+      .update('\0')
+      .update(result.value)
+      .digest('hex');
+  }
+
+  /**
+   * Working-tree, history and tarball scans report the same file differently; fingerprint
+   * them all by the path relative to the package root
+   */
+  static normalizePath(file: string): string {
+    const relative = path.isAbsolute(file) ? path.relative(process.cwd(), file) : file;
+    return relative.split(path.sep).join('/').replace(new RegExp(`^${TARBALL_ROOT}/`), '');
+  }
+
+  exists(): boolean {
+    return existsSync(this.baselinePath);
+  }
+
+  getEntries(): BaselineEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Accept the given findings as known and write them to the baseline file
+   */
+  write(results: SecretScanResult[]): BaselineFile {
+    const seen = new Set<string>();
+    this.entries = [];
+
+    for (const result of results) {
+      const fingerprint = SecretBaseline.fingerprint(result);
+      if (seen.has(fingerprint)) continue;
+      seen.add(fingerprint);
+
+      this.entries.push({
+        fingerprint,
+        file: SecretBaseline.normalizePath(result.file),
+        pattern: result.pattern.name,
+        severity: result.pattern.severity,
+        line: result.line
+      });
+    }
+
+    const baseline: BaselineFile = {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      findings: this.entries
+    };
+
+    writeFileSync(this.baselinePath, JSON.stringify(baseline, null, 2) + '\n');
+    return baseline;
+  }
+
+  /**
+   * Split findings into new and already-accepted ones, and list baseline entries no longer found
+   */
+  compare(results: SecretScanResult[]): BaselineComparison {
+    const known = new Set(this.entries.map(entry => entry.fingerprint));
+    const current = new Set<string>();
+    const newFindings: SecretScanResult[] = [];
+    const knownFindings: SecretScanResult[] = [];
+
+    for (const result of results) {
+      const fingerprint = SecretBaseline.fingerprint(result);
+      current.add(fingerprint);
+      if (known.has(fingerprint)) {
+        knownFindings.push(result);
+      } else {
+        newFindings.push(result);
+      }
+    }
+
+    return {
+      newFindings,
+      knownFindings,
+      resolved: this.entries.filter(entry => !current.has(entry.fingerprint))
+    };
+  }
+
+  filterNew(results: SecretScanResult[]): SecretScanResult[] {
+    return this.compare(results).newFindings;
+  }
+
+  private load(): void {
+    if (!this.exists()) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.baselinePath, 'utf-8')) as BaselineFile;
+      this.entries = Array.isArray(data.findings) ? data.findings : [];
+    } catch (error) {
+      logger.warn(`Could not read secret baseline ${this.baselinePath}: ${error}`);
+      this.entries = [];
+    }
+  }
+}
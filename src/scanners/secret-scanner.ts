@@ -2,6 +2,12 @@ import { readFileSync, statSync } from 'fs';
 import { glob } from 'glob';
 import { SecretPattern, SecretScanResult, ScanOptions } from '../types/index.js';
 import logger from '../utils/logger.js';
+import { PackageContents } from './package-contents.js';
+import { SecretBaseline } from './secret-baseline.js';
+import { ScanReportFormatter, ScanReportFormat } from './report-formatter.js';
+import { SecretValidator, SecretVerifier } from './secret-verifier.js';
+import { ContentExtraction } from './content-extractors.js';
+import { ConfigFileScanner } from './config-file-scanner.js';
 
 export class SecretScanner {
   private defaultPatterns: SecretPattern[] = [
@@ -107,8 +113,11 @@ export class SecretScanner {
 
   private customPatterns: SecretPattern[] = [];
   private allowedSecrets: string[] = [];
+  private verifier: SecretVerifier;
+  private configScanner = new ConfigFileScanner();
 
-  constructor(options?: { patterns?: SecretPattern[], allowedSecrets?: string[] }) {
+  constructor(options?: { patterns?: SecretPattern[], allowedSecrets?: string[], validators?: SecretValidator[] }) {
+    this.verifier = new SecretVerifier(options?.validators);
     if (options?.patterns) {
       this.customPatterns = options.patterns;
     }
@@ -125,16 +134,44 @@ export class SecretScanner {
       entropy = 3.5,
       maxFileSize = 1024 * 1024, // 1MB
       timeout = 30000,
-      files = []
+      files = [],
+      pack = false,
+      tarball,
+      cwd,
+      baseline,
+      verify = false,
+      extract = false,
+      maxDepth
     } = options;
 
     logger.progress('Scanning for secrets');
 
     const results: SecretScanResult[] = [];
     const startTime = Date.now();
+    const extraction = extract ? new ContentExtraction({ maxDepth, maxEntrySize: maxFileSize }) : null;
+    const contentFiles: Array<{ file: string; content: string }> = [];
+    const addContent = (file: string, content: string, buffer?: Buffer) => {
+      if (extraction) {
+        contentFiles.push(...extraction.extract(file, buffer ?? Buffer.from(content)));
+      } else {
+        contentFiles.push({ file, content });
+      }
+    };
+
+    files.forEach(({ file, content }) => addContent(file, content));
+
+    // Pack-aware mode: scan exactly what would be uploaded to the registry
+    if (tarball || pack) {
+      const contents = new PackageContents({ cwd, timeout });
+      const entryLimit = extraction ? extraction.getMaxArchiveSize() : maxFileSize;
+      const entries = tarball
+        ? contents.getTarballEntries(tarball, entryLimit)
+        : await contents.getPackedEntries(entryLimit);
+      entries.forEach(({ file, content, buffer }) => addContent(file, content, buffer));
+    }
 
     // Scan provided file content first
-    for (const fileData of files) {
+    for (const fileData of contentFiles) {
       if (Date.now() - startTime > timeout) {
         logger.warn('Scan timeout reached');
         break;
@@ -148,8 +185,9 @@ export class SecretScanner {
       }
     }
 
-    // Then scan files from filesystem if no content provided
-    if (files.length === 0) {
+    // Then scan files from filesystem if no content provided; an empty list, such as nothing
+    // staged, still means "exactly these files"
+    if (!options.files && !tarball && !pack) {
       const allPatterns = [...patterns, ...include];
       const filePaths = await this.getFiles(allPatterns, exclude);
       
@@ -160,7 +198,9 @@ export class SecretScanner {
         }
 
         try {
-          const fileResults = await this.scanFile(file, entropy, maxFileSize);
+          const fileResults = extraction
+            ? this.scanExtracted(file, entropy, extraction, contentFiles)
+            : await this.scanFile(file, entropy, maxFileSize);
           results.push(...fileResults);
         } catch (error) {
           logger.debug(`Error scanning ${file}: ${error}`);
@@ -168,10 +208,43 @@ export class SecretScanner {
       }
     }
 
-    return this.filterResults(results);
+    let filtered = this.filterResults(results);
+
+    // Only report findings that are not already accepted in the baseline
+    if (baseline) {
+      const secretBaseline = new SecretBaseline(baseline);
+      if (secretBaseline.exists()) {
+        const { newFindings, knownFindings } = secretBaseline.compare(filtered);
+        if (knownFindings.length > 0) {
+          logger.info(`Ignoring ${knownFindings.length} findings already accepted in the baseline`);
+        }
+        filtered = newFindings;
+      }
+    }
+
+    if (verify) {
+      const sources = new Map(contentFiles.map(({ file, content }) => [file, content]));
+      return this.verifier.verify(filtered, sources);
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Add a validator to the verification stage, e.g. an `HttpSecretValidator`
+   */
+  registerValidator(validator: SecretValidator): void {
+    this.verifier.register(validator);
   }
 
-  private async getFiles(patterns: string[], exclude: string[]): Promise<string[]> {
+  /**
+   * Decide for each finding whether the matched value is live
+   */
+  async verify(results: SecretScanResult[], sources?: Map<string, string>): Promise<SecretScanResult[]> {
+    return this.verifier.verify(results, sources);
+  }
+
+  async getFiles(patterns: string[], exclude: string[]): Promise<string[]> {
     const files: string[] = [];
     
     for (const pattern of patterns) {
@@ -199,72 +272,27 @@ export class SecretScanner {
       }
 
       const content = readFileSync(filePath, 'utf-8');
-      const lines = content.split('\n');
-      const results: SecretScanResult[] = [];
-
-      // Scan with predefined patterns
-      const allPatterns = [...this.defaultPatterns, ...this.customPatterns];
-      
-      for (const pattern of allPatterns) {
-        for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-          const line = lines[lineNum];
-          if (!line) continue;
-          
-          console.log(`Checking line ${lineNum + 1}: "${line}" against pattern ${pattern.name}`);
-          
-          try {
-            // Create a new regex object to avoid state issues
-            const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags + 'g');
-            const matches = line.matchAll(regex);
-            
-            // Debug: Check if the regex matches at all
-            const testMatch = regex.test(line);
-            console.log(`Regex test result for ${pattern.name}: ${testMatch}`);
-            
-            for (const match of matches) {
-              const value = match[0];
-              const column = (match.index ?? 0) + 1;
-              
-              console.log(`Found match: "${value}" at column ${column}`);
-              
-              // Skip if in allowed secrets
-              if (this.allowedSecrets.includes(value)) {
-                console.log(`Skipping allowed secret: "${value}"`);
-                continue;
-              }
-
-              // Check entropy if required
-              if (pattern.entropy && this.calculateEntropy(value) < pattern.entropy) {
-                console.log(`Skipping low entropy: "${value}"`);
-                continue;
-              }
-
-              // Get context (surrounding lines)
-              const context = this.getContext(lines, lineNum, 2);
-
-              results.push({
-                file: filePath,
-                line: lineNum + 1,
-                column,
-                pattern,
-                value,
-                entropy: this.calculateEntropy(value),
-                context
-              });
-            }
-          } catch (error) {
-            console.log(`Error matching pattern ${pattern.name}:`, error);
-          }
-        }
-      }
-
-      // Scan for high entropy strings (potential secrets)
-      if (minEntropy > 0) {
-        const entropyResults = this.scanForHighEntropy(content, filePath, minEntropy);
-        results.push(...entropyResults);
-      }
+      return this.scanContent(content, filePath, minEntropy);
+    } catch (error) {
+      logger.debug(`Error reading file ${filePath}: ${error}`);
+      return [];
+    }
+  }
 
-      return results;
+  /**
+   * Scan every text entry of an archive, notebook or bundle, keeping the entries as sources
+   * for verification
+   */
+  private scanExtracted(
+    filePath: string,
+    minEntropy: number,
+    extraction: ContentExtraction,
+    sources: Array<{ file: string; content: string }>
+  ): SecretScanResult[] {
+    try {
+      const entries = extraction.extractFile(filePath);
+      sources.push(...entries.filter(entry => entry.file !== filePath));
+      return entries.flatMap(entry => this.scanContent(entry.content, entry.file, minEntropy));
     } catch (error) {
       logger.debug(`Error reading file ${filePath}: ${error}`);
       return [];
@@ -376,94 +404,48 @@ export class SecretScanner {
     return [...this.defaultPatterns, ...this.customPatterns];
   }
 
-  // Generate report
-  generateReport(results: SecretScanResult[]): string {
-    if (results.length === 0) {
-      return '✅ No secrets found in scanned files.';
-    }
-
-    const severityCounts = {
-      critical: 0,
-      high: 0,
-      medium: 0,
-      low: 0
-    };
-
-    results.forEach(result => {
-      severityCounts[result.pattern.severity]++;
-    });
-
-    let report = `🚨 Found ${results.length} potential secrets:\n\n`;
-    
-    // Group by severity
-    const grouped = results.reduce((acc, result) => {
-      if (!acc[result.pattern.severity]) {
-        acc[result.pattern.severity] = [];
-      }
-      acc[result.pattern.severity].push(result);
-      return acc;
-    }, {} as Record<string, SecretScanResult[]>);
-
-    // Report by severity
-    ['critical', 'high', 'medium', 'low'].forEach(severity => {
-      const group = grouped[severity];
-      if (group && group.length > 0) {
-        const icon = severity === 'critical' ? '🚨' : 
-                    severity === 'high' ? '⚠️' : 
-                    severity === 'medium' ? '🔍' : 'ℹ️';
-        
-        report += `${icon} ${severity.toUpperCase()} (${group.length}):\n`;
-        group.forEach(result => {
-          report += `  • ${result.file}:${result.line} - ${result.pattern.name}\n`;
-        });
-        report += '\n';
-      }
-    });
+  getAllowedSecrets(): string[] {
+    return [...this.allowedSecrets];
+  }
 
-    return report;
+  // Generate report
+  generateReport(results: SecretScanResult[], format: ScanReportFormat = 'text'): string {
+    return new ScanReportFormatter(this.getPatterns()).format(results, format);
   }
 
-  private scanContent(content: string, filePath: string, minEntropy: number): SecretScanResult[] {
+  scanContent(content: string, filePath: string, minEntropy: number = 3.5): SecretScanResult[] {
     const lines = content.split('\n');
     const results: SecretScanResult[] = [];
 
     // Scan with predefined patterns
     const allPatterns = [...this.defaultPatterns, ...this.customPatterns];
     
-    console.log('Scanning content:', content);
-    console.log('All patterns:', allPatterns.map(p => ({ name: p.name, pattern: p.pattern })));
-    
     for (const pattern of allPatterns) {
       for (let lineNum = 0; lineNum < lines.length; lineNum++) {
         const line = lines[lineNum];
         if (!line) continue;
-        
-        console.log(`Checking line ${lineNum + 1}: "${line}" against pattern ${pattern.name}`);
+
+        // Patterns with keywords only run on lines that mention one of them
+        if (pattern.keywords && !pattern.keywords.some(keyword => line.toLowerCase().includes(keyword))) {
+          continue;
+        }
         
         try {
           // Create a new regex object to avoid state issues
           const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags + 'g');
           const matches = line.matchAll(regex);
           
-          // Debug: Check if the regex matches at all
-          const testMatch = regex.test(line);
-          console.log(`Regex test result for ${pattern.name}: ${testMatch}`);
-          
           for (const match of matches) {
             const value = match[0];
             const column = (match.index ?? 0) + 1;
             
-            console.log(`Found match: "${value}" at column ${column}`);
-            
             // Skip if in allowed secrets
-            if (this.allowedSecrets.includes(value)) {
-              console.log(`Skipping allowed secret: "${value}"`);
+            if (this.allowedSecrets.includes(value) || pattern.allow?.some(allow => allow.test(value))) {
               continue;
             }
 
             // Check entropy if required
             if (pattern.entropy && this.calculateEntropy(value) < pattern.entropy) {
-              console.log(`Skipping low entropy: "${value}"`);
               continue;
             }
 
@@ -481,7 +463,7 @@ export class SecretScanner {
             });
           }
         } catch (error) {
-          console.log(`Error matching pattern ${pattern.name}:`, error);
+          logger.debug(`Error matching pattern ${pattern.name}: ${error}`);
         }
       }
     }
@@ -492,7 +474,51 @@ export class SecretScanner {
       results.push(...entropyResults);
     }
 
-    console.log('Final results:', results);
-    return results;
+    // Low-entropy values are still secrets when a config file stores them under a sensitive key
+    results.push(...this.scanConfigValues(content, filePath));
+
+    return results.filter(result => !this.isSuppressed(lines, result.line - 1, result.pattern));
+  }
+
+  /**
+   * Parse JSON, YAML, TOML, INI, `.env` and `.npmrc` files and flag values under sensitive keys
+   */
+  scanConfigValues(content: string, filePath: string): SecretScanResult[] {
+    const lines = content.split('\n');
+    return this.configScanner
+      .scan(content, filePath)
+      .filter(result => !this.allowedSecrets.includes(result.value))
+      .filter(result => !this.isSuppressed(lines, result.line - 1, result.pattern))
+      .map(result => ({ ...result, entropy: this.calculateEntropy(result.value) }));
+  }
+
+  /**
+   * Honor inline suppressions: `npmsafe-ignore-next-line [pattern-name...]` on the line above,
+   * or a trailing `npmsafe-ignore [pattern-name...]` on the same line
+   */
+  private isSuppressed(lines: string[], lineIndex: number, pattern: SecretPattern): boolean {
+    const previousLine = lineIndex > 0 ? lines[lineIndex - 1] : undefined;
+    const directives = [
+      previousLine?.match(/npmsafe-ignore-next-line\b(.*)$/),
+      lines[lineIndex]?.match(/npmsafe-ignore(?!-next-line)\b(.*)$/)
+    ];
+
+    return directives.some(directive => {
+      if (!directive) return false;
+
+      const names = directive[1]
+        .replace(/(\*\/|-->)\s*$/, '')
+        .split(/[\s,]+/)
+        .filter(name => /^[\w-]+$/.test(name));
+
+      return names.length === 0 || names.some(name => name.toLowerCase() === SecretScanner.slugify(pattern.name));
+    });
+  }
+
+  /**
+   * Turn a pattern name into the identifier used by suppression comments ("AWS Access Key" → "aws-access-key")
+   */
+  static slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
   }
 } 
\ No newline at end of file
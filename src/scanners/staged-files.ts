@@ -0,0 +1,68 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import logger from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface StagedFilesOptions {
+  cwd?: string;
+  /** Larger blobs are skipped, as in a working tree scan */
+  maxFileSize?: number;
+  timeout?: number;
+}
+
+/**
+ * Reads the index rather than the working tree, so a scan sees exactly what the next commit
+ * will contain even when a file has unstaged edits
+ */
+export class StagedFiles {
+  private cwd?: string;
+  private maxFileSize: number;
+  private timeout: number;
+
+  constructor(options: StagedFilesOptions = {}) {
+    this.cwd = options.cwd;
+    this.maxFileSize = options.maxFileSize ?? 1024 * 1024;
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  /**
+   * Paths, relative to the repository root, of files added, copied, modified or renamed in the index
+   */
+  async list(): Promise<string[]> {
+    const stdout = await this.git(['diff', '--cached', '--name-only', '-z', '--diff-filter=ACMR', '--no-renames']);
+    return stdout.toString('utf-8').split('\0').filter(Boolean);
+  }
+
+  /**
+   * Staged blob contents in the shape `ScanOptions.files` expects
+   */
+  async read(): Promise<Array<{ file: string; content: string }>> {
+    const files: Array<{ file: string; content: string }> = [];
+
+    for (const file of await this.list()) {
+      const blob = await this.git(['cat-file', 'blob', `:${file}`]);
+      if (blob.length > this.maxFileSize) {
+        logger.debug(`Skipping large staged file: ${file} (${blob.length} bytes)`);
+        continue;
+      }
+      if (blob.subarray(0, 8000).includes(0)) {
+        logger.debug(`Skipping binary staged file: ${file}`);
+        continue;
+      }
+      files.push({ file, content: blob.toString('utf-8') });
+    }
+
+    return files;
+  }
+
+  private async git(args: string[]): Promise<Buffer> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.cwd,
+      encoding: 'buffer',
+      timeout: this.timeout,
+      maxBuffer: 256 * 1024 * 1024
+    });
+    return stdout;
+  }
+}
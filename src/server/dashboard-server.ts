@@ -11,7 +11,7 @@ import { v4 as uuidv4 } from 'uuid';
 import moment from 'moment';
 import { logger } from '../utils/logger.js';
 import { Analytics } from '../analytics/analytics.js';
-import { WebhookManager } from '../webhooks/webhook.js';
+import { WebhookManager, WebhookError, WebhookSubscription, defaultWebhookStore } from '../webhooks/webhook.js';
 import { SecretScanner } from '../scanners/secret-scanner.js';
 import { SemanticVersioner } from '../versioning/semantic-versioner.js';
 import { LicenseChecker } from '../audit/license-checker.js';
@@ -22,7 +22,9 @@ import { DiscordIntegration } from '../integrations/discord.js';
 import { LinearIntegration } from '../integrations/linear.js';
 import { JiraIntegration } from '../integrations/jira.js';
 import { GitHubIntegration } from '../integrations/github.js';
-import type { NPMSafeConfig, LogLevel } from '../types/index.js';
+import { ApprovalStore, DEFAULT_APPROVAL_STORE } from '../approvals/approval-gate.js';
+import { ApprovalInteractions } from '../approvals/interactions.js';
+import type { NPMSafeConfig, LogLevel, ApprovalsConfig } from '../types/index.js';
 
 export interface DashboardConfig {
   port: number;
@@ -48,6 +50,10 @@ export interface DashboardConfig {
     securityAudit: boolean;
     deploymentManagement: boolean;
   };
+  /** Approvers and signing keys for the Slack and Discord interactions endpoints */
+  approvals: ApprovalsConfig;
+  /** Release tag format, from `versioning.tagName` */
+  tagFormat?: string;
 }
 
 export interface DashboardStats {
@@ -81,6 +87,7 @@ export class DashboardServer {
   private licenseChecker!: LicenseChecker;
   private dependencyAuditor!: DependencyAuditor;
   private secretDiffAuditor!: SecretDiffAuditor;
+  private interactions!: ApprovalInteractions;
   private sessions: Map<string, Session> = new Map();
   private stats!: DashboardStats;
   private isRunning: boolean = false;
@@ -112,6 +119,10 @@ export class DashboardServer {
         securityAudit: true,
         deploymentManagement: true
       },
+      approvals: {
+        slackSigningSecret: process.env.SLACK_SIGNING_SECRET,
+        discordPublicKey: process.env.DISCORD_PUBLIC_KEY
+      },
       ...config
     };
 
@@ -127,12 +138,18 @@ export class DashboardServer {
     this.app = express();
     this.server = createServer(this.app);
     this.analytics = new Analytics();
-    this.webhookManager = new WebhookManager([]);
+    this.webhookManager = new WebhookManager([], { storePath: defaultWebhookStore() });
     this.secretScanner = new SecretScanner();
-    this.versioner = new SemanticVersioner();
+    this.versioner = new SemanticVersioner({ tagFormat: this.config.tagFormat });
     this.licenseChecker = new LicenseChecker();
     this.dependencyAuditor = new DependencyAuditor();
     this.secretDiffAuditor = new SecretDiffAuditor();
+    this.interactions = new ApprovalInteractions({
+      store: new ApprovalStore(DEFAULT_APPROVAL_STORE),
+      approvers: this.config.approvals.approvers || [],
+      slackSigningSecret: this.config.approvals.slackSigningSecret,
+      discordPublicKey: this.config.approvals.discordPublicKey
+    });
     this.stats = {
       totalScans: 0,
       totalPublishes: 0,
@@ -176,9 +193,12 @@ export class DashboardServer {
     this.app.use(compression());
     this.app.use(morgan('combined'));
 
-    // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
-    this.app.use(express.urlencoded({ extended: true }));
+    // Body parsing; signature checks need the body exactly as it was sent
+    const keepRawBody = (req: express.Request, res: express.Response, buffer: Buffer) => {
+      (req as any).rawBody = buffer.toString('utf-8');
+    };
+    this.app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+    this.app.use(express.urlencoded({ extended: true, verify: keepRawBody }));
 
     // Logging
     this.app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -186,12 +206,32 @@ export class DashboardServer {
       next();
     });
 
+    // Slack and Discord sign their interaction requests instead of logging in, so these
+    // come before the authentication middleware
+    this.app.post('/interactions/slack', this.handleInteraction('slack'));
+    this.app.post('/interactions/discord', this.handleInteraction('discord'));
+
     // Authentication middleware
     if (this.config.auth.enabled) {
       this.app.use(this.authMiddleware.bind(this));
     }
   }
 
+  private handleInteraction(platform: 'slack' | 'discord') {
+    return async (req: express.Request, res: express.Response): Promise<void> => {
+      try {
+        const rawBody: string = (req as any).rawBody || '';
+        const response = platform === 'slack'
+          ? await this.interactions.handleSlack(rawBody, req.headers)
+          : await this.interactions.handleDiscord(rawBody, req.headers);
+        res.status(response.status).json(response.body);
+      } catch (error) {
+        logger.error(`Failed to handle ${platform} interaction:`, error);
+        res.status(500).json({ error: 'Failed to handle interaction' });
+      }
+    };
+  }
+
   private authMiddleware(req: express.Request, res: express.Response, next: express.NextFunction): void {
     const token = req.headers.authorization?.replace('Bearer ', '');
     
@@ -236,6 +276,9 @@ export class DashboardServer {
     this.app.post('/api/webhooks', this.createWebhook.bind(this));
     this.app.get('/api/webhooks', this.getWebhooks.bind(this));
     this.app.delete('/api/webhooks/:id', this.deleteWebhook.bind(this));
+    this.app.get('/api/webhooks/deliveries', this.getWebhookDeliveries.bind(this));
+    this.app.get('/api/webhooks/:id/deliveries', this.getWebhookDeliveries.bind(this));
+    this.app.post('/api/webhooks/deliveries/:deliveryId/redeliver', this.redeliverWebhook.bind(this));
 
     // Real-time monitoring
     this.app.get('/api/monitoring/status', this.getMonitoringStatus.bind(this));
@@ -400,11 +443,15 @@ export class DashboardServer {
 
   private async createWebhook(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const { url, events } = req.body;
-      const webhook = await (this.webhookManager as any).addWebhook(url, events);
-      res.json(webhook);
+      const { url, events, secret, description, format, template } = req.body;
+      // The secret is only shown here, when the webhook is created
+      res.status(201).json(this.webhookManager.addWebhook({ url, events, secret, description, format, template }));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (error instanceof WebhookError) {
+        res.status(400).json({ error: errorMessage });
+        return;
+      }
       logger.error('Failed to create webhook:', errorMessage);
       res.status(500).json({ error: 'Failed to create webhook' });
     }
@@ -412,8 +459,7 @@ export class DashboardServer {
 
   private async getWebhooks(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const webhooks = await (this.webhookManager as any).getWebhooks();
-      res.json(webhooks);
+      res.json(this.webhookManager.getWebhooks().map(hideSecret));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       logger.error('Failed to get webhooks:', errorMessage);
@@ -424,15 +470,52 @@ export class DashboardServer {
   private async deleteWebhook(req: express.Request, res: express.Response): Promise<void> {
     try {
       const { id } = req.params;
-      await (this.webhookManager as any).removeWebhook(id);
+      if (!this.webhookManager.removeWebhook(id)) {
+        res.status(404).json({ error: `No webhook ${id}` });
+        return;
+      }
       res.json({ success: true });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (error instanceof WebhookError) {
+        res.status(400).json({ error: errorMessage });
+        return;
+      }
       logger.error('Failed to delete webhook:', errorMessage);
       res.status(500).json({ error: 'Failed to delete webhook' });
     }
   }
 
+  private async getWebhookDeliveries(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const status = req.query['status'];
+      const limit = Number(req.query['limit']);
+      res.json(this.webhookManager.getDeliveries({
+        webhookId: req.params['id'],
+        status: status === 'pending' || status === 'delivered' || status === 'failed' ? status : undefined,
+        limit: Number.isInteger(limit) && limit > 0 ? limit : 100
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      logger.error('Failed to get webhook deliveries:', errorMessage);
+      res.status(500).json({ error: 'Failed to get webhook deliveries' });
+    }
+  }
+
+  private async redeliverWebhook(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      res.json(await this.webhookManager.redeliver(req.params['deliveryId']));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (error instanceof WebhookError) {
+        res.status(404).json({ error: errorMessage });
+        return;
+      }
+      logger.error('Failed to redeliver webhook:', errorMessage);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  }
+
   private async getMonitoringStatus(req: express.Request, res: express.Response): Promise<void> {
     try {
       res.json({
@@ -581,6 +664,7 @@ export class DashboardServer {
 
       // Start background tasks
       this.startBackgroundTasks();
+      this.webhookManager.start();
     } catch (error) {
       logger.error('Failed to start dashboard server:', error);
       throw error;
@@ -590,6 +674,7 @@ export class DashboardServer {
   public async stop(): Promise<void> {
     try {
       this.isRunning = false;
+      this.webhookManager.stop();
       this.server.close();
       logger.info('Dashboard server stopped');
     } catch (error) {
@@ -639,4 +724,9 @@ export class DashboardServer {
   public getConfig(): DashboardConfig {
     return this.config;
   }
-} 
\ No newline at end of file
+} 
+
+function hideSecret(webhook: WebhookSubscription): Omit<WebhookSubscription, 'secret'> & { signed: boolean } {
+  const { secret, ...rest } = webhook;
+  return { ...rest, signed: Boolean(secret) };
+}
@@ -1,9 +1,7 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { Analytics } from '../analytics/analytics.js';
-import { WebhookManager } from '../webhooks/webhook.js';
-import { SlackIntegration } from '../integrations/slack.js';
-import { DiscordIntegration } from '../integrations/discord.js';
+import { NotificationRouter, createChatChannels } from '../notifications/notification-router.js';
 import { logger } from '../utils/logger.js';
 
 export interface TestingConfig {
@@ -39,6 +37,8 @@ export interface TestingConfig {
     e2e: number;
     performance: number;
   };
+  /** Where results are published; built from `notifications` when not given */
+  notifier?: NotificationRouter;
 }
 
 export interface TestFramework {
@@ -133,9 +133,7 @@ export class AdvancedTesting extends EventEmitter {
   private testResults: TestSuite[] = [];
   private isRunning: boolean = false;
   private analytics!: Analytics;
-  private webhookManager!: WebhookManager;
-  private slackIntegration?: SlackIntegration;
-  private discordIntegration?: DiscordIntegration;
+  private notifier!: NotificationRouter;
 
   constructor(config: Partial<TestingConfig> = {}) {
     super();
@@ -204,19 +202,7 @@ export class AdvancedTesting extends EventEmitter {
 
   private initializeComponents(): void {
     this.analytics = new Analytics();
-    this.webhookManager = new WebhookManager([]);
-
-    if (this.config.notifications.slack?.webhookUrl) {
-      this.slackIntegration = new SlackIntegration({
-        webhookUrl: this.config.notifications.slack.webhookUrl
-      });
-    }
-
-    if (this.config.notifications.discord?.webhookUrl) {
-      this.discordIntegration = new DiscordIntegration({
-        webhookUrl: this.config.notifications.discord.webhookUrl
-      });
-    }
+    this.notifier = this.config.notifier || new NotificationRouter({}, { channels: createChatChannels(this.config.notifications) });
   }
 
   public async runTests(options: {
@@ -564,25 +550,13 @@ export class AdvancedTesting extends EventEmitter {
   }
 
   private async sendTestNotifications(report: TestSummary): Promise<void> {
-    const message = `🧪 **Test Results**: ${report.passedTests}/${report.totalTests} tests passed`;
-
     try {
-      if (this.slackIntegration) {
-        await this.slackIntegration.sendMessage(message);
-      }
-
-      if (this.discordIntegration) {
-        await this.discordIntegration.sendMessage(message);
-      }
-
-      await this.webhookManager.sendEvent({
-        event: 'scan',
-        package: 'testing',
-        version: '1.0.0',
-        timestamp: new Date().toISOString(),
-        data: {
-          report,
-        }
+      await this.notifier.publish({
+        type: 'test',
+        severity: report.failedTests > 0 ? 'high' : 'info',
+        title: 'Test Results',
+        message: `${report.passedTests}/${report.totalTests} tests passed`,
+        data: { report }
       });
     } catch (error) {
       logger.error('Failed to send test notifications:', error);
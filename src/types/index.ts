@@ -2,10 +2,11 @@ export interface NPMSafeConfig {
   version: string;
   config: {
     requireCI?: boolean;
-    blockPublishOnSecret?: boolean;
+    blockPublishOnSecret?: boolean | 'verified';
     webhooks?: string[];
     plugins?: string[];
-    secretPatterns?: SecretPattern[];
+    secretPatterns?: Array<SecretPattern | PatternDefinition>;
+    patternPacks?: string[];
     allowedSecrets?: string[];
     registry?: string;
     tag?: string;
@@ -13,7 +14,25 @@ export interface NPMSafeConfig {
     autoVersion?: boolean;
     changelog?: boolean;
     gitChecks?: boolean;
+    releaseBranches?: string[];
+    requireTag?: boolean;
+    channels?: Record<string, string>;
+    policy?: PolicyConfig;
+    notifications?: NotificationsConfig;
+    approvals?: ApprovalsConfig;
+    versioning?: {
+      commit?: boolean;
+      tag?: boolean;
+      commitMessage?: string;
+      tagName?: string;
+      tagMessage?: string;
+      versionFile?: string;
+      versionPattern?: string;
+    };
     impactAnalysis?: boolean;
+    verifySecrets?: boolean;
+    blockUnverifiedSecrets?: boolean;
+    secretValidators?: HttpSecretValidatorConfig[];
     encryption?: {
       enabled: boolean;
       algorithm: string;
@@ -22,7 +41,11 @@ export interface NPMSafeConfig {
     // Integration and workflow config additions
     githubToken?: string;
     githubRepo?: string;
+    githubApiUrl?: string;
     slackWebhookUrl?: string;
+    slackBotToken?: string;
+    slackChannel?: string;
+    slackApiUrl?: string;
     discordWebhookUrl?: string;
     linearApiKey?: string;
     linearTeamId?: string;
@@ -39,6 +62,30 @@ export interface SecretPattern {
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   entropy?: number;
+  keywords?: string[];
+  allow?: RegExp[];
+}
+
+export interface PatternDefinition {
+  name: string;
+  regex: string;
+  flags?: string;
+  description?: string;
+  severity: SecretPattern['severity'];
+  entropy?: number;
+  keywords?: string[];
+  allow?: string[];
+  examples?: {
+    match?: string[];
+    noMatch?: string[];
+  };
+}
+
+export interface PatternPack {
+  version: number;
+  name: string;
+  description?: string;
+  patterns: PatternDefinition[];
 }
 
 export interface SecretScanResult {
@@ -49,6 +96,22 @@ export interface SecretScanResult {
   value: string;
   entropy?: number;
   context: string;
+  commit?: CommitInfo;
+  verified?: SecretVerification;
+}
+
+export type SecretVerification = boolean | 'well-formed' | 'unknown';
+
+export interface HttpSecretValidatorConfig {
+  name: string;
+  patterns: string[];
+  url: string;
+  method?: 'GET' | 'POST' | 'HEAD';
+  headers?: Record<string, string>;
+  body?: string;
+  liveStatus?: number[];
+  revokedStatus?: number[];
+  timeout?: number;
 }
 
 export interface VersionAnalysis {
@@ -60,6 +123,8 @@ export interface VersionAnalysis {
   breakingChanges: string[];
   features: string[];
   fixes: string[];
+  channel?: string;
+  distTag?: string;
 }
 
 export interface ChangelogEntry {
@@ -88,6 +153,9 @@ export interface CommitInfo {
 export interface PublishSimulation {
   files: string[];
   size: number;
+  unpackedSize?: number;
+  previousVersion?: string;
+  previousUnpackedSize?: number;
   registry: string;
   tag: string;
   warnings: string[];
@@ -100,35 +168,189 @@ export interface GitStatus {
   isClean: boolean;
   uncommittedFiles: string[];
   currentBranch: string;
+  upstream?: string;
   ahead: number;
   behind: number;
   lastCommit: string;
+  tags: string[];
 }
 
 export interface CIStatus {
   isPassing: boolean;
   provider: string;
   buildUrl?: string;
+  commit?: string;
   lastRun: string;
   status: 'passing' | 'failing' | 'pending' | 'unknown';
+  failedChecks?: string[];
+  pendingChecks?: string[];
+}
+
+export interface SafetyCheckResult {
+  name: string;
+  passed: boolean;
+  reasons: string[];
+}
+
+export type CheckSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type CheckAction = 'auto' | 'block' | 'warn' | 'off';
+
+export interface CheckPolicy {
+  action?: CheckAction;
+  severity?: CheckSeverity;
+  options?: Record<string, unknown>;
+}
+
+export interface PolicyRules {
+  blockAt?: CheckSeverity;
+  checks?: Record<string, CheckAction | CheckPolicy>;
+}
+
+export interface PolicyOverride extends PolicyRules {
+  branch?: string;
+  tag?: string;
+}
+
+export interface PolicyConfig extends PolicyRules {
+  overrides?: PolicyOverride[];
+}
+
+export interface CheckContext {
+  cwd: string;
+  config: NPMSafeConfig;
+  packageJson: Record<string, any>;
+  tag: string;
+  registry: string;
+  branch?: string;
+  commit?: string;
+}
+
+export interface CheckOutcome {
+  passed: boolean;
+  reasons: string[];
+  severity?: CheckSeverity;
+  details?: Record<string, unknown>;
+}
+
+export interface Check {
+  name: string;
+  description: string;
+  severity: CheckSeverity;
+  run(context: CheckContext, options: Record<string, unknown>): Promise<CheckOutcome>;
+}
+
+export interface CheckVerdict {
+  name: string;
+  description: string;
+  action: CheckAction;
+  status: 'passed' | 'failed' | 'error' | 'skipped';
+  severity: CheckSeverity;
+  blocking: boolean;
+  reasons: string[];
+  details?: Record<string, unknown>;
+  duration: number;
+}
+
+export interface PolicyVerdict {
+  schemaVersion: 1;
+  package: string;
+  version: string;
+  tag: string;
+  branch?: string;
+  commit?: string;
+  decision: 'pass' | 'warn' | 'block';
+  blockAt: CheckSeverity;
+  checks: CheckVerdict[];
+  summary: {
+    passed: number;
+    warnings: number;
+    blocking: number;
+    skipped: number;
+  };
+  timestamp: string;
 }
 
 export interface UnpublishImpact {
+  package: string;
+  version?: string;
+  publishedAt?: string;
   downloads: number;
-  dependents: number;
-  dependentPackages: string[];
+  distTags: string[];
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  allowed: boolean;
+  policyViolations: string[];
+  alternatives: UnpublishAlternative[];
   warnings: string[];
 }
 
+export interface UnpublishAlternative {
+  action: 'deprecate' | 'dist-tag';
+  description: string;
+  command: string;
+}
+
+export type WebhookEvent = 'publish' | 'unpublish' | 'rollback' | 'scan' | 'version' | 'security-alert' | 'deployment' | 'test' | 'monitor-alert';
+
 export interface WebhookPayload {
-  event: 'publish' | 'unpublish' | 'rollback' | 'scan' | 'version';
+  event: WebhookEvent;
   package: string;
   version: string;
   timestamp: string;
   data: Record<string, any>;
 }
 
+export type NotificationEventType = 'publish' | 'security-alert' | 'deployment' | 'scan' | 'test' | 'monitor-alert';
+
+export type NotificationSeverity = 'info' | CheckSeverity;
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  severity: NotificationSeverity;
+  package: string;
+  version?: string;
+  branch?: string;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+  dedupeKey?: string;
+  thread?: string;
+}
+
+export interface NotificationChannelConfig {
+  type: 'slack' | 'discord' | 'webhook';
+  url?: string;
+  token?: string;
+  apiUrl?: string;
+  channel?: string;
+  username?: string;
+}
+
+export interface NotificationRoute {
+  events?: NotificationEventType[];
+  severity?: NotificationSeverity;
+  packages?: string[];
+  branches?: string[];
+  channels: string[];
+}
+
+export interface NotificationsConfig {
+  channels?: Record<string, NotificationChannelConfig>;
+  routes?: NotificationRoute[];
+  templates?: Record<string, Partial<Record<NotificationEventType, string>>>;
+  dedupeWindow?: number;
+  rateLimit?: {
+    max: number;
+    window: number;
+  };
+  quietHours?: {
+    start: string;
+    end: string;
+    timezone?: string;
+    allow?: NotificationSeverity;
+  };
+}
+
 export interface Plugin {
   name: string;
   version: string;
@@ -138,6 +360,7 @@ export interface Plugin {
     preScan?: (files: string[]) => Promise<string[]>;
     postScan?: (results: SecretScanResult[]) => Promise<SecretScanResult[]>;
   };
+  checks?: Check[];
 }
 
 export interface CLICommand {
@@ -159,6 +382,13 @@ export interface ScanOptions {
   maxFileSize?: number;
   timeout?: number;
   files?: Array<{ file: string; content: string }>;
+  pack?: boolean;
+  tarball?: string;
+  cwd?: string;
+  baseline?: string;
+  verify?: boolean;
+  extract?: boolean;
+  maxDepth?: number;
 }
 
 export interface VersionOptions {
@@ -167,6 +397,8 @@ export interface VersionOptions {
   dryRun?: boolean;
   commit?: boolean;
   tag?: boolean;
+  preid?: string;
+  graduate?: boolean;
 }
 
 export interface PublishOptions {
@@ -175,6 +407,26 @@ export interface PublishOptions {
   registry?: string;
   access?: 'public' | 'restricted';
   otp?: string;
+  approval?: PublishApproval;
+}
+
+export interface ApprovalsConfig {
+  approvers?: string[];
+  timeout?: number;
+  slackSigningSecret?: string;
+  discordPublicKey?: string;
+}
+
+export interface Approver {
+  platform: 'slack' | 'discord';
+  id: string;
+  name?: string;
+}
+
+export interface PublishApproval {
+  requestId: string;
+  approver: Approver;
+  approvedAt: string;
 }
 
 export interface MiddlewareOptions {
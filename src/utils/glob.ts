@@ -0,0 +1,7 @@
+/**
+ * Match a name such as a branch or dist-tag against a pattern where `*` stands for anything
+ */
+export function matchGlob(pattern: string, value: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(value);
+}
@@ -0,0 +1,68 @@
+/**
+ * Replace the string at a key path in JSON text, leaving indentation, key order and line
+ * endings untouched. Returns null when the path does not hold a string.
+ */
+export function setJsonString(text: string, keyPath: string[], value: string): string | null {
+  JSON.parse(text);
+
+  let position = 0;
+  let found = null as [number, number] | null;
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++;
+  };
+  const readString = (): [number, number] => {
+    const start = position++;
+    while (text[position] !== '"') {
+      position += text[position] === '\\' ? 2 : 1;
+    }
+    position++;
+    return [start, position];
+  };
+  const matches = (path: string[]) => path.length === keyPath.length && path.every((key, index) => key === keyPath[index]);
+
+  const readValue = (path: string[]): void => {
+    skipWhitespace();
+    const char = text[position];
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      position++;
+      skipWhitespace();
+      if (text[position] === close) {
+        position++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        skipWhitespace();
+        let childPath = [...path, String(index)];
+        if (char === '{') {
+          const [start, end] = readString();
+          childPath = [...path, JSON.parse(text.slice(start, end))];
+          skipWhitespace();
+          position++; // the colon
+          skipWhitespace();
+        }
+        if (text[position] === '"' && matches(childPath)) {
+          found = readString();
+        } else {
+          readValue(childPath);
+        }
+        skipWhitespace();
+        if (text[position++] !== ',') return;
+      }
+    }
+
+    if (char === '"') {
+      readString();
+      return;
+    }
+    while (position < text.length && !/[\s,\]}]/.test(text[position])) position++;
+  };
+
+  readValue([]);
+  if (!found) return null;
+
+  const [start, end] = found;
+  return text.slice(0, start) + JSON.stringify(value) + text.slice(end);
+}
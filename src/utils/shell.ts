@@ -0,0 +1,6 @@
+/**
+ * Quote an argument for `/bin/sh`
+ */
+export function quoteArg(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
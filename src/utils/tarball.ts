@@ -0,0 +1,114 @@
+import { gunzipSync } from 'zlib';
+
+export interface TarEntry {
+  path: string;
+  size: number;
+  mode: number;
+  type: 'file' | 'directory' | 'other';
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+/** Largest size a gzipped tarball may unpack to, so a small gzip bomb cannot exhaust memory */
+export const MAX_UNPACKED_TARBALL_SIZE = 256 * 1024 * 1024;
+
+/**
+ * Check whether a buffer starts with the gzip magic bytes
+ */
+export function isGzip(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+/**
+ * Read all entries from a tar archive (optionally gzip-compressed, as produced by `npm pack`).
+ * Throws when the archive unpacks to more than `maxUnpackedSize` bytes.
+ */
+export function readTarball(buffer: Buffer, maxUnpackedSize = MAX_UNPACKED_TARBALL_SIZE): TarEntry[] {
+  let data = buffer;
+  if (isGzip(buffer)) {
+    try {
+      data = gunzipSync(buffer, { maxOutputLength: maxUnpackedSize });
+    } catch (error: any) {
+      if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Tarball unpacks to more than ${maxUnpackedSize} bytes`);
+      }
+      throw error;
+    }
+  }
+  const entries: TarEntry[] = [];
+
+  let offset = 0;
+  let longPath: string | undefined;
+  let paxPath: string | undefined;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+
+    // Two consecutive zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const name = readString(header, 0, 100);
+    const mode = readOctal(header, 100, 8);
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const magic = readString(header, 257, 6);
+    const prefix = magic.startsWith('ustar') ? readString(header, 345, 155) : '';
+
+    const contentStart = offset + BLOCK_SIZE;
+    const content = data.subarray(contentStart, contentStart + size);
+    offset = contentStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // GNU long name and pax extended headers describe the next entry
+    if (typeFlag === 'L') {
+      longPath = readString(content, 0, content.length);
+      continue;
+    }
+    if (typeFlag === 'x') {
+      paxPath = parsePaxPath(content) ?? paxPath;
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    const path = paxPath || longPath || (prefix ? `${prefix}/${name}` : name);
+    longPath = undefined;
+    paxPath = undefined;
+
+    entries.push({
+      path,
+      size,
+      mode,
+      type: typeFlag === '0' || typeFlag === '\0' || typeFlag === '7' ? 'file' : typeFlag === '5' ? 'directory' : 'other',
+      content: Buffer.from(content)
+    });
+  }
+
+  return entries;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const slice = buffer.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return slice.subarray(0, end === -1 ? slice.length : end).toString('utf-8');
+}
+
+function readOctal(buffer: Buffer, start: number, length: number): number {
+  const value = readString(buffer, start, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function parsePaxPath(content: Buffer): string | undefined {
+  // Records look like "<length> <key>=<value>\n"
+  const records = content.toString('utf-8').split('\n');
+  for (const record of records) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,118 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  compressedSize: number;
+  type: 'file' | 'directory';
+  encrypted: boolean;
+  content: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Check whether a buffer starts with a zip local file header (or is an empty zip)
+ */
+export function isZip(buffer: Buffer): boolean {
+  if (buffer.length < 4) return false;
+  const signature = buffer.readUInt32LE(0);
+  return signature === LOCAL_HEADER_SIGNATURE || signature === END_OF_CENTRAL_DIRECTORY_SIGNATURE;
+}
+
+/**
+ * Read the entries of a zip archive from its central directory. Stored and deflated entries
+ * are decompressed; encrypted entries and other methods come back with empty content.
+ *
+ * @param maxEntrySize Entries inflating beyond this many bytes are returned empty
+ * @param maxArchiveSize Throws once the entries together inflate beyond this many bytes
+ */
+export function readZip(buffer: Buffer, maxEntrySize = Infinity, maxArchiveSize = Infinity): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(buffer);
+  if (endOffset === -1) {
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+  let unpacked = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      break;
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const path = buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const encrypted = (flags & 0x1) === 0x1;
+    const type = path.endsWith('/') ? 'directory' : 'file';
+    let content = Buffer.alloc(0);
+
+    if (type === 'file' && !encrypted && size <= maxEntrySize) {
+      // Each entry may only use what is left of the archive budget, whatever size it declares
+      const remaining = maxArchiveSize - unpacked;
+      if (size > remaining) {
+        throw new Error(`Zip archive unpacks to more than ${maxArchiveSize} bytes`);
+      }
+      content = readEntryData(buffer, localOffset, method, compressedSize, Math.min(maxEntrySize, remaining));
+      unpacked += content.length;
+    }
+
+    entries.push({ path, size, compressedSize, type, encrypted, content });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes
+  const stop = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+function readEntryData(buffer: Buffer, localOffset: number, method: number, compressedSize: number, maxEntrySize: number): Buffer {
+  if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+    return Buffer.alloc(0);
+  }
+
+  // Local headers carry their own name and extra field lengths
+  const nameLength = buffer.readUInt16LE(localOffset + 26);
+  const extraLength = buffer.readUInt16LE(localOffset + 28);
+  const dataStart = localOffset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+  if (method === METHOD_STORED) {
+    return Buffer.from(data);
+  }
+
+  if (method === METHOD_DEFLATE) {
+    try {
+      return inflateRawSync(data, Number.isFinite(maxEntrySize) ? { maxOutputLength: maxEntrySize } : {});
+    } catch {
+      // Corrupt data, or an entry lying about its size to get past the limit
+      return Buffer.alloc(0);
+    }
+  }
+
+  return Buffer.alloc(0);
+}
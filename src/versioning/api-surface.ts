@@ -0,0 +1,539 @@
+import { execFileSync } from 'child_process';
+import { createRequire } from 'module';
+import path from 'path';
+import type TypeScript from 'typescript';
+import logger from '../utils/logger.js';
+
+type TS = typeof TypeScript;
+
+export type ApiSymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'namespace';
+
+export interface ApiParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface ApiSignature {
+  text: string;
+  parameters: ApiParameter[];
+  returnType: string;
+}
+
+export interface ApiMember {
+  type: string;
+  optional: boolean;
+  signatures?: ApiSignature[];
+}
+
+export interface ApiSymbol {
+  kind: ApiSymbolKind;
+  /** Call signatures of functions and callable variables, construct signatures of classes */
+  signatures?: ApiSignature[];
+  /** Public properties and methods; static class members are prefixed with `static ` */
+  members?: Record<string, ApiMember>;
+  /** Enum member values */
+  values?: Record<string, string>;
+  /** Type text of type aliases and variables */
+  type?: string;
+}
+
+export interface ApiSnapshot {
+  ref: string;
+  entryPoints: string[];
+  symbols: Record<string, ApiSymbol>;
+  /** Subpaths of the package.json `exports` field */
+  exports: string[];
+}
+
+export interface ApiChange {
+  symbol: string;
+  message: string;
+}
+
+export interface ApiDiff {
+  breaking: ApiChange[];
+  features: ApiChange[];
+}
+
+export interface ApiSurfaceOptions {
+  cwd?: string;
+  /** Source files whose exports make up the public API; worked out from package.json when empty */
+  entryPoints?: string[];
+  timeout?: number;
+}
+
+const ENTRY_CANDIDATES = ['src/index.ts', 'src/index.tsx', 'index.ts', 'src/index.d.ts', 'index.d.ts'];
+
+/**
+ * Reads the exported API of the package at a git ref with the TypeScript compiler, using the
+ * project's own `typescript` install
+ */
+export class ApiSurfaceExtractor {
+  private cwd: string;
+  private options: ApiSurfaceOptions;
+  private timeout: number;
+  private libFiles = new Map<string, TypeScript.SourceFile>();
+
+  constructor(options: ApiSurfaceOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.options = options;
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  /**
+   * The TypeScript compiler from the project, or null when it has none
+   */
+  loadTypeScript(): TS | null {
+    try {
+      return createRequire(path.join(this.cwd, 'package.json'))('typescript') as TS;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Snapshot the API at `ref`. Symbols are left empty when TypeScript is not installed, so only
+   * package.json `exports` are compared.
+   */
+  async extract(ref: string): Promise<ApiSnapshot> {
+    const tree = new Set(this.git(['ls-tree', '-r', '--name-only', '-z', ref]).split('\0').filter(Boolean));
+    const packageJson = tree.has('package.json') ? JSON.parse(this.show(ref, 'package.json')) : {};
+    const entryPoints = this.findEntryPoints(packageJson, tree);
+    const snapshot: ApiSnapshot = { ref, entryPoints, symbols: {}, exports: exportSubpaths(packageJson.exports) };
+
+    const ts = this.loadTypeScript();
+    if (!ts) {
+      logger.debug('TypeScript is not installed in the project; comparing package.json exports only');
+      return snapshot;
+    }
+    if (entryPoints.length === 0) {
+      logger.debug(`No TypeScript entry point found at ${ref}`);
+      return snapshot;
+    }
+
+    const program = ts.createProgram({
+      rootNames: entryPoints.map(entry => path.join(this.cwd, entry)),
+      options: {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        allowJs: true,
+        skipLibCheck: true,
+        noEmit: true,
+        types: []
+      },
+      host: this.createHost(ts, ref, tree)
+    });
+    const checker = program.getTypeChecker();
+
+    for (const entry of entryPoints) {
+      const source = program.getSourceFile(path.join(this.cwd, entry));
+      const moduleSymbol = source && checker.getSymbolAtLocation(source);
+      if (!moduleSymbol) continue;
+
+      for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+        const name = exported.getName();
+        if (snapshot.symbols[name]) continue;
+        const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+        const described = describeSymbol(ts, checker, symbol, source);
+        if (described) snapshot.symbols[name] = described;
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Compare the API at two refs, e.g. the last release tag and `HEAD`
+   */
+  async diff(from: string, to = 'HEAD'): Promise<ApiDiff> {
+    return diffApiSurfaces(await this.extract(from), await this.extract(to));
+  }
+
+  /**
+   * Configured entry points, else the source behind `types` or `main`, else `src/index.ts`
+   */
+  private findEntryPoints(packageJson: Record<string, any>, tree: Set<string>): string[] {
+    if (this.options.entryPoints?.length) {
+      return this.options.entryPoints.filter(entry => tree.has(entry));
+    }
+
+    for (const field of [packageJson.types, packageJson.typings, packageJson.main]) {
+      if (typeof field !== 'string') continue;
+      const file = path.posix.normalize(field);
+      const candidates = [
+        file,
+        file.replace(/^(dist|lib|build|out)\//, 'src/').replace(/(\.d)?\.[cm]?js$|\.d\.ts$/, '.ts'),
+        file.replace(/(\.d)?\.[cm]?js$|\.d\.ts$/, '.ts')
+      ];
+      const found = candidates.find(candidate => /\.(d\.)?tsx?$/.test(candidate) && tree.has(candidate));
+      if (found) return [found];
+    }
+
+    const fallback = ENTRY_CANDIDATES.find(candidate => tree.has(candidate));
+    return fallback ? [fallback] : [];
+  }
+
+  /**
+   * A compiler host that reads project files from `ref` and everything under node_modules, plus
+   * the default libraries, from disk
+   */
+  private createHost(ts: TS, ref: string, tree: Set<string>): TypeScript.CompilerHost {
+    const host = ts.createCompilerHost({}, true);
+    const toTreePath = (file: string): string | undefined => {
+      const relative = path.relative(this.cwd, file);
+      if (relative.startsWith('..') || path.isAbsolute(relative) || relative.split(path.sep).includes('node_modules')) {
+        return undefined;
+      }
+      return relative.split(path.sep).join('/');
+    };
+    const diskFileExists = host.fileExists.bind(host);
+    const diskReadFile = host.readFile.bind(host);
+    const diskDirectoryExists = host.directoryExists?.bind(host);
+
+    host.getCurrentDirectory = () => this.cwd;
+    host.fileExists = file => {
+      const treePath = toTreePath(file);
+      return treePath === undefined ? diskFileExists(file) : tree.has(treePath);
+    };
+    host.readFile = file => {
+      const treePath = toTreePath(file);
+      if (treePath === undefined) return diskReadFile(file);
+      return tree.has(treePath) ? this.show(ref, treePath) : undefined;
+    };
+    host.directoryExists = directory => {
+      const treePath = toTreePath(directory);
+      if (treePath === undefined) return diskDirectoryExists ? diskDirectoryExists(directory) : true;
+      return treePath === '' || [...tree].some(file => file.startsWith(`${treePath}/`));
+    };
+    host.getSourceFile = (fileName, languageVersion) => {
+      const fromDisk = toTreePath(fileName) === undefined;
+      if (fromDisk && this.libFiles.has(fileName)) return this.libFiles.get(fileName);
+
+      const text = host.readFile(fileName);
+      if (text === undefined) return undefined;
+      const source = ts.createSourceFile(fileName, text, languageVersion);
+      // Libraries and node_modules are the same for every ref, so parse them once
+      if (fromDisk) this.libFiles.set(fileName, source);
+      return source;
+    };
+
+    return host;
+  }
+
+  private show(ref: string, file: string): string {
+    return this.git(['show', `${ref}:./${file}`]);
+  }
+
+  private git(args: string[]): string {
+    return execFileSync('git', args, {
+      cwd: this.cwd,
+      encoding: 'utf-8',
+      timeout: this.timeout,
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+  }
+}
+
+/**
+ * Removed symbols, members, enum values and exports break consumers, and so do narrowed
+ * parameter types, widened return types and newly required parameters or members. Additions
+ * are features.
+ */
+export function diffApiSurfaces(before: ApiSnapshot, after: ApiSnapshot): ApiDiff {
+  const diff: ApiDiff = { breaking: [], features: [] };
+  const breaking = (symbol: string, message: string) => diff.breaking.push({ symbol, message });
+  const feature = (symbol: string, message: string) => diff.features.push({ symbol, message });
+
+  for (const subpath of before.exports) {
+    if (!after.exports.includes(subpath)) breaking(subpath, `Removed package export \`${subpath}\``);
+  }
+  for (const subpath of after.exports) {
+    if (!before.exports.includes(subpath)) feature(subpath, `Added package export \`${subpath}\``);
+  }
+
+  for (const [name, old] of Object.entries(before.symbols)) {
+    const current = after.symbols[name];
+    if (!current) {
+      breaking(name, `Removed ${old.kind} \`${name}\``);
+      continue;
+    }
+    if (current.kind !== old.kind) {
+      breaking(name, `\`${name}\` changed from ${old.kind} to ${current.kind}`);
+      continue;
+    }
+
+    if (old.signatures || current.signatures) {
+      compareSignatures(name, old.signatures || [], current.signatures || [], breaking, feature);
+    }
+    if (old.type !== undefined && current.type !== undefined && !old.signatures?.length) {
+      const change = compareUnion(old.type, current.type);
+      if (change === 'narrowed' || change === 'changed') breaking(name, `Type of \`${name}\` changed from \`${old.type}\` to \`${current.type}\``);
+      if (change === 'widened') feature(name, `Type of \`${name}\` now also allows \`${added(old.type, current.type)}\``);
+    }
+
+    for (const [member, oldMember] of Object.entries(old.members || {})) {
+      const label = `${name}.${member.replace(/^static /, '')}`;
+      const currentMember = current.members?.[member];
+      if (!currentMember) {
+        breaking(label, `Removed member \`${label}\``);
+        continue;
+      }
+      if (oldMember.signatures?.length || currentMember.signatures?.length) {
+        compareSignatures(label, oldMember.signatures || [], currentMember.signatures || [], breaking, feature);
+      } else {
+        const change = compareUnion(oldMember.type, currentMember.type);
+        if (change === 'narrowed' || change === 'changed') breaking(label, `Type of \`${label}\` changed from \`${oldMember.type}\` to \`${currentMember.type}\``);
+        if (change === 'widened') feature(label, `\`${label}\` now also allows \`${added(oldMember.type, currentMember.type)}\``);
+      }
+      if (oldMember.optional && !currentMember.optional) breaking(label, `\`${label}\` is now required`);
+      if (!oldMember.optional && currentMember.optional) feature(label, `\`${label}\` is now optional`);
+    }
+    for (const [member, currentMember] of Object.entries(current.members || {})) {
+      if (old.members?.[member]) continue;
+      const label = `${name}.${member.replace(/^static /, '')}`;
+      // A new required member breaks code that implements or constructs the interface
+      if (current.kind === 'interface' && !currentMember.optional && !currentMember.signatures?.length) {
+        breaking(label, `Added required member \`${label}\``);
+      } else {
+        feature(label, `Added member \`${label}\``);
+      }
+    }
+
+    for (const [member, value] of Object.entries(old.values || {})) {
+      const label = `${name}.${member}`;
+      if (current.values?.[member] === undefined) breaking(label, `Removed enum value \`${label}\``);
+      else if (current.values[member] !== value) breaking(label, `\`${label}\` changed from ${value} to ${current.values[member]}`);
+    }
+    for (const member of Object.keys(current.values || {})) {
+      if (old.values?.[member] === undefined) feature(`${name}.${member}`, `Added enum value \`${name}.${member}\``);
+    }
+  }
+
+  for (const [name, symbol] of Object.entries(after.symbols)) {
+    if (!before.symbols[name]) feature(name, `Added ${symbol.kind} \`${name}\``);
+  }
+
+  return diff;
+}
+
+function describeSymbol(ts: TS, checker: TypeScript.TypeChecker, symbol: TypeScript.Symbol, location: TypeScript.Node): ApiSymbol | undefined {
+  const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+  const node = declaration ?? location;
+  const flags = symbol.flags;
+
+  if (flags & ts.SymbolFlags.Class) {
+    const staticType = checker.getTypeOfSymbolAtLocation(symbol, node);
+    const members = describeMembers(ts, checker, checker.getDeclaredTypeOfSymbol(symbol), node);
+    for (const [name, member] of Object.entries(describeMembers(ts, checker, staticType, node))) {
+      if (name !== 'prototype') members[`static ${name}`] = member;
+    }
+    return { kind: 'class', signatures: staticType.getConstructSignatures().map(signature => describeSignature(ts, checker, signature, node)), members };
+  }
+  if (flags & ts.SymbolFlags.Enum) {
+    const values: Record<string, string> = {};
+    symbol.exports?.forEach((member, name) => {
+      const memberDeclaration = member.valueDeclaration;
+      const value = memberDeclaration && ts.isEnumMember(memberDeclaration) ? checker.getConstantValue(memberDeclaration) : undefined;
+      values[String(name)] = value === undefined ? '?' : JSON.stringify(value);
+    });
+    return { kind: 'enum', values };
+  }
+  if (flags & ts.SymbolFlags.Function) {
+    const type = checker.getTypeOfSymbolAtLocation(symbol, node);
+    return { kind: 'function', signatures: type.getCallSignatures().map(signature => describeSignature(ts, checker, signature, node)) };
+  }
+  if (flags & ts.SymbolFlags.Interface) {
+    return { kind: 'interface', members: describeMembers(ts, checker, checker.getDeclaredTypeOfSymbol(symbol), node) };
+  }
+  if (flags & ts.SymbolFlags.TypeAlias) {
+    return { kind: 'type', type: typeText(ts, checker, checker.getDeclaredTypeOfSymbol(symbol), node) };
+  }
+  if (flags & ts.SymbolFlags.Variable) {
+    const type = checker.getTypeOfSymbolAtLocation(symbol, node);
+    const signatures = type.getCallSignatures();
+    return {
+      kind: 'variable',
+      type: typeText(ts, checker, type, node),
+      ...(signatures.length ? { signatures: signatures.map(signature => describeSignature(ts, checker, signature, node)) } : {})
+    };
+  }
+  if (flags & ts.SymbolFlags.Module) {
+    const members: Record<string, ApiMember> = {};
+    symbol.exports?.forEach((_member, name) => {
+      members[String(name)] = { type: 'export', optional: false };
+    });
+    return { kind: 'namespace', members };
+  }
+  return undefined;
+}
+
+function describeMembers(
+  ts: TS,
+  checker: TypeScript.TypeChecker,
+  type: TypeScript.Type,
+  location: TypeScript.Node,
+  prefix = '',
+  depth = 0
+): Record<string, ApiMember> {
+  const members: Record<string, ApiMember> = {};
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0];
+    if (declaration && ts.getCombinedModifierFlags(declaration) & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) continue;
+    if (property.getName().startsWith('#') || property.getName().startsWith('__')) continue;
+
+    const name = `${prefix}${property.getName()}`;
+    const memberType = checker.getTypeOfSymbolAtLocation(property, declaration ?? location);
+    const optional = Boolean(property.flags & ts.SymbolFlags.Optional);
+    const signatures = property.flags & ts.SymbolFlags.Method ? memberType.getCallSignatures() : [];
+
+    // Inline object types are compared property by property, so adding an optional one is not a change of type
+    if (depth < 3 && isObjectLiteral(ts, memberType)) {
+      members[name] = { type: '{}', optional };
+      Object.assign(members, describeMembers(ts, checker, memberType, declaration ?? location, `${name}.`, depth + 1));
+      continue;
+    }
+
+    members[name] = {
+      type: typeText(ts, checker, memberType, declaration ?? location),
+      optional,
+      ...(signatures.length ? { signatures: signatures.map(signature => describeSignature(ts, checker, signature, declaration ?? location)) } : {})
+    };
+  }
+  return members;
+}
+
+function isObjectLiteral(ts: TS, type: TypeScript.Type): boolean {
+  return Boolean(type.flags & ts.TypeFlags.Object) &&
+    Boolean((type as TypeScript.ObjectType).objectFlags & ts.ObjectFlags.Anonymous) &&
+    !type.aliasSymbol &&
+    type.getCallSignatures().length === 0 &&
+    type.getConstructSignatures().length === 0;
+}
+
+function describeSignature(ts: TS, checker: TypeScript.TypeChecker, signature: TypeScript.Signature, location: TypeScript.Node): ApiSignature {
+  return {
+    text: checker.signatureToString(signature, undefined, ts.TypeFormatFlags.NoTruncation),
+    parameters: signature.getParameters().map(parameter => {
+      const declaration = parameter.valueDeclaration;
+      const isParameter = declaration !== undefined && ts.isParameter(declaration);
+      return {
+        name: parameter.getName(),
+        type: typeText(ts, checker, checker.getTypeOfSymbolAtLocation(parameter, declaration ?? location), declaration ?? location),
+        optional: isParameter && (checker.isOptionalParameter(declaration) || declaration.initializer !== undefined),
+        rest: isParameter && declaration.dotDotDotToken !== undefined
+      };
+    }),
+    returnType: typeText(ts, checker, checker.getReturnTypeOfSignature(signature), location)
+  };
+}
+
+function typeText(ts: TS, checker: TypeScript.TypeChecker, type: TypeScript.Type, location: TypeScript.Node): string {
+  return checker.typeToString(type, location, ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.InTypeAlias);
+}
+
+/**
+ * Every old signature must still be callable the same way: same or wider parameter types, no
+ * new required parameters, same or narrower return type
+ */
+function compareSignatures(
+  name: string,
+  before: ApiSignature[],
+  after: ApiSignature[],
+  breaking: (symbol: string, message: string) => void,
+  feature: (symbol: string, message: string) => void
+): void {
+  for (const old of before) {
+    if (after.some(current => current.text === old.text)) continue;
+    const compatible = after.find(current => isCompatible(old, current));
+    if (compatible) {
+      feature(name, `\`${name}\` signature extended: \`${old.text}\` → \`${compatible.text}\``);
+    } else {
+      breaking(name, `\`${name}\` signature changed: \`${old.text}\`${after.length ? ` → \`${after.map(signature => signature.text).join('`, `')}\`` : ' was removed'}`);
+    }
+  }
+  // A changed signature is already reported above; only count genuinely new overloads
+  if (after.length <= before.length) return;
+  for (const current of after) {
+    if (!before.some(old => old.text === current.text || isCompatible(old, current))) {
+      feature(name, `Added overload \`${name}${current.text}\``);
+    }
+  }
+}
+
+function isCompatible(old: ApiSignature, current: ApiSignature): boolean {
+  for (let index = 0; index < current.parameters.length; index++) {
+    const parameter = current.parameters[index];
+    const previous = old.parameters[index];
+    if (!previous) {
+      if (!parameter.optional && !parameter.rest) return false;
+      continue;
+    }
+    if (previous.optional && !parameter.optional && !parameter.rest) return false;
+    const change = compareUnion(previous.type, parameter.type);
+    if (change === 'narrowed' || change === 'changed') return false;
+  }
+  if (old.parameters.length > current.parameters.length && !current.parameters.some(parameter => parameter.rest)) {
+    return false;
+  }
+  const returned = compareUnion(old.returnType, current.returnType);
+  return returned === 'same' || returned === 'narrowed';
+}
+
+/**
+ * Compare type texts by their top-level union members
+ */
+function compareUnion(before: string, after: string): 'same' | 'widened' | 'narrowed' | 'changed' {
+  if (before === after) return 'same';
+  const old = splitUnion(before);
+  const current = splitUnion(after);
+  const removed = old.filter(member => !current.includes(member));
+  const addedMembers = current.filter(member => !old.includes(member));
+  if (removed.length === 0 && addedMembers.length === 0) return 'same';
+  if (removed.length === 0) return 'widened';
+  if (addedMembers.length === 0) return 'narrowed';
+  return 'changed';
+}
+
+function added(before: string, after: string): string {
+  const old = splitUnion(before);
+  return splitUnion(after).filter(member => !old.includes(member)).join(' | ');
+}
+
+function splitUnion(type: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let quote = '';
+  for (let index = 0; index < type.length; index++) {
+    const char = type[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = '';
+    } else if (char === '"' || char === '\'' || char === '`') {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char) && !(char === '>' && type[index - 1] === '=')) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      members.push(type.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  members.push(type.slice(start).trim());
+  return members.filter(Boolean);
+}
+
+/**
+ * `"."` and the other subpaths of a package.json `exports` field
+ */
+function exportSubpaths(exports: unknown): string[] {
+  if (exports === undefined || exports === null) return [];
+  if (typeof exports === 'string' || Array.isArray(exports)) return ['.'];
+  const keys = Object.keys(exports as Record<string, unknown>);
+  return keys.some(key => key.startsWith('.')) ? keys.filter(key => key.startsWith('.')).sort() : ['.'];
+}
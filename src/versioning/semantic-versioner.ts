@@ -1,15 +1,107 @@
 import { execSync } from 'child_process';
 import { readFileSync, existsSync } from 'fs';
-import { VersionAnalysis, CommitInfo } from '../types/index.js';
+import path from 'path';
+import semver from 'semver';
+import { VersionAnalysis, CommitInfo, ChangelogEntry } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { quoteArg } from '../utils/shell.js';
+import { ApiSurfaceExtractor, ApiDiff } from './api-surface.js';
+
+type BumpType = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Prerelease channels and the dist-tags they publish to. A channel missing here publishes
+ * to a dist-tag named after it, so `1.0.0-canary.3` goes to `canary`.
+ */
+export const DEFAULT_CHANNELS: Record<string, string> = {
+  beta: 'next',
+  rc: 'next'
+};
+
+export const DEFAULT_TAG_FORMAT = 'v{version}';
+
+export interface SemanticVersionerOptions {
+  cwd?: string;
+  /** Release tag names, with `{version}` and optionally `{name}`, e.g. `{name}@{version}` */
+  tagFormat?: string;
+}
+
+/**
+ * Where an analysis starts: commits after `ref` up to HEAD, or the whole history without one
+ */
+export interface CommitRange {
+  ref?: string;
+  /** The release tag, ref or date the range was worked out from */
+  label: string;
+}
 
 interface VersionOptions {
+  /** A date or git ref; defaults to the last release tag */
   since?: string;
   includeFiles?: string[];
   excludeFiles?: string[];
+  /** Start or continue a prerelease channel, e.g. `beta` for `1.3.0-beta.0` */
+  preid?: string;
+  /** Release the current prerelease as its stable version, e.g. `1.3.0-rc.2` to `1.3.0` */
+  graduate?: boolean;
+  /** Channel to dist-tag mapping, merged over `DEFAULT_CHANNELS` */
+  channels?: Record<string, string>;
+  /** Source files whose exports are the public API, for the API diff against the last release */
+  entryPoints?: string[];
+}
+
+/** Symbol-level API changes listed in the reasons, per kind */
+const LISTED_API_CHANGES = 10;
+
+export interface NewVersionOptions {
+  preid?: string;
+  graduate?: boolean;
 }
 
 export class SemanticVersioner {
+  private cwd: string;
+  private tagFormat: string;
+
+  constructor(options: SemanticVersionerOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.tagFormat = options.tagFormat || DEFAULT_TAG_FORMAT;
+  }
+
+  /**
+   * Build a CommitInfo from raw git log fields, parsing the conventional commit header
+   */
+  static parseCommit(hash: string, message: string, author: string, date: string): CommitInfo {
+    const conventionalMatch = message.match(/^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/);
+
+    return {
+      hash,
+      message,
+      author,
+      date,
+      type: conventionalMatch?.[1] || 'chore',
+      scope: conventionalMatch?.[2] || '',
+      breaking: conventionalMatch?.[3] === '!' || message.includes('BREAKING CHANGE')
+    };
+  }
+
+  /**
+   * The prerelease channel of a version (`beta` for `2.0.0-beta.1`), or undefined for a stable release
+   */
+  static channel(version: string): string | undefined {
+    const prerelease = semver.prerelease(version);
+    if (!prerelease) return undefined;
+    return typeof prerelease[0] === 'string' ? prerelease[0] : '';
+  }
+
+  /**
+   * The dist-tag a prerelease publishes to; undefined for stable versions, which use the configured tag
+   */
+  static distTag(version: string, channels: Record<string, string> = {}): string | undefined {
+    const channel = SemanticVersioner.channel(version);
+    if (channel === undefined) return undefined;
+    return { ...DEFAULT_CHANNELS, ...channels }[channel] || channel || 'next';
+  }
+
   /**
    * Analyze version bump based on commit history
    */
@@ -17,17 +109,30 @@ export class SemanticVersioner {
     logger.info(`🔍 Analyzing version bump for ${currentVersion}`);
 
     try {
+      const range = this.resolveRange(options.since);
+      logger.debug(`Analyzing commits since ${range.label}`);
+
       // Get commit history
-      const commits = await this.getCommitHistory();
-      
-      // Get file changes
-      const fileChanges = await this.getFileChanges();
-      
+      const commits = await this.getCommitHistory(range);
+
+      // Compare the public API with the start of the range
+      const apiChanges = await this.detectAPIChanges(range, options.entryPoints);
+
       // Analyze commits for version bump type
-      const analysis = this.analyzeCommits(commits, fileChanges);
-      
+      const analysis = this.analyzeCommits(commits, apiChanges);
+
+      const recommendedBump = SemanticVersioner.effectiveBump(currentVersion, analysis.recommendedBump);
+      if (recommendedBump !== analysis.recommendedBump) {
+        analysis.reasons.push(`Breaking changes bump the minor version before 1.0.0`);
+        analysis.recommendedBump = recommendedBump;
+      }
+
       // Generate new version
-      const newVersion = this.calculateNewVersion(currentVersion, analysis.recommendedBump);
+      const newVersion = this.calculateNewVersion(currentVersion, analysis.recommendedBump, {
+        preid: options.preid,
+        graduate: options.graduate
+      });
+      const distTag = SemanticVersioner.distTag(newVersion, options.channels);
       
       // Calculate confidence
       const confidence = this.calculateConfidence(analysis);
@@ -42,7 +147,8 @@ export class SemanticVersioner {
         confidence,
         breakingChanges: analysis.breakingChanges,
         features: analysis.features,
-        fixes: analysis.fixes
+        fixes: analysis.fixes,
+        ...(distTag ? { channel: SemanticVersioner.channel(newVersion), distTag } : {})
       };
     } catch (error) {
       logger.error('❌ Version analysis failed:', error);
@@ -50,27 +156,43 @@ export class SemanticVersioner {
     }
   }
 
+  /**
+   * The commits to analyze: after `since` when given as a ref or date, else after the last
+   * release tag, else the whole history
+   */
+  resolveRange(since?: string): CommitRange {
+    if (since) {
+      if (this.git(`rev-parse --verify --quiet ${quoteArg(`${since}^{commit}`)}`) !== undefined) {
+        return { ref: since, label: since };
+      }
+      if (Number.isNaN(Date.parse(since))) {
+        throw new Error(`"${since}" is neither a git ref nor a date`);
+      }
+      // The last commit before the date marks where the range starts
+      const before = this.git(`rev-list -1 --before=${quoteArg(since)} HEAD`)?.trim();
+      return { ref: before || undefined, label: since };
+    }
+
+    const lastTag = this.getLastReleaseTag();
+    return lastTag ? { ref: lastTag, label: lastTag } : { label: 'the first commit' };
+  }
+
   /**
    * Get commit history from git
    */
-  private async getCommitHistory(): Promise<CommitInfo[]> {
+  private async getCommitHistory(range: CommitRange): Promise<CommitInfo[]> {
     try {
-      const stdout = execSync('git log --pretty=format:"%H|%s|%an|%ad|%D" --date=short', { encoding: 'utf-8' });
-      const lines = stdout.trim().split('\n');
-      
+      const revisions = range.ref ? ` ${quoteArg(`${range.ref}..HEAD`)}` : '';
+      const stdout = execSync(`git log --pretty=format:%H%x1f%s%x1f%an%x1f%ad --date=short${revisions}`, {
+        cwd: this.cwd,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+      const lines = stdout.trim().split('\n').filter(Boolean);
+
       return lines.map((line: string) => {
-        const [hash, message, author, date, refs] = line.split('|');
-        const conventionalMatch = message?.match(/^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/);
-        
-        return {
-          hash: hash || '',
-          message: message || '',
-          author: author || '',
-          date: date || '',
-          type: conventionalMatch?.[1] || 'chore',
-          scope: conventionalMatch?.[2] || '',
-          breaking: conventionalMatch?.[3] === '!' || message?.includes('BREAKING CHANGE') || false
-        };
+        const [hash, message, author, date] = line.split('\x1f');
+        return SemanticVersioner.parseCommit(hash || '', message || '', author || '', date || '');
       });
     } catch (error) {
       logger.warn('Could not get git commit history:', error);
@@ -78,28 +200,71 @@ export class SemanticVersioner {
     }
   }
 
+  /**
+   * The newest tag reachable from HEAD that matches the tag format, e.g. `v1.2.3` or `pkg@1.2.3`
+   */
+  getLastReleaseTag(): string | undefined {
+    const pattern = this.tagPattern();
+    const stdout = this.git('tag --merged HEAD');
+    if (!stdout) return undefined;
+
+    return stdout.split('\n')
+      .map(tag => tag.trim())
+      .map(tag => ({ tag, version: semver.valid(tag.match(pattern)?.[1] || '') }))
+      .filter((entry): entry is { tag: string; version: string } => Boolean(entry.version))
+      .sort((a, b) => semver.rcompare(a.version, b.version))[0]?.tag;
+  }
+
+  private tagPattern(): RegExp {
+    const name = this.tagFormat.includes('{name}') ? this.readPackageName() : '';
+    const source = this.tagFormat
+      .split(/(\{version\}|\{name\})/)
+      .map(part => {
+        if (part === '{version}') return '(\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?)';
+        return (part === '{name}' ? name : part).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+
+  private readPackageName(): string {
+    const packagePath = path.join(this.cwd, 'package.json');
+    return existsSync(packagePath) ? JSON.parse(readFileSync(packagePath, 'utf-8')).name || '' : '';
+  }
+
   /**
    * Get list of changed files
    */
-  private async getFileChanges(): Promise<string[]> {
-    try {
-      const stdout = execSync('git diff --name-only HEAD~10', { encoding: 'utf-8' });
-      return stdout.trim().split('\n').filter(Boolean);
-    } catch (error) {
-      logger.warn('Could not get file changes:', error);
+  private async getFileChanges(since: string): Promise<string[]> {
+    const stdout = this.git(`diff --name-only ${quoteArg(since)} HEAD`);
+    if (stdout === undefined) {
+      logger.warn(`Could not get file changes since ${since}`);
       return [];
     }
+    return stdout.trim().split('\n').filter(Boolean);
+  }
+
+  /**
+   * Run git in the project, or return undefined when it fails
+   */
+  private git(args: string): string | undefined {
+    try {
+      return execSync(`git ${args}`, { cwd: this.cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+    } catch {
+      return undefined;
+    }
   }
 
   /**
    * Analyze commits to determine version bump
    */
-  private analyzeCommits(commits: CommitInfo[], fileChanges: string[]): {
+  private analyzeCommits(commits: CommitInfo[], apiChanges: ApiDiff): {
     recommendedBump: 'major' | 'minor' | 'patch' | 'none';
     reasons: string[];
     breakingChanges: string[];
     features: string[];
     fixes: string[];
+    apiChanges: ApiDiff;
   } {
     let recommendedBump: 'major' | 'minor' | 'patch' | 'none' = 'none';
     const reasons: string[] = [];
@@ -128,18 +293,15 @@ export class SemanticVersioner {
     }
 
     // Check for API changes
-    const tsFiles = fileChanges.filter(file => file.endsWith('.ts') || file.endsWith('.js'));
-    if (tsFiles.length > 0) {
-      const apiChanges = this.detectAPIChanges(tsFiles);
-      if (apiChanges.breaking) {
-        recommendedBump = 'major';
-        reasons.push('API breaking changes detected');
-      } else if (apiChanges.features) {
-        if (recommendedBump !== 'major') {
-          recommendedBump = 'minor';
-        }
-        reasons.push('API features detected');
+    if (apiChanges.breaking.length > 0) {
+      recommendedBump = 'major';
+      reasons.push(...listApiChanges('API breaking change', apiChanges.breaking));
+    }
+    if (apiChanges.features.length > 0) {
+      if (recommendedBump !== 'major') {
+        recommendedBump = 'minor';
       }
+      reasons.push(...listApiChanges('API addition', apiChanges.features));
     }
 
     return {
@@ -147,30 +309,63 @@ export class SemanticVersioner {
       reasons,
       breakingChanges,
       features,
-      fixes
+      fixes,
+      apiChanges
     };
   }
 
   /**
-   * Calculate new version based on current version and bump type
+   * Calculate the next version by semver rules. With `preid` the result is a prerelease on that
+   * channel: a fresh one when the bump goes past the current prerelease, otherwise the next
+   * build of it. `graduate` turns a prerelease into its stable version.
    */
-  private calculateNewVersion(currentVersion: string, bumpType: 'major' | 'minor' | 'patch' | 'none'): string {
-    if (bumpType === 'none') {
-      return currentVersion;
+  calculateNewVersion(currentVersion: string, bumpType: BumpType, options: NewVersionOptions = {}): string {
+    const current = semver.parse(currentVersion);
+    if (!current) {
+      throw new Error(`"${currentVersion}" is not a valid semver version`);
+    }
+
+    if (options.graduate) {
+      if (current.prerelease.length === 0) {
+        throw new Error(`${currentVersion} is not a prerelease, so there is nothing to graduate`);
+      }
+      return `${current.major}.${current.minor}.${current.patch}`;
+    }
+
+    const bump = SemanticVersioner.effectiveBump(currentVersion, bumpType);
+
+    if (options.preid) {
+      if (current.prerelease.length > 0 && SemanticVersioner.rank(bump) <= SemanticVersioner.rank(SemanticVersioner.prereleaseBump(current))) {
+        return semver.inc(current.version, 'prerelease', options.preid)!;
+      }
+      return semver.inc(current.version, bump === 'none' ? 'prepatch' : `pre${bump}`, options.preid)!;
     }
 
-    const [major, minor, patch] = currentVersion.split('.').map(Number);
-
-    switch (bumpType) {
-      case 'major':
-        return `${(major || 0) + 1}.0.0`;
-      case 'minor':
-        return `${major || 0}.${(minor || 0) + 1}.0`;
-      case 'patch':
-        return `${major || 0}.${minor || 0}.${(patch || 0) + 1}`;
-      default:
-        return currentVersion;
+    if (bump === 'none') {
+      return currentVersion;
     }
+    return semver.inc(current.version, bump)!;
+  }
+
+  /**
+   * Before 1.0.0 anything may change, so a breaking change only bumps the minor version
+   */
+  private static effectiveBump(version: string, bump: BumpType): BumpType {
+    return bump === 'major' && semver.valid(version) && semver.major(version) === 0 ? 'minor' : bump;
+  }
+
+  /**
+   * The bump a prerelease already carries over the previous stable version: `2.0.0-rc.1` is a
+   * major, `1.3.0-beta.0` a minor and `1.2.4-beta.0` a patch
+   */
+  private static prereleaseBump(version: semver.SemVer): BumpType {
+    if (version.patch > 0) return 'patch';
+    if (version.minor > 0 || version.major === 0) return 'minor';
+    return 'major';
+  }
+
+  private static rank(bump: BumpType): number {
+    return ['none', 'patch', 'minor', 'major'].indexOf(bump);
   }
 
   /**
@@ -184,6 +379,10 @@ export class SemanticVersioner {
     if (analysis.features.length > 0) confidence += 15;
     if (analysis.fixes.length > 0) confidence += 10;
 
+    // Changes read from the code itself back up, or stand in for, the commit messages
+    if (analysis.apiChanges?.breaking.length > 0) confidence += 20;
+    else if (analysis.apiChanges?.features.length > 0) confidence += 10;
+
     // Decrease confidence if no clear pattern
     if (analysis.reasons.length === 0) confidence -= 30;
 
@@ -191,32 +390,45 @@ export class SemanticVersioner {
   }
 
   /**
-   * Detect API changes in TypeScript/JavaScript files
+   * Diff the exported API between the start of the range, usually the last release tag, and
+   * HEAD. Without a starting point, or when no source or package.json changed since, there is
+   * nothing to compare.
    */
-  private detectAPIChanges(files: string[]): { breaking: boolean; features: boolean } {
-    // Simplified API change detection
-    // In a real implementation, this would parse the files and analyze exports
-    return {
-      breaking: false,
-      features: false
-    };
+  private async detectAPIChanges(range: CommitRange, entryPoints?: string[]): Promise<ApiDiff> {
+    const none: ApiDiff = { breaking: [], features: [] };
+    if (!range.ref) return none;
+
+    const changed = await this.getFileChanges(range.ref);
+    if (!changed.some(file => /\.([cm]?[jt]sx?)$/.test(file) || file.endsWith('package.json'))) return none;
+
+    try {
+      const diff = await new ApiSurfaceExtractor({ cwd: this.cwd, entryPoints }).diff(range.ref, 'HEAD');
+      logger.debug(`API diff against ${range.label}: ${diff.breaking.length} breaking, ${diff.features.length} added`);
+      return diff;
+    } catch (error) {
+      logger.warn(`Could not compare the API with ${range.label}:`, error);
+      return none;
+    }
   }
 
   /**
-   * Compare two semantic versions
+   * Compare two versions by semver precedence, so `1.0.0-rc.1` sorts before `1.0.0`
    */
-  private compareVersions(version1: string, version2: string): number {
-    const [major1, minor1, patch1] = version1.split('.').map(Number);
-    const [major2, minor2, patch2] = version2.split('.').map(Number);
-
-    if (major1 !== major2) return (major1 || 0) - (major2 || 0);
-    if (minor1 !== minor2) return (minor1 || 0) - (minor2 || 0);
-    return (patch1 || 0) - (patch2 || 0);
+  compareVersions(version1: string, version2: string): number {
+    return semver.compare(version1, version2);
   }
 
   // Generate changelog from commits
   async generateChangelog(version: string, since?: string): Promise<string> {
-    const commits = await this.getCommitHistory();
+    return this.formatChangelog(await this.buildChangelogEntry(version, since));
+  }
+
+  /**
+   * Group the commits since `since` (a date or ref, by default the last release tag) into
+   * changelog sections
+   */
+  async buildChangelogEntry(version: string, since?: string): Promise<ChangelogEntry> {
+    const commits = await this.getCommitHistory(this.resolveRange(since));
     
     const changelog = {
       breaking: [] as string[],
@@ -249,7 +461,18 @@ export class SemanticVersioner {
       }
     }
 
-    let changelogText = `## ${version} (${new Date().toISOString().split('T')[0]})\n\n`;
+    return {
+      version,
+      date: new Date().toISOString().split('T')[0],
+      changes: changelog,
+      commits
+    };
+  }
+
+  formatChangelog(entry: ChangelogEntry): string {
+    const { version, date, changes: changelog } = entry;
+
+    let changelogText = `## ${version} (${date})\n\n`;
     
     if (changelog.breaking.length > 0) {
       changelogText += '### ⚠️ Breaking Changes\n';
@@ -296,7 +519,14 @@ export class SemanticVersioner {
 
   // Validate version format
   validateVersion(version: string): boolean {
-    const semverPattern = /^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?(\+[a-zA-Z0-9.-]+)?$/;
-    return semverPattern.test(version);
+    return semver.valid(version) !== null;
   }
-} 
\ No newline at end of file
+} 
+
+function listApiChanges(label: string, changes: ApiDiff['breaking']): string[] {
+  const listed = changes.slice(0, LISTED_API_CHANGES).map(change => `${label}: ${change.message}`);
+  if (changes.length > LISTED_API_CHANGES) {
+    listed.push(`${label}: ${changes.length - LISTED_API_CHANGES} more`);
+  }
+  return listed;
+}
@@ -0,0 +1,201 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import semver from 'semver';
+import { setJsonString } from '../utils/json-edit.js';
+import logger from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_COMMIT_MESSAGE = 'chore(release): {version}';
+export const DEFAULT_TAG_NAME = 'v{version}';
+export const DEFAULT_TAG_MESSAGE = 'v{version}';
+
+/**
+ * Matches `VERSION = '1.2.3'` style constants; the quoted value is what gets replaced
+ */
+export const DEFAULT_VERSION_PATTERN = `\\bVERSION\\s*[=:]\\s*(['"\`])[^'"\`]*\\1`;
+
+const LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json'];
+
+export interface VersionWriterOptions {
+  cwd?: string;
+  /** Templates may use `{version}`, `{previousVersion}` and `{name}` */
+  commitMessage?: string;
+  tagName?: string;
+  tagMessage?: string;
+  /** Source file with a version constant to keep in step, relative to `cwd` */
+  versionFile?: string;
+  versionPattern?: string;
+  timeout?: number;
+}
+
+export interface VersionWriteOptions {
+  commit?: boolean;
+  /** Create an annotated tag; implies `commit` */
+  tag?: boolean;
+  /** Work out what would change without writing anything */
+  dryRun?: boolean;
+}
+
+export interface VersionWriteResult {
+  name: string;
+  previousVersion: string;
+  version: string;
+  files: string[];
+  commit?: string;
+  tag?: string;
+  dryRun: boolean;
+}
+
+export class VersionWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersionWriteError';
+  }
+}
+
+/**
+ * Writes a new version the way `npm version` does: package.json and the lockfile, then a
+ * commit and an annotated tag
+ */
+export class VersionWriter {
+  private cwd: string;
+  private options: VersionWriterOptions;
+  private timeout: number;
+
+  constructor(options: VersionWriterOptions = {}) {
+    this.cwd = path.resolve(options.cwd || process.cwd());
+    this.options = options;
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  async apply(version: string, options: VersionWriteOptions = {}): Promise<VersionWriteResult> {
+    if (!semver.valid(version)) {
+      throw new VersionWriteError(`"${version}" is not a valid semver version`);
+    }
+
+    const packagePath = path.join(this.cwd, 'package.json');
+    const packageText = readFileSync(packagePath, 'utf-8');
+    const { name, version: previousVersion } = JSON.parse(packageText);
+    if (previousVersion === version) {
+      throw new VersionWriteError(`package.json is already at ${version}`);
+    }
+
+    const commit = Boolean(options.commit || options.tag);
+    const values = { version, previousVersion, name };
+    const tagName = options.tag ? renderVersionTemplate(this.options.tagName || DEFAULT_TAG_NAME, values) : undefined;
+
+    if (commit) {
+      await this.assertCleanTree();
+    }
+    if (tagName && await this.tagExists(tagName)) {
+      throw new VersionWriteError(`Tag ${tagName} already exists; pick another version or delete the tag`);
+    }
+
+    const edits = new Map<string, string>();
+    edits.set(packagePath, this.requireEdit(setJsonString(packageText, ['version'], version), 'package.json'));
+
+    for (const lockfile of LOCKFILES) {
+      const lockPath = path.join(this.cwd, lockfile);
+      if (!existsSync(lockPath)) continue;
+
+      let text = readFileSync(lockPath, 'utf-8');
+      text = setJsonString(text, ['version'], version) ?? text;
+      // lockfileVersion 2 and 3 repeat the root package under `packages[""]`
+      text = setJsonString(text, ['packages', '', 'version'], version) ?? text;
+      edits.set(lockPath, text);
+    }
+
+    if (this.options.versionFile) {
+      const filePath = path.resolve(this.cwd, this.options.versionFile);
+      edits.set(filePath, this.replaceVersionConstant(readFileSync(filePath, 'utf-8'), version));
+    }
+
+    const files = [...edits.keys()].map(file => path.relative(this.cwd, file));
+    const result: VersionWriteResult = { name, previousVersion, version, files, dryRun: Boolean(options.dryRun) };
+
+    if (options.dryRun) {
+      if (commit) result.commit = renderVersionTemplate(this.options.commitMessage || DEFAULT_COMMIT_MESSAGE, values);
+      result.tag = tagName;
+      return result;
+    }
+
+    edits.forEach((text, file) => writeFileSync(file, text));
+    logger.debug(`Wrote ${version} to ${files.join(', ')}`);
+
+    if (commit) {
+      await this.git(['add', '--', ...files]);
+      await this.git(['commit', '-m', renderVersionTemplate(this.options.commitMessage || DEFAULT_COMMIT_MESSAGE, values)]);
+      result.commit = (await this.git(['rev-parse', 'HEAD'])).trim();
+    }
+    if (tagName) {
+      await this.git(['tag', '-a', tagName, '-m', renderVersionTemplate(this.options.tagMessage || DEFAULT_TAG_MESSAGE, values)]);
+      result.tag = tagName;
+    }
+
+    return result;
+  }
+
+  private replaceVersionConstant(text: string, version: string): string {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(this.options.versionPattern || DEFAULT_VERSION_PATTERN);
+    } catch (error) {
+      throw new VersionWriteError(`Invalid versionPattern: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const match = text.match(pattern);
+    if (!match) {
+      throw new VersionWriteError(`No version constant matching /${pattern.source}/ in ${this.options.versionFile}`);
+    }
+
+    const updated = match[0].replace(/(['"`])[^'"`]*\1$/, `$1${version}$1`);
+    return text.slice(0, match.index) + updated + text.slice(match.index! + match[0].length);
+  }
+
+  private requireEdit(text: string | null, file: string): string {
+    if (text === null) {
+      throw new VersionWriteError(`${file} has no "version" string to update`);
+    }
+    return text;
+  }
+
+  private async assertCleanTree(): Promise<void> {
+    let status: string;
+    try {
+      status = await this.git(['status', '--porcelain', '--untracked-files=no']);
+    } catch {
+      throw new VersionWriteError(`${this.cwd} is not a git repository; run without committing or tagging`);
+    }
+
+    const dirty = status.split('\n').filter(Boolean).map(line => line.slice(3));
+    if (dirty.length > 0) {
+      throw new VersionWriteError(
+        `Working tree has uncommitted changes (${dirty.slice(0, 5).join(', ')}${dirty.length > 5 ? ', ...' : ''}); commit or stash them before bumping the version`
+      );
+    }
+  }
+
+  private async tagExists(tag: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `refs/tags/${tag}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: this.cwd, timeout: this.timeout });
+    return stdout;
+  }
+}
+
+/**
+ * Fill `{version}`, `{previousVersion}` and `{name}` in a commit or tag template
+ */
+export function renderVersionTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder);
+}
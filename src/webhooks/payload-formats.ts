@@ -0,0 +1,139 @@
+import { WebhookPayload } from '../types/index.js';
+
+export type WebhookFormat = 'native' | 'cloudevents' | 'cloudevents-binary' | 'template';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['native', 'cloudevents', 'cloudevents-binary', 'template'];
+
+export const CLOUDEVENTS_TYPE_PREFIX = 'com.npmsafe.';
+
+/**
+ * What a template can read: the payload fields, plus the delivery and webhook ids
+ */
+const TEMPLATE_ROOTS = ['event', 'package', 'version', 'timestamp', 'data', 'deliveryId', 'webhookId'];
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const PATH = /^[A-Za-z_$][\w$-]*(\.[\w$-]+)*$/;
+
+export interface FormattedPayload {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface FormatContext {
+  deliveryId: string;
+  webhookId: string;
+  format?: WebhookFormat;
+  template?: unknown;
+}
+
+/**
+ * Problems with a payload template, empty when it is usable. Templates are JSON values whose
+ * strings may hold `{{ path }}` placeholders, e.g. `{{ package }}` or `{{ data.tag }}`.
+ */
+export function validateTemplate(template: unknown): string[] {
+  if (template === null || typeof template !== 'object') {
+    return ['Template must be a JSON object or array'];
+  }
+
+  const problems: string[] = [];
+  const visit = (value: unknown, location: string): void => {
+    if (typeof value === 'string') {
+      for (const [placeholder, expression] of value.matchAll(PLACEHOLDER)) {
+        if (!PATH.test(expression)) {
+          problems.push(`${location}: "${placeholder}" is not a field path such as {{ data.tag }}`);
+        } else if (!TEMPLATE_ROOTS.includes(expression.split('.')[0])) {
+          problems.push(`${location}: "${placeholder}" reads an unknown field; use ${TEMPLATE_ROOTS.join(', ')}`);
+        }
+      }
+      const unclosed = value.replace(PLACEHOLDER, '');
+      if (unclosed.includes('{{') || unclosed.includes('}}')) {
+        problems.push(`${location}: unbalanced {{ }} in "${value}"`);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${location}[${index}]`));
+    } else if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => visit(item, location ? `${location}.${key}` : key));
+    }
+  };
+  visit(template, '');
+  return problems;
+}
+
+/**
+ * Fill a template. A string that is a single placeholder takes the field's value as it is, so
+ * numbers and objects keep their type; placeholders inside longer strings are stringified, and
+ * missing fields become null or an empty string.
+ */
+export function renderTemplate(template: unknown, fields: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(/^\{\{\s*([^{}]*?)\s*\}\}$/);
+    if (whole) return lookup(fields, whole[1]) ?? null;
+    return template.replace(PLACEHOLDER, (_placeholder, expression: string) => {
+      const value = lookup(fields, expression);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => renderTemplate(item, fields));
+  }
+  if (template !== null && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, fields)]));
+  }
+  return template;
+}
+
+/**
+ * The request body and headers for a delivery in the webhook's format
+ */
+export function formatPayload(payload: WebhookPayload, context: FormatContext): FormattedPayload {
+  switch (context.format || 'native') {
+    case 'cloudevents':
+      return {
+        body: JSON.stringify({ ...cloudEventAttributes(payload, context), datacontenttype: 'application/json', data: payload.data }),
+        headers: { 'Content-Type': 'application/cloudevents+json; charset=utf-8' }
+      };
+
+    case 'cloudevents-binary': {
+      // Binary mode moves the attributes into ce- headers and sends the data as the body
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      for (const [name, value] of Object.entries(cloudEventAttributes(payload, context))) {
+        headers[`ce-${name}`] = value;
+      }
+      return { body: JSON.stringify(payload.data), headers };
+    }
+
+    case 'template':
+      return {
+        body: JSON.stringify(renderTemplate(context.template, { ...payload, deliveryId: context.deliveryId, webhookId: context.webhookId })),
+        headers: { 'Content-Type': 'application/json' }
+      };
+
+    default:
+      return { body: JSON.stringify(payload), headers: { 'Content-Type': 'application/json' } };
+  }
+}
+
+/**
+ * CloudEvents 1.0 context attributes, with the package and version as `npmpackage` and
+ * `npmversion` extensions
+ */
+function cloudEventAttributes(payload: WebhookPayload, context: FormatContext): Record<string, string> {
+  return {
+    specversion: '1.0',
+    id: context.deliveryId,
+    source: `/npmsafe/${payload.package}`,
+    type: `${CLOUDEVENTS_TYPE_PREFIX}${payload.event}`,
+    subject: `${payload.package}@${payload.version}`,
+    time: payload.timestamp,
+    npmpackage: payload.package,
+    npmversion: payload.version
+  };
+}
+
+function lookup(fields: Record<string, unknown>, expression: string): unknown {
+  return expression.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    fields
+  );
+}
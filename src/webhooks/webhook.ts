@@ -1,22 +1,497 @@
 import axios from 'axios';
-import { WebhookPayload } from '../types/index.js';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import { WebhookEvent, WebhookPayload } from '../types/index.js';
 import logger from '../utils/logger.js';
+import { WebhookFormat, WEBHOOK_FORMATS, formatPayload, validateTemplate } from './payload-formats.js';
 
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'publish', 'unpublish', 'rollback', 'scan', 'version', 'security-alert', 'deployment', 'test', 'monitor-alert'
+];
+
+/** Where the store used to live, in the project root that `npm publish` packs */
+export const LEGACY_WEBHOOK_STORE = '.npmsafe-webhooks.json';
+
+export const SIGNATURE_HEADER = 'X-NPMSafe-Signature';
+export const TIMESTAMP_HEADER = 'X-NPMSafe-Timestamp';
+export const EVENT_HEADER = 'X-NPMSafe-Event';
+export const DELIVERY_HEADER = 'X-NPMSafe-Delivery';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Events to deliver; empty means every event */
+  events: WebhookEvent[];
+  /** HMAC-SHA256 key for the signature header; webhooks from config have none and go unsigned */
+  secret?: string;
+  description?: string;
+  /** Body shape; `native` sends the `WebhookPayload` as it is */
+  format?: WebhookFormat;
+  /** JSON template with `{{ path }}` placeholders, for the `template` format */
+  template?: unknown;
+  /** Registered through `addWebhook` rather than listed under `webhooks` in the config */
+  persistent: boolean;
+  createdAt: string;
+}
+
+export interface NewWebhook {
+  url: string;
+  events?: WebhookEvent[];
+  secret?: string;
+  description?: string;
+  format?: WebhookFormat;
+  template?: unknown;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+  /** When the next retry is due, while the delivery is pending */
+  nextAttemptAt?: string;
+  /** The delivery this one re-sends */
+  redeliveryOf?: string;
+}
+
+export interface WebhookManagerOptions {
+  /** JSON file for registered webhooks and the delivery log; both stay in memory without one */
+  storePath?: string;
+  /** Attempts per delivery, the first included; 5 by default */
+  maxAttempts?: number;
+  /** Wait before the first retry, doubled for each one after; 1000 ms by default */
+  retryDelay?: number;
+  /**
+   * Backoff that `sendEvent` waits through before returning, in ms; retries due later are left
+   * pending for `processRetries`. 10000 ms by default.
+   */
+  inlineRetryWindow?: number;
+  /** Deliveries kept in the log; 500 by default */
+  logLimit?: number;
+  timeout?: number;
+  now?: () => Date;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+interface WebhookStore {
+  webhooks: WebhookSubscription[];
+  deliveries: WebhookDelivery[];
+}
+
+/**
+ * `sha256=<hex>` over `<timestamp>.<body>`, so a captured request cannot be replayed with a new
+ * timestamp
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a delivery on the receiving end: the signature matches and the timestamp is no older
+ * than `toleranceSeconds`
+ */
+export function verifySignature(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  const age = Math.abs(now / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Delivers events to subscribed webhooks. Each delivery is signed and logged. Failed ones are
+ * retried with exponential backoff, first within `sendEvent` and then whenever `processRetries`
+ * runs: on the next event, or on a timer after `start()`.
+ *
+ * The CLI and the dashboard share the store file, so every operation reads it again and writes
+ * back only what it changed.
+ */
 export class WebhookManager {
-  private webhooks: string[];
+  private configWebhooks: WebhookSubscription[];
+  private store: WebhookStore = { webhooks: [], deliveries: [] };
+  private storePath?: string;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private inlineRetryWindow: number;
+  private logLimit: number;
+  private timeout: number;
+  private now: () => Date;
+  private timer?: NodeJS.Timeout;
+
+  constructor(webhooks: string[] = [], options: WebhookManagerOptions = {}) {
+    this.storePath = options.storePath ? path.resolve(options.storePath) : undefined;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.inlineRetryWindow = options.inlineRetryWindow ?? 10000;
+    this.logLimit = options.logLimit ?? 500;
+    this.timeout = options.timeout ?? 10000;
+    this.now = options.now || (() => new Date());
+
+    const createdAt = this.now().toISOString();
+    // Ids follow the URL, so logged deliveries still find their webhook when the config is reordered
+    this.configWebhooks = webhooks.map(url => ({
+      id: `config_${createHash('sha256').update(url).digest('hex').slice(0, 16)}`,
+      url,
+      events: [],
+      persistent: false,
+      createdAt
+    }));
+  }
+
+  /**
+   * Register a webhook. Without a secret one is generated; it is only returned here.
+   */
+  addWebhook(webhook: NewWebhook): WebhookSubscription {
+    let url: URL;
+    try {
+      url = new URL(webhook.url);
+    } catch {
+      throw new WebhookError(`"${webhook.url}" is not a valid URL`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new WebhookError(`Webhook URLs must use http or https, not ${url.protocol}`);
+    }
+
+    const events = webhook.events || [];
+    const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+    if (unknown.length > 0) {
+      throw new WebhookError(`Unknown event(s) ${unknown.join(', ')}; use ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+
+    const format = webhook.format || 'native';
+    if (!WEBHOOK_FORMATS.includes(format)) {
+      throw new WebhookError(`Unknown format "${format}"; use ${WEBHOOK_FORMATS.join(', ')}`);
+    }
+    if (format === 'template') {
+      const problems = webhook.template === undefined ? ['the template format needs a template'] : validateTemplate(webhook.template);
+      if (problems.length > 0) {
+        throw new WebhookError(`Invalid payload template: ${problems.join('; ')}`);
+      }
+    } else if (webhook.template !== undefined) {
+      throw new WebhookError(`A template only applies to the template format, not ${format}`);
+    }
+
+    const subscription: WebhookSubscription = {
+      id: `wh_${randomBytes(8).toString('hex')}`,
+      url: url.toString(),
+      events: [...new Set(events)],
+      secret: webhook.secret || randomBytes(32).toString('hex'),
+      ...(webhook.description ? { description: webhook.description } : {}),
+      format,
+      ...(format === 'template' ? { template: webhook.template } : {}),
+      persistent: true,
+      createdAt: this.now().toISOString()
+    };
+    this.update(store => {
+      store.webhooks.push(subscription);
+    });
+    logger.debug(`Registered webhook ${subscription.id} for ${subscription.url}`);
+    return subscription;
+  }
+
+  getWebhooks(): WebhookSubscription[] {
+    return [...this.configWebhooks, ...this.read().webhooks];
+  }
+
+  getWebhook(id: string): WebhookSubscription | undefined {
+    return this.getWebhooks().find(webhook => webhook.id === id);
+  }
 
-  constructor(webhooks: string[]) {
-    this.webhooks = webhooks;
+  /**
+   * Remove a registered webhook; returns false when there is none with this id. Webhooks from
+   * the config can only be removed there.
+   */
+  removeWebhook(id: string): boolean {
+    if (this.configWebhooks.some(webhook => webhook.id === id)) {
+      throw new WebhookError(`${id} comes from the "webhooks" config; remove it there`);
+    }
+    return this.update(store => {
+      const before = store.webhooks.length;
+      store.webhooks = store.webhooks.filter(webhook => webhook.id !== id);
+      return store.webhooks.length < before;
+    });
   }
 
-  async sendEvent(event: WebhookPayload) {
-    for (const url of this.webhooks) {
-      try {
-        await axios.post(url, event);
-        logger.info(`🔔 Webhook sent to ${url}`);
-      } catch (error: any) {
-        logger.warn(`⚠️ Failed to send webhook to ${url}: ${error.message}`);
+  /**
+   * Deliver an event to every webhook subscribed to it. Failures are retried here while the
+   * backoff fits in `inlineRetryWindow`, since a CLI run exits right after; the rest are logged
+   * and left pending.
+   */
+  async sendEvent(event: WebhookPayload): Promise<WebhookDelivery[]> {
+    await this.processRetries();
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const webhook of this.getWebhooks()) {
+      if (webhook.events.length > 0 && !webhook.events.includes(event.event)) continue;
+      let delivery = await this.deliver(webhook, this.createDelivery(webhook, event));
+
+      let budget = this.inlineRetryWindow;
+      while (delivery.status === 'pending') {
+        const wait = Math.max(0, Date.parse(delivery.nextAttemptAt || '') - this.now().getTime());
+        if (wait > budget) break;
+        budget -= wait;
+        await new Promise(resolve => setTimeout(resolve, wait));
+        const claimed = this.claim(delivery.id);
+        // Another process, such as the dashboard, got to it first
+        if (!claimed) break;
+        delivery = await this.deliver(webhook, claimed);
       }
+      deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  getDeliveries(filter: { webhookId?: string; status?: WebhookDelivery['status']; limit?: number } = {}): WebhookDelivery[] {
+    return this.read().deliveries
+      .filter(delivery => (!filter.webhookId || delivery.webhookId === filter.webhookId) && (!filter.status || delivery.status === filter.status))
+      .slice(-(filter.limit ?? this.logLimit))
+      .reverse();
+  }
+
+  getDelivery(id: string): WebhookDelivery | undefined {
+    return this.read().deliveries.find(delivery => delivery.id === id);
+  }
+
+  /**
+   * Send a logged delivery again, as a new delivery with a fresh signature
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const original = this.getDelivery(deliveryId);
+    if (!original) {
+      throw new WebhookError(`No delivery ${deliveryId} in the log`);
+    }
+    const webhook = this.getWebhook(original.webhookId);
+    if (!webhook) {
+      throw new WebhookError(`Webhook ${original.webhookId} no longer exists`);
+    }
+    return this.deliver(webhook, { ...this.createDelivery(webhook, original.payload), redeliveryOf: original.id });
+  }
+
+  /**
+   * Retry every pending delivery that is due
+   */
+  async processRetries(): Promise<WebhookDelivery[]> {
+    const now = this.now().getTime();
+    const due = this.read().deliveries.filter(delivery =>
+      delivery.status === 'pending' && delivery.attempts > 0 && Date.parse(delivery.nextAttemptAt || '') <= now
+    );
+
+    const retried: WebhookDelivery[] = [];
+    for (const { id } of due) {
+      const delivery = this.claim(id);
+      if (!delivery) continue;
+      const webhook = this.getWebhook(delivery.webhookId);
+      if (!webhook) {
+        this.saveDelivery(Object.assign(delivery, { status: 'failed', error: 'Webhook was removed', nextAttemptAt: undefined }));
+        continue;
+      }
+      retried.push(await this.deliver(webhook, delivery));
+    }
+    return retried;
+  }
+
+  /**
+   * Check for due retries every `interval` ms, for long-running processes such as the dashboard
+   */
+  start(interval = 1000): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.processRetries().catch(error => logger.warn(`⚠️ Webhook retries failed: ${error instanceof Error ? error.message : error}`));
+    }, interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private createDelivery(webhook: WebhookSubscription, payload: WebhookPayload): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+      id: `whd_${randomBytes(8).toString('hex')}`,
+      webhookId: webhook.id,
+      url: webhook.url,
+      event: payload.event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: this.now().toISOString()
+    };
+    this.saveDelivery(delivery);
+    return delivery;
+  }
+
+  /**
+   * Take a due retry, so the CLI and the dashboard do not both send it. The claim pushes
+   * `nextAttemptAt` past the request timeout, so a process that dies mid-attempt does not strand it.
+   */
+  private claim(id: string): WebhookDelivery | undefined {
+    return this.update(store => {
+      const delivery = store.deliveries.find(entry => entry.id === id);
+      const now = this.now().getTime();
+      if (!delivery || delivery.status !== 'pending' || Date.parse(delivery.nextAttemptAt || '') > now) {
+        return undefined;
+      }
+      delivery.nextAttemptAt = new Date(now + this.timeout).toISOString();
+      return { ...delivery };
+    });
+  }
+
+  private async deliver(webhook: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const { body, headers: formatHeaders } = formatPayload(delivery.payload, {
+      deliveryId: delivery.id,
+      webhookId: webhook.id,
+      format: webhook.format,
+      template: webhook.template
+    });
+    const timestamp = String(Math.floor(this.now().getTime() / 1000));
+    const headers: Record<string, string> = {
+      ...formatHeaders,
+      'User-Agent': 'npmsafe-webhooks',
+      [EVENT_HEADER]: delivery.event,
+      [DELIVERY_HEADER]: delivery.id,
+      [TIMESTAMP_HEADER]: timestamp
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(webhook.secret, timestamp, body);
+    }
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = this.now().toISOString();
+    let retryable = true;
+    try {
+      const response = await axios.post(webhook.url, body, {
+        headers,
+        timeout: this.timeout,
+        validateStatus: () => true,
+        // The body is signed as sent, so axios must not re-serialize it
+        transformRequest: [(data: string) => data]
+      });
+      delivery.responseStatus = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        Object.assign(delivery, { status: 'delivered', error: undefined, nextAttemptAt: undefined });
+        logger.info(`🔔 Webhook sent to ${webhook.url}`);
+        this.saveDelivery(delivery);
+        return delivery;
+      }
+      // Other client errors will not go away by sending the same request again
+      retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      delivery.error = `HTTP ${response.status}`;
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (retryable && delivery.attempts < this.maxAttempts) {
+      const wait = this.retryDelay * 2 ** (delivery.attempts - 1);
+      delivery.nextAttemptAt = new Date(this.now().getTime() + wait).toISOString();
+      logger.warn(`⚠️ Failed to send webhook to ${webhook.url}: ${delivery.error}; retrying in ${Math.round(wait / 1000)}s`);
+    } else {
+      Object.assign(delivery, { status: 'failed', nextAttemptAt: undefined });
+      logger.warn(`⚠️ Failed to send webhook to ${webhook.url}: ${delivery.error}; giving up after ${delivery.attempts} attempt(s)`);
+    }
+    this.saveDelivery(delivery);
+    return delivery;
+  }
+
+  private saveDelivery(delivery: WebhookDelivery): void {
+    this.update(store => {
+      const index = store.deliveries.findIndex(entry => entry.id === delivery.id);
+      if (index >= 0) {
+        store.deliveries[index] = { ...delivery };
+      } else {
+        store.deliveries.push({ ...delivery });
+      }
+    });
+  }
+
+  /**
+   * The store as it is on disk now; the in-memory copy when there is no store file
+   */
+  private read(): WebhookStore {
+    if (!this.storePath || !existsSync(this.storePath)) return this.store;
+    try {
+      const stored = JSON.parse(readFileSync(this.storePath, 'utf-8'));
+      this.store = { webhooks: stored.webhooks || [], deliveries: stored.deliveries || [] };
+    } catch (error) {
+      logger.warn(`⚠️ Could not read webhooks from ${this.storePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    return this.store;
+  }
+
+  /**
+   * Apply a change to the latest store and write it back
+   */
+  private update<T>(change: (store: WebhookStore) => T): T {
+    const store = this.read();
+    const result = change(store);
+    store.deliveries = store.deliveries.slice(-this.logLimit);
+    if (this.storePath) {
+      // Deliveries to config webhooks are logged too, but those webhooks are not stored. The file
+      // holds the signing secrets, so only the owner may read it. Write then rename, so the other
+      // process never reads half a file.
+      const temporary = `${this.storePath}.${process.pid}.tmp`;
+      mkdirSync(path.dirname(this.storePath), { recursive: true });
+      writeFileSync(temporary, JSON.stringify(store, null, 2), { mode: 0o600 });
+      renameSync(temporary, this.storePath);
+    }
+    return result;
+  }
+}
+
+/**
+ * The store for a project. It holds signing secrets, so it lives in the git directory, where
+ * no pack can pick it up, or under `~/.npmsafe/webhooks` outside a git checkout. A store left
+ * in the project root by an older version is moved there.
+ */
+export function defaultWebhookStore(cwd: string = process.cwd()): string {
+  const root = path.resolve(cwd);
+  const gitDir = findGitDir(root);
+  const storePath = gitDir
+    ? path.join(gitDir, 'npmsafe-webhooks.json')
+    : path.join(homedir(), '.npmsafe', 'webhooks', `${createHash('sha256').update(root).digest('hex').slice(0, 16)}.json`);
+
+  const legacy = path.join(root, LEGACY_WEBHOOK_STORE);
+  if (existsSync(legacy) && !existsSync(storePath)) {
+    mkdirSync(path.dirname(storePath), { recursive: true });
+    writeFileSync(storePath, readFileSync(legacy), { mode: 0o600 });
+    rmSync(legacy);
+    logger.warn(`Moved ${LEGACY_WEBHOOK_STORE} to ${storePath} so it cannot be published`);
+  }
+  return storePath;
+}
+
+function findGitDir(start: string): string | undefined {
+  for (let dir = start; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, '.git');
+    if (existsSync(candidate)) {
+      if (statSync(candidate).isDirectory()) return candidate;
+      // Worktrees and submodules have a `.git` file naming the real git directory
+      const match = readFileSync(candidate, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      return match ? path.resolve(dir, match[1].trim()) : undefined;
     }
+    if (path.dirname(dir) === dir) return undefined;
   }
-} 
\ No newline at end of file
+}